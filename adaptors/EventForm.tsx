@@ -6,6 +6,7 @@ import {
   removeProperties,
   TransformerWithNewNameRuleSet,
 } from '../utils/objects'
+import { ICalEvent } from '../utils/ical'
 
 
 // todo: should create a type for the form initialValue, any is not the best option
@@ -52,4 +53,11 @@ export const onSendAdapter = (formValues: object): EventDTO => {
   const formValuesWithPrunedFields = removeProperties(formValuesWithNewProperties, fieldsToRemove)
 
   return formValuesWithPrunedFields as EventDTO
-}
\ No newline at end of file
+}
+
+// the imported events are new ones, the uid from the calendar app should not end up as their id
+export const convertICalEventToFormValues = (icalEvent: ICalEvent): object => {
+  const { id: _uid, ...event } = icalEvent
+
+  return onReceiveAdapter(event as EventDTO)
+}
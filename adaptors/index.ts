@@ -1,5 +1,6 @@
 import { ParsedUrlQuery } from 'querystring'
 import { SearchEventsRequest as SearchEventsRequestDTO } from '../dtos/SearchEventsRequest'
+import { SearchEntriesRequest as SearchEntriesRequestDTO } from '../dtos/SearchEntriesRequest'
 import { convertQueryParamToInt, convertQueryParamToString } from '../utils/utils'
 
 
@@ -15,4 +16,13 @@ export const convertQueryToEventRequest = (query: ParsedUrlQuery): SearchEventsR
     start_max: query.start_max ? convertQueryParamToInt(query.start_max) : undefined,
     start_min: query.start_min ? convertQueryParamToInt(query.start_min) : undefined,
   }
-}
\ No newline at end of file
+}
+
+export const convertQueryToEntryRequest = (query: ParsedUrlQuery): SearchEntriesRequestDTO => ({
+  bbox: query.bbox ? convertQueryParamToString(query.bbox) : undefined,
+  org_tag: query.org_tag ? convertQueryParamToString(query.org_tag) : undefined,
+  categories: query.categories ? convertQueryParamToString(query.categories) : undefined,
+  text: query.text ? convertQueryParamToString(query.text) : undefined,
+  tags: query.tags ? convertQueryParamToString(query.tags) : undefined,
+  limit: query.limit ? convertQueryParamToInt(query.limit) : undefined,
+})
@@ -0,0 +1,37 @@
+import Axios, { CancelTokenSource } from 'axios'
+
+
+export interface SupersedingRequest {
+  start: () => CancelTokenSource
+  isLatest: (source: CancelTokenSource) => boolean
+  cancel: () => void
+}
+
+// keeps track of the latest request of a kind and cancels the older ones that are still in flight,
+// so a slow response can never overwrite the result of a newer request
+export const createSupersedingRequest = (): SupersedingRequest => {
+  let latestSource: CancelTokenSource | null = null
+
+  const cancel = () => {
+    if (latestSource !== null) {
+      latestSource.cancel('superseded by a newer request')
+      latestSource = null
+    }
+  }
+
+  return {
+    start: () => {
+      cancel()
+      latestSource = Axios.CancelToken.source()
+
+      return latestSource
+    },
+
+    // a cancelled request can still resolve if its response arrived before the cancellation
+    isLatest: (source: CancelTokenSource) => source === latestSource,
+
+    cancel,
+  }
+}
+
+export const isCancelledRequest = (error: unknown): boolean => Axios.isCancel(error)
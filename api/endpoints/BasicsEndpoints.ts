@@ -5,14 +5,22 @@ export const SELF_API_URL: string = process.env.NEXT_PUBLIC_SELF_API
 
 
 export const BASICS_ENDPOINTS = {
+  getProjects: (): string => `${SELF_API_URL}/maps`,
   getMapPageConfigs: (project: string): string => `${SELF_API_URL}/maps/${project}/config`,
   getBurgerMenuLinks: (project: string): string => `${SELF_API_URL}/maps/${project}/config/burger-menu`,
   getPopularTags: (): string => `${SELF_API_URL}/entries/most-popular-tags`,
+  getRelatedTags: (): string => `${SELF_API_URL}/entries/related-tags`,
   searchEntries: (): string => `${BASICS_API_URL}/search`,
   searchEvents: (): string => `${BASICS_API_URL}/events`,
   getEntries: (): string => `${BASICS_API_URL}/entries`,
+  getRecentlyChangedEntries: (): string => `${BASICS_API_URL}/entries/recently-changed`,
   getRatings: (): string => `${BASICS_API_URL}/ratings`,
   getEvent: (): string => `${BASICS_API_URL}/events`,
+  getEventICal: (id: string): string => `${SELF_API_URL}/events/${id}/ical`,
+  searchEventsICal: (): string => `${SELF_API_URL}/events/ical`,
+  getEntriesFeed: (): string => `${SELF_API_URL}/entries/feed`,
+  getEventsFeed: (): string => `${SELF_API_URL}/events/feed`,
+  postShortLink: (): string => `${SELF_API_URL}/short-links`,
   postEvent: (): string => `${BASICS_API_URL}/events`,
   postEntries: (): string => `${BASICS_API_URL}/entries`,
   getCategories: (group: string): string => `${SELF_API_URL}/dropdowns/${group}/categories`,
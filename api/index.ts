@@ -1,2 +1,3 @@
 export * from './types.d'
 export { AxiosInstance } from './RequestHandler'
+export { createSupersedingRequest, isCancelledRequest } from './SupersedingRequest'
@@ -2,43 +2,23 @@ import { FC } from 'react'
 import { NextRouter, useRouter } from 'next/router'
 import { Button } from 'antd'
 import { PlusCircleOutlined } from '@ant-design/icons'
-import produce from 'immer'
-import { convertQueryParamToArray } from '../utils/utils'
-import { createSlugPathFromQueryAndRemoveSlug, getRootSlugActionFromQuery } from '../utils/slug'
-import { PluralRootSlugEntity, RootSlugEntity, SlugVerb } from '../utils/types'
+import { getSlugStepsFromQuery, Navigation } from '../utils/navigation'
+import useNavigation from '../hooks/useNavigation'
+import { RootSlugEntity } from '../utils/types'
 
 
-const onAddEntity = (router: NextRouter) => () => {
-  const { query } = router
-
+const onAddEntity = (router: NextRouter, navigation: Navigation) => () => {
   // be sure the state is not in the edit or create mode
-  const slugAction = getRootSlugActionFromQuery(query)
-  if (slugAction.entity !== RootSlugEntity.RESULT || slugAction.subSlugAction !== null) {
+  if (getSlugStepsFromQuery(router.query).length !== 0) {
     return
   }
 
-  const newQueryParams = produce(query, draftState => {
-    const { slug } = query
-    const slugArray = convertQueryParamToArray(slug)
-    slugArray.push(PluralRootSlugEntity.ENTRIES, SlugVerb.CREATE)
-
-    draftState.slug = slugArray
-  })
-
-  const [newPath, newQueryWithoutSlug] = createSlugPathFromQueryAndRemoveSlug(newQueryParams)
-
-  router.replace(
-    {
-      pathname: `/maps/${newPath}`,
-      query: newQueryWithoutSlug,
-    },
-    undefined,
-    { shallow: true },
-  )
+  navigation.createEntity(RootSlugEntity.ENTRY)
 }
 
 const AddEntryButton: FC = () => {
   const router = useRouter()
+  const navigation = useNavigation()
 
   return (
     <Button
@@ -48,7 +28,7 @@ const AddEntryButton: FC = () => {
       type="primary"
       size="middle"
       icon={<PlusCircleOutlined/>}
-      onClick={onAddEntity(router)}
+      onClick={onAddEntity(router, navigation)}
     />
   )
 }
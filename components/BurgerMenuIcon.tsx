@@ -2,12 +2,14 @@ import { FC } from 'react'
 import { useRouter } from 'next/router'
 import { FontAwesomeIcon } from '@fortawesome/react-fontawesome'
 import { getProjectNameFromQuery } from '../utils/slug'
+import useProjectTheme from '../hooks/useProjectTheme'
 
 
 const BurgerMenuIcon: FC = () => {
   const router = useRouter()
   const { query } = router
   const projectName = getProjectNameFromQuery(query)
+  const { logo } = useProjectTheme()
 
   return (
     <div
@@ -18,7 +20,7 @@ const BurgerMenuIcon: FC = () => {
     >
       <img
         alt="burger menu icon"
-        src={`/projects/${projectName}/icons/burger-menu-icon.webp`}
+        src={logo || `/projects/${projectName}/icons/burger-menu-icon.webp`}
         height={25}
         width="auto"
         style={{
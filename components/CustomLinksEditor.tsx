@@ -0,0 +1,144 @@
+import { FC, Fragment, useState } from 'react'
+import useTranslation from 'next-translate/useTranslation'
+import { Button, Col, Form, Input, Row, Typography } from 'antd'
+import { HolderOutlined, MinusCircleOutlined, PlusOutlined } from '@ant-design/icons'
+import { CustomLink } from '../dtos/CustomLink'
+import { isValidLink } from '../utils/domain'
+import { CustomLinkTag } from './EntryLinks'
+
+
+const { Text } = Typography
+
+
+interface CustomLinksEditorProps {
+  // the name of the list in the form, it's renamed to links before the entry is sent
+  name: string
+}
+
+// the links keep the order they are given in, so they can be dragged by their handles
+const CustomLinksEditor: FC<CustomLinksEditorProps> = (props) => {
+  const { name } = props
+
+  const { t } = useTranslation('map')
+
+  // only the row whose handle is held can be dragged, otherwise the text of the inputs could not be selected
+  const [draggableIndex, setDraggableIndex] = useState<number | null>(null)
+  const [draggedIndex, setDraggedIndex] = useState<number | null>(null)
+
+  const stopDragging = () => {
+    setDraggableIndex(null)
+    setDraggedIndex(null)
+  }
+
+  return (
+    <Form.List name={name}>
+      {(fields, { add, remove, move }) => (
+        <Fragment>
+          {fields.map((field, i) => (
+            <div
+              key={field.key}
+              draggable={draggableIndex === i}
+              onDragStart={() => setDraggedIndex(i)}
+              onDragOver={e => e.preventDefault()}
+              onDrop={() => {
+                if (draggedIndex !== null && draggedIndex !== i) {
+                  move(draggedIndex, i)
+                }
+                stopDragging()
+              }}
+              onDragEnd={stopDragging}
+              style={{
+                marginBottom: 16,
+                opacity: draggedIndex === i ? 0.5 : 1,
+              }}
+            >
+              <Row gutter={8} align="middle" wrap={false}>
+                <Col flex="none">
+                  <HolderOutlined
+                    title={t('customLinksEditor.reorder')}
+                    onMouseDown={() => setDraggableIndex(i)}
+                    onMouseUp={stopDragging}
+                    style={{ cursor: 'grab' }}
+                  />
+                </Col>
+                <Col flex="auto">
+                  <Form.Item
+                    {...field}
+                    name={[field.name, 'url']}
+                    fieldKey={[field.fieldKey, 'url']}
+                    validateTrigger="onBlur"
+                    rules={[
+                      { required: true, message: t('customLinksEditor.urlRequired') },
+                      {
+                        validator: (_rule, url: string) => (
+                          !url || isValidLink(url) ?
+                            Promise.resolve() :
+                            Promise.reject(t('customLinksEditor.urlInvalid'))
+                        ),
+                      },
+                    ]}
+                    style={{ marginBottom: 4 }}
+                  >
+                    <Input placeholder="https://"/>
+                  </Form.Item>
+                </Col>
+                <Col flex="none">
+                  <MinusCircleOutlined
+                    title={t('customLinksEditor.remove')}
+                    onClick={() => remove(field.name)}
+                  />
+                </Col>
+              </Row>
+
+              <Row gutter={8} style={{ paddingLeft: 22, paddingRight: 22 }}>
+                <Col span={12}>
+                  <Form.Item
+                    {...field}
+                    name={[field.name, 'title']}
+                    fieldKey={[field.fieldKey, 'title']}
+                    style={{ marginBottom: 4 }}
+                  >
+                    <Input placeholder={t('customLinksEditor.title')}/>
+                  </Form.Item>
+                </Col>
+                <Col span={12}>
+                  <Form.Item
+                    {...field}
+                    name={[field.name, 'description']}
+                    fieldKey={[field.fieldKey, 'description']}
+                    style={{ marginBottom: 4 }}
+                  >
+                    <Input placeholder={t('customLinksEditor.description')}/>
+                  </Form.Item>
+                </Col>
+              </Row>
+
+              {/*the preview follows the inputs, the unknown domains get the default icon*/}
+              <Form.Item noStyle shouldUpdate>
+                {({ getFieldValue }) => {
+                  const link: CustomLink = getFieldValue([name, field.name]) || { url: '' }
+
+                  return (
+                    <div style={{ paddingLeft: 22 }}>
+                      <Text type="secondary">{t('customLinksEditor.preview')} </Text>
+                      <CustomLinkTag link={{ ...link, url: link.url || '' }}/>
+                    </div>
+                  )
+                }}
+              </Form.Item>
+            </div>
+          ))}
+
+          <Form.Item>
+            <Button type="dashed" onClick={() => add({ url: '' })} block icon={<PlusOutlined/>}>
+              {t('customLinksEditor.add')}
+            </Button>
+          </Form.Item>
+        </Fragment>
+      )}
+    </Form.List>
+  )
+}
+
+
+export default CustomLinksEditor
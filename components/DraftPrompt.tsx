@@ -0,0 +1,46 @@
+import { FC } from 'react'
+import useTranslation from 'next-translate/useTranslation'
+import { Alert, Button, Space } from 'antd'
+import moment from 'moment'
+import { Draft } from '../utils/drafts'
+
+
+interface DraftPromptProps {
+  draft: Draft | null
+  onRestore: () => void
+  onDiscard: () => void
+}
+
+// asks before the draft replaces what the form was opened with
+const DraftPrompt: FC<DraftPromptProps> = (props) => {
+  const { draft, onRestore, onDiscard } = props
+
+  const { t } = useTranslation('map')
+
+  if (draft === null) {
+    return null
+  }
+
+  return (
+    <Alert
+      type="info"
+      showIcon
+      message={t('drafts.found')}
+      description={t('drafts.savedAt', { savedAt: moment.unix(draft.savedAt).fromNow() })}
+      action={
+        <Space direction="vertical">
+          <Button size="small" type="primary" onClick={onRestore}>
+            {t('drafts.restore')}
+          </Button>
+          <Button size="small" onClick={onDiscard}>
+            {t('drafts.discard')}
+          </Button>
+        </Space>
+      }
+      style={{ marginBottom: 8 }}
+    />
+  )
+}
+
+
+export default DraftPrompt
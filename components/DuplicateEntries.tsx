@@ -0,0 +1,80 @@
+import { FC } from 'react'
+import useTranslation from 'next-translate/useTranslation'
+import { Alert, Button, List, Tag, Typography } from 'antd'
+import { Entry } from '../dtos/Entry'
+import { SearchEntryID } from '../dtos/SearchEntry'
+import { Duplicate } from '../utils/duplicates'
+
+
+const { Text } = Typography
+
+
+interface DuplicateEntriesProps {
+  duplicates: Duplicate<Entry>[]
+  onOpen: (id: SearchEntryID) => void
+  onCreateAnyway: () => void
+}
+
+const getAddress = (entry: Entry): string => (
+  [entry.street, [entry.zip, entry.city].filter(Boolean).join(' ')]
+    .filter(Boolean)
+    .join(', ')
+)
+
+// the entries that may already be the one that is being created, shown before it is sent
+const DuplicateEntries: FC<DuplicateEntriesProps> = (props) => {
+  const { duplicates, onOpen, onCreateAnyway } = props
+
+  const { t } = useTranslation('map')
+
+  return (
+    <div style={{ marginBottom: 8 }}>
+      <Alert
+        type="warning"
+        message={t('duplicates.title')}
+        description={t('duplicates.description')}
+      />
+
+      <List
+        dataSource={duplicates}
+        renderItem={({ candidate, reasons }: Duplicate<Entry>) => (
+          <List.Item
+            key={candidate.id}
+            actions={[
+              <Button
+                key="open"
+                type="link"
+                size="small"
+                onClick={() => onOpen(candidate.id)}
+              >
+                {t('duplicates.openInstead')}
+              </Button>,
+            ]}
+          >
+            <List.Item.Meta
+              title={candidate.title}
+              description={
+                <div>
+                  <Text type="secondary">{getAddress(candidate)}</Text>
+                  <br/>
+                  {
+                    reasons.map(reason => (
+                      <Tag key={reason}>{t(`duplicates.reasons.${reason}`)}</Tag>
+                    ))
+                  }
+                </div>
+              }
+            />
+          </List.Item>
+        )}
+      />
+
+      <Button block onClick={onCreateAnyway}>
+        {t('duplicates.createAnyway')}
+      </Button>
+    </div>
+  )
+}
+
+
+export default DuplicateEntries
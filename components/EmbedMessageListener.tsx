@@ -0,0 +1,91 @@
+import { FC, useEffect } from 'react'
+import { useDispatch, useSelector } from 'react-redux'
+import { RootState } from '../slices'
+import { selectedEntitySelector } from '../selectors/map'
+import { SelectedEntity, setCenter, setViewport } from '../slices/mapSlice'
+import useNavigation from '../hooks/useNavigation'
+import { Navigation } from '../utils/navigation'
+import { AppDispatch } from '../store'
+import {
+  createSelectEvent,
+  EmbedCommand,
+  EmbedCommandType,
+  EmbedEvent,
+  EmbedEventType,
+  parseEmbedCommand,
+} from '../utils/embed'
+
+
+// the host pages can be anywhere, the events carry only what is already public on the map
+const postToHost = (embedEvent: EmbedEvent) => {
+  window.parent.postMessage(embedEvent, '*')
+}
+
+const runEmbedCommand = (dispatch: AppDispatch, navigation: Navigation, command: EmbedCommand) => {
+  switch (command.type) {
+    case EmbedCommandType.SET_CENTER: {
+      const center = { lat: command.lat, lng: command.lng }
+      if (command.zoom === undefined) {
+        dispatch(setCenter(center))
+      } else {
+        dispatch(setViewport({ center, zoom: command.zoom }))
+      }
+
+      return
+    }
+
+    case EmbedCommandType.SET_TAGS:
+      navigation.setFilters({ tag: command.tags })
+
+      return
+
+    case EmbedCommandType.SET_SEARCH:
+      navigation.setFilters({ search: command.text })
+
+      return
+  }
+}
+
+
+// the postMessage api of the embedded map, see utils/embed.ts for the messages
+const EmbedMessageListener: FC = () => {
+  const dispatch = useDispatch()
+  const navigation = useNavigation()
+
+  const selectedEntity: SelectedEntity | null = useSelector(
+    (state: RootState) => selectedEntitySelector(state),
+  )
+
+  useEffect(() => {
+    const onMessage = (event: MessageEvent) => {
+      // only the page that embeds the map can control it
+      if (event.source !== window.parent) {
+        return
+      }
+
+      const command = parseEmbedCommand(event.data)
+      if (command !== null) {
+        runEmbedCommand(dispatch, navigation, command)
+      }
+    }
+
+    window.addEventListener('message', onMessage)
+
+    return () => {
+      window.removeEventListener('message', onMessage)
+    }
+  }, [navigation])
+
+  useEffect(() => {
+    postToHost({ type: EmbedEventType.READY })
+  }, [])
+
+  useEffect(() => {
+    postToHost(createSelectEvent(selectedEntity))
+  }, [selectedEntity?.entity, selectedEntity?.id])
+
+  return null
+}
+
+
+export default EmbedMessageListener
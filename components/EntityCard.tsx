@@ -0,0 +1,51 @@
+import { FC } from 'react'
+import dynamic from 'next/dynamic'
+import useTranslation from 'next-translate/useTranslation'
+import { Card, Space, Tag, Typography } from 'antd'
+import EntityAddress from './EntityAddress'
+import { EntityCard as EntityCardDTO } from '../utils/oembed'
+
+
+const { Title } = Typography
+
+// leaflet needs the window
+const EntityCardMap = dynamic(() => import('./EntityCardMap'), { ssr: false })
+
+
+// the compact version of the entity for the iframes of the oembed consumers
+const EntityCard: FC<EntityCardDTO> = (props) => {
+  const { title, imageUrl, tags, lat, lng, categories, url, ...address } = props
+
+  const { t } = useTranslation('map')
+
+  return (
+    <Card
+      size="small"
+      cover={imageUrl && <img alt={title} src={imageUrl} style={{ maxHeight: 160, objectFit: 'cover' }}/>}
+      actions={[
+        <a key="show-on-map" href={url} target="_blank" rel="noopener noreferrer">
+          {t('businesscardWidget.showOnMap')}
+        </a>,
+      ]}
+    >
+      <Title level={5} ellipsis={{ rows: 2 }}>
+        <a href={url} target="_blank" rel="noopener noreferrer">{title}</a>
+      </Title>
+
+      <EntityAddress {...address}/>
+
+      <Space size={[0, 4]} wrap style={{ marginTop: 8 }}>
+        {
+          tags.map(tag => <Tag key={tag}>#{tag}</Tag>)
+        }
+      </Space>
+
+      <div style={{ height: 120, marginTop: 8 }}>
+        <EntityCardMap lat={lat} lng={lng} categories={categories}/>
+      </div>
+    </Card>
+  )
+}
+
+
+export default EntityCard
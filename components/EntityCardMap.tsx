@@ -0,0 +1,48 @@
+import { FC } from 'react'
+import { MapContainer, Marker, TileLayer } from 'react-leaflet'
+import 'leaflet/dist/leaflet.css'
+import { Categories } from '../dtos/Categories'
+import useProjectTheme from '../hooks/useProjectTheme'
+import { getIcon } from './MapMarkers'
+
+
+interface EntityCardMapProps {
+  lat: number
+  lng: number
+  categories: Categories
+}
+
+// a static preview, the card links to the full map for everything else
+const EntityCardMap: FC<EntityCardMapProps> = (props) => {
+  const { lat, lng, categories } = props
+
+  const theme = useProjectTheme()
+
+  return (
+    <MapContainer
+      center={[lat, lng]}
+      zoom={14}
+      style={{ height: '100%', width: '100%' }}
+      zoomControl={false}
+      dragging={false}
+      scrollWheelZoom={false}
+      doubleClickZoom={false}
+      touchZoom={false}
+      keyboard={false}
+    >
+      <TileLayer
+        attribution='&copy; <a href="http://osm.org/copyright">OpenStreetMap</a> contributors'
+        url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png"
+      />
+
+      <Marker
+        position={[lat, lng]}
+        icon={getIcon(theme, categories)}
+        interactive={false}
+      />
+    </MapContainer>
+  )
+}
+
+
+export default EntityCardMap
@@ -1,60 +1,10 @@
-import { NextRouter, useRouter } from 'next/router'
-import produce from 'immer'
 import { Button, PageHeader } from 'antd'
 import { EditOutlined } from '@ant-design/icons/lib'
-import { convertQueryParamToArray } from '../utils/utils'
-import { SlugVerb } from '../utils/types'
-import { createSlugPathFromQueryAndRemoveSlug } from '../utils/slug'
-
-
-const onBack = (router: NextRouter) => () => {
-  const { query } = router
-  const newQueryParams = produce(query, draftState => {
-    const { slug } = draftState
-    const slugArray = convertQueryParamToArray(slug)
-
-    slugArray.splice(slugArray.length - 2, 2)
-    draftState.slug = slugArray
-  })
-
-  const [newPath, newQueryWithoutSlug] = createSlugPathFromQueryAndRemoveSlug(newQueryParams)
-
-  router.replace(
-    {
-      pathname: `/maps/${newPath}`,
-      query: newQueryWithoutSlug,
-    },
-    undefined,
-    { shallow: true },
-  )
-}
-
-const onEdit = (router: NextRouter) => () => {
-  const { query } = router
-  const newQueryParams = produce(query, draftState => {
-    const { slug } = draftState
-    const slugArray = convertQueryParamToArray(slug)
-    slugArray.push(SlugVerb.EDIT)
-
-    draftState.slug = slugArray
-  })
-
-  const [newPath, newQueryWithoutSlug] = createSlugPathFromQueryAndRemoveSlug(newQueryParams)
-
-  router.replace(
-    {
-      pathname: `/maps/${newPath}`,
-      query: newQueryWithoutSlug,
-    },
-    undefined,
-    { shallow: true },
-  )
-}
+import useNavigation from '../hooks/useNavigation'
 
 
 const EntityDetailHeader = () => {
-  const router = useRouter()
-
+  const navigation = useNavigation()
 
   return (
     <PageHeader
@@ -65,14 +15,14 @@ const EntityDetailHeader = () => {
         paddingBottom: 4,
       }}
       ghost={false}
-      onBack={onBack(router)}
+      onBack={navigation.back}
       extra={[
         <Button
           key="1"
           type="primary"
           size="small"
           icon={<EditOutlined/>}
-          onClick={onEdit(router)}
+          onClick={navigation.editCurrentEntity}
         />,
       ]}
     />
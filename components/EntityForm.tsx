@@ -1,6 +1,7 @@
 import React, { FC } from 'react'
 import Category from '../dtos/Categories'
 import EventForm from './EventForm'
+import NewEventForm from './NewEventForm'
 import InitiativeForm from './InitiativeForm'
 import { SearchEntryID } from '../dtos/SearchEntry'
 import { EventID } from '../dtos/Event'
@@ -33,6 +34,10 @@ const EntityForm: FC<EntityFormProps> = (props) => {
         />
       )
     case Category.EVENT:
+      if (verb === SlugVerb.CREATE) {
+        return <NewEventForm/>
+      }
+
       return (
         <EventForm
           eventId={entityId}
@@ -0,0 +1,39 @@
+import { FC } from 'react'
+import Head from 'next/head'
+import { EntityHeadProps } from '../utils/seo'
+
+
+// the crawlers of the messengers do not run javascript, so the tags have to be rendered on the server
+const EntityHead: FC<EntityHeadProps> = (props) => {
+  const { meta, jsonLd, oEmbedUrl } = props
+  const { title, description, url, imageUrl } = meta
+
+  return (
+    <Head>
+      <title>{title}</title>
+      <meta name="description" content={description}/>
+      <link rel="canonical" href={url}/>
+      <link rel="alternate" type="application/json+oembed" href={oEmbedUrl} title={title}/>
+
+      <meta property="og:type" content="website"/>
+      <meta property="og:title" content={title}/>
+      <meta property="og:description" content={description}/>
+      <meta property="og:url" content={url}/>
+      {imageUrl && <meta property="og:image" content={imageUrl}/>}
+
+      <meta name="twitter:card" content={imageUrl ? 'summary_large_image' : 'summary'}/>
+      <meta name="twitter:title" content={title}/>
+      <meta name="twitter:description" content={description}/>
+      {imageUrl && <meta name="twitter:image" content={imageUrl}/>}
+
+      <script
+        type="application/ld+json"
+        // the closing tags in the texts of the entities should not end the script
+        dangerouslySetInnerHTML={{ __html: JSON.stringify(jsonLd).replace(/</g, '\\u003c') }}
+      />
+    </Head>
+  )
+}
+
+
+export default EntityHead
@@ -1,5 +1,4 @@
 import React, { FC, Fragment } from 'react'
-import { NextRouter, useRouter } from 'next/router'
 import toString from 'lodash/toString'
 import groupBy from 'lodash/groupBy'
 import isEmpty from 'lodash/isEmpty'
@@ -7,81 +6,29 @@ import { isWebUri } from 'valid-url'
 import moment from 'moment'
 import { Button, Comment, Divider, Typography } from 'antd'
 import useTranslation from 'next-translate/useTranslation'
-import { Rating, RatingID } from '../dtos/Rating'
+import { Rating } from '../dtos/Rating'
 import { RatingsRequest } from '../dtos/RatingsRequest'
 import useRequest from '../api/useRequest'
 import API_ENDPOINTS from '../api/endpoints'
 import { RatingComment } from '../dtos/RatingComment'
-import produce from 'immer'
-import { convertQueryParamToArray } from '../utils/utils'
-import { EntrySlugEntity, mapSingularEntityNameToPlural, RatingSlugEntity, SlugVerb } from '../utils/types'
-import { createSlugPathFromQueryAndRemoveSlug } from '../utils/slug'
+import { SearchEntryID } from '../dtos/SearchEntry'
+import useNavigation from '../hooks/useNavigation'
 
 
 const { Title, Link, Text } = Typography
 
 
 interface EntityCommentsProps {
+  entryId: SearchEntryID
   ratingsIds: string[]
 }
 
 
-const redirectToNewRatingForm = (router: NextRouter) => () => {
-  const { query } = router
-  const newQueryParams = produce(query, draftState => {
-    const { slug } = draftState
-    const slugArray = convertQueryParamToArray(slug)
-
-    slugArray.push(mapSingularEntityNameToPlural[EntrySlugEntity.RATING], SlugVerb.CREATE)
-    draftState.slug = slugArray
-  })
-
-  const [newPath, newQueryWithoutSlug] = createSlugPathFromQueryAndRemoveSlug(newQueryParams)
-
-  router.replace(
-    {
-      pathname: `/maps/${newPath}`,
-      query: newQueryWithoutSlug,
-    },
-    undefined,
-    { shallow: true },
-  )
-}
-
-
-const redirectToRatingCommentForm = (router: NextRouter, ratingId: RatingID) => () => {
-  const { query } = router
-  const newQueryParams = produce(query, draftState => {
-    const { slug } = draftState
-    const slugArray = convertQueryParamToArray(slug)
-
-    slugArray.push(
-      mapSingularEntityNameToPlural[EntrySlugEntity.RATING],
-      ratingId,
-      mapSingularEntityNameToPlural[RatingSlugEntity.COMMENT],
-      SlugVerb.CREATE,
-    )
-    draftState.slug = slugArray
-  })
-
-  const [newPath, newQueryWithoutSlug] = createSlugPathFromQueryAndRemoveSlug(newQueryParams)
-
-  router.replace(
-    {
-      pathname: `/maps/${newPath}`,
-      query: newQueryWithoutSlug,
-    },
-    undefined,
-    { shallow: true },
-  )
-}
-
-
 const EntityRatings: FC<EntityCommentsProps> = (props) => {
-  const { ratingsIds } = props
+  const { entryId, ratingsIds } = props
   const hasRatings = ratingsIds.length !== 0
 
-  const router = useRouter()
+  const navigation = useNavigation()
 
   const { t } = useTranslation('map')
 
@@ -123,7 +70,7 @@ const EntityRatings: FC<EntityCommentsProps> = (props) => {
 
       <Button
         type="primary"
-        onClick={redirectToNewRatingForm(router)}
+        onClick={() => navigation.openRatingForm(entryId)}
         style={{
           width: '100%',
           marginBottom: 16,
@@ -177,7 +124,7 @@ const EntityRatings: FC<EntityCommentsProps> = (props) => {
                         <Button
                           type="text"
                           size="small"
-                          onClick={redirectToRatingCommentForm(router, contextRating.id)}
+                          onClick={() => navigation.openRatingCommentForm(entryId, contextRating.id)}
                         >
                           {t('ratings.newComment')}
                         </Button>,
@@ -1,11 +1,11 @@
 import React, { FC } from 'react'
 import { useRouter } from 'next/router'
-import isString from 'lodash/isString'
 import isArray from 'lodash/isArray'
 import { Divider, Spin, Typography } from 'antd'
 import useRequest from '../api/useRequest'
 import { EntryRequest } from '../dtos/EntryRequest'
-import { RootSlugEntity, RouterQueryParam } from '../utils/types'
+import { RootSlugEntity } from '../utils/types'
+import useEnforcedFilters from '../hooks/useEnforcedFilters'
 import { SearchEntryID } from '../dtos/SearchEntry'
 import { Entries as EntriesDTO, Entry } from '../dtos/Entry'
 import API_ENDPOINTS from '../api/endpoints'
@@ -38,15 +38,15 @@ const EntryDetail: FC<EntryDetailProps> = (props) => {
 
   // todo: duplicate code also for editing an entry, make it a higher order hook
   const router = useRouter()
-  const { query, pathname } = router
+  const { pathname } = router
 
-  const optionalOrgTag: RouterQueryParam = query['org-tag']
-  const orgTag = optionalOrgTag && isString(optionalOrgTag) ? optionalOrgTag : null
+  // the entries are requested with the org tag of the project or the iframe
+  const enforcedFilters = useEnforcedFilters()
   const entryRequest: EntryRequest = {
-    org_tag: orgTag,
+    org_tag: enforcedFilters !== null ? enforcedFilters.orgTag : null,
   }
 
-  const { data: entries, error: entriesError } = useRequest<EntriesDTO>({
+  const { data: entries, error: entriesError } = useRequest<EntriesDTO>(enforcedFilters !== null && {
     url: `${API_ENDPOINTS.getEntries()}/${entryId}`,
     params: entryRequest,
   })
@@ -111,14 +111,19 @@ const EntryDetail: FC<EntryDetailProps> = (props) => {
         zip={entry.zip}
       />
 
-      <OpeningHours openingHours={entry.opening_hours}/>
+      <OpeningHours
+        openingHours={entry.opening_hours}
+        lat={entry.lat}
+        lng={entry.lng}
+        state={entry.state}
+      />
 
       <EntryLinks links={entry.custom}/>
 
 
       <EntityTags tags={entry.tags}/>
 
-      <EntityRatings ratingsIds={entry.ratings}/>
+      <EntityRatings entryId={entryId} ratingsIds={entry.ratings}/>
 
       <EntityFooter
         entityId={entry.id}
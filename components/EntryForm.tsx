@@ -1,13 +1,12 @@
-import React, { FC, Fragment, useEffect } from 'react'
-import { NextRouter, useRouter } from 'next/router'
-import { useDispatch } from 'react-redux'
+import React, { FC, Fragment, useEffect, useState } from 'react'
+import { useDispatch, useSelector } from 'react-redux'
 import { AppDispatch } from '../store'
-import { Button, Checkbox, Divider, Form, FormInstance, Input, Select, Space, Spin, Typography } from 'antd'
-import { MinusCircleOutlined, PlusOutlined } from '@ant-design/icons/lib'
-import isString from 'lodash/isString'
+import { Button, Checkbox, Divider, Form, FormInstance, Input, Select, Spin, Typography } from 'antd'
 import isArray from 'lodash/isArray'
 import { FontAwesomeIcon } from '@fortawesome/react-fontawesome'
-import { redirectToEntityDetail } from '../utils/slug'
+import { Navigation } from '../utils/navigation'
+import useNavigation from '../hooks/useNavigation'
+import useEnforcedFilters from '../hooks/useEnforcedFilters'
 import { AxiosInstance } from '../api'
 import useRequest from '../api/useRequest'
 import API_ENDPOINTS from '../api/endpoints'
@@ -17,14 +16,30 @@ import { NewEntryWithVersion } from '../dtos/NewEntryWithVersion'
 import { Entries as EntriesDTO, Entry } from '../dtos/Entry'
 import { convertNewEntryToSearchEntry, SearchEntryID } from '../dtos/SearchEntry'
 import Point from '../dtos/Point'
-import { RouterQueryParam, SlugVerb } from '../utils/types'
+import { pinnedLocationSelector } from '../selectors/map'
+import { MapCenter } from '../slices/mapSlice'
+import { RootSlugEntity, SlugVerb } from '../utils/types'
 import { ExtendedGeocodeAddress, getCityFromAddress, reverseGeocode } from '../utils/geolocation'
 import Category from '../dtos/Categories'
-import { entriesActions } from '../slices'
+import { entriesActions, RootState } from '../slices'
 import { renameProperties, setValuesToDefaultOrNull, transformObject } from '../utils/objects'
+import { addEnforcedTags, EnforcedFilters } from '../utils/filters'
 import { isValidPhoneNumber } from 'libphonenumber-js'
 import { validate as isValidEmail } from 'isemail'
+import SearchEntriesResponse from '../dtos/SearchEntriesResponse'
+import { fetchEntries } from '../utils/entities'
+import { Duplicate, findDuplicates, getBBoxAroundPoint } from '../utils/duplicates'
+import { convertBBoxTupleToString } from '../utils/sitemap'
+import { DUPLICATES } from '../consts/duplicates'
+import { DRAFTS } from '../consts/drafts'
+import { getOpeningHoursNominatim } from '../utils/openingHours'
+import { getDraftKey } from '../utils/drafts'
+import useFormDraft from '../hooks/useFormDraft'
 import TagsSelect from './TagsSelect'
+import DuplicateEntries from './DuplicateEntries'
+import OpeningHoursEditor from './OpeningHoursEditor'
+import CustomLinksEditor from './CustomLinksEditor'
+import DraftPrompt from './DraftPrompt'
 
 
 const { useForm } = Form
@@ -93,22 +108,7 @@ const transformFormFields = (entry: EntryFormType): EntryFormType => {
 
 
 // todo: it's an awful ani-pattern to shake the map to retrieve the entry
-// todo: create a class for the changing the router
 // todo: create a thunk for prepending the entry to the collection
-const redirectToEntry = (router: NextRouter, entryId: SearchEntryID) => {
-  // gotcha: the categories of initiative and company both are mapped to entity so it does not matter
-  // what we pass as the category
-  // if at any time we decided to make them separate here is the point to touch
-  redirectToEntityDetail(
-    router,
-    entryId,
-    Category.INITIATIVE,
-    2,
-    ['pinLat', 'pinLng'],
-  )
-}
-
-
 const addEntryToState = (
   id: SearchEntryID,
   entry: EntryFormType,
@@ -129,6 +129,24 @@ const onCreate = async (entry: NewEntryWithLicense): Promise<SearchEntryID> => {
   return response.data
 }
 
+// the search results do not have the contacts, so the entries around the pin are fetched as a whole
+const findDuplicateEntries = async (entry: NewEntryWithLicense): Promise<Duplicate<Entry>[]> => {
+  const bbox = getBBoxAroundPoint(entry.lat, entry.lng, DUPLICATES.searchRadius)
+  const searchEntriesResponse = await AxiosInstance.GetRequest<SearchEntriesResponse>(
+    API_ENDPOINTS.searchEntries(),
+    { params: { bbox: convertBBoxTupleToString(bbox), limit: DUPLICATES.searchLimit } },
+  )
+
+  const ids = AxiosInstance.GetSuccessData(searchEntriesResponse).visible.map(searchEntry => searchEntry.id)
+  if (ids.length === 0) {
+    return []
+  }
+
+  const entries = await fetchEntries(ids, DUPLICATES.searchLimit)
+
+  return findDuplicates(entry, entries)
+}
+
 const onEdit = async (
   entry: NewEntryWithVersion,
   entryId: SearchEntryID,
@@ -168,19 +186,27 @@ const addEntryToStateOnCreate = (
 }
 
 const onFinish = (
-  router: NextRouter,
+  navigation: Navigation,
   dispatch: AppDispatch,
   isEdit: boolean,
   entryId: SearchEntryID,
+  enforcedFilters: EnforcedFilters | null,
+  clearDraft: () => void,
 ) => async (entry: EntryFormType) => {
   // todo: if failed then show a notification
+  // the new entries should be found on the map they are created on
+  if (!isEdit && enforcedFilters !== null) {
+    entry = { ...entry, tags: addEnforcedTags(entry.tags, enforcedFilters) }
+  }
+
   const entryWithDefaultValues = setFieldsToDefaultOrNull(entry)
   const adaptedEntry = transformFormFields(entryWithDefaultValues)
 
   entryId = await createOrEditEntry(adaptedEntry, entryId, isEdit)
+  clearDraft()
 
   addEntryToStateOnCreate(isEdit, entryId, adaptedEntry, dispatch)
-  redirectToEntry(router, entryId)
+  navigation.openEntry(entryId)
 }
 
 
@@ -200,12 +226,28 @@ const EntryForm: FC<EntryFormProps> = (props) => {
 
   const dispatch = useDispatch()
 
-  const router = useRouter()
-  const { query } = router
+  const navigation = useNavigation()
 
   const [form] = useForm<EntryFormType>()
 
-  const newPoint = new Point().fromQuery(query)
+  const isEdit = verb === SlugVerb.EDIT
+
+  // the new companies and initiatives are drafted apart, they are placed by the pin.
+  // the edited ones keep the id and the version they were loaded with
+  const formDraft = useFormDraft(
+    form,
+    getDraftKey(RootSlugEntity.ENTRY, verb, isEdit ? entryId : category),
+    isEdit ? DRAFTS.versionFields : DRAFTS.locationFields,
+  )
+
+  // the new entry waits here while its likely duplicates are shown
+  const [pendingEntry, setPendingEntry] = useState<EntryFormType | null>(null)
+  const [duplicates, setDuplicates] = useState<Duplicate<Entry>[]>([])
+
+  const pinnedLocation: MapCenter | null = useSelector(
+    (state: RootState) => pinnedLocationSelector(state),
+  )
+  const newPoint = pinnedLocation !== null ? new Point(pinnedLocation.lat, pinnedLocation.lng) : new Point()
 
   const effectDeps = [...newPoint.toArray()]
 
@@ -217,15 +259,13 @@ const EntryForm: FC<EntryFormProps> = (props) => {
 
   }, effectDeps)
 
-  const isEdit = verb === SlugVerb.EDIT
-
-  const optionalOrgTag: RouterQueryParam = query['org-tag']
-  const orgTag = optionalOrgTag && isString(optionalOrgTag) ? optionalOrgTag : null
+  // the entries are requested with the org tag of the project or the iframe
+  const enforcedFilters = useEnforcedFilters()
   const entryRequest: EntryRequest = {
-    org_tag: orgTag,
+    org_tag: enforcedFilters !== null ? enforcedFilters.orgTag : null,
   }
 
-  const { data: entries, error: entriesError } = useRequest<EntriesDTO>(isEdit && {
+  const { data: entries, error: entriesError } = useRequest<EntriesDTO>(isEdit && enforcedFilters !== null && {
     url: `${API_ENDPOINTS.getEntries()}/${entryId}`,
     params: entryRequest,
   })
@@ -235,6 +275,34 @@ const EntryForm: FC<EntryFormProps> = (props) => {
   const entry: Entry = foundEntry ? entries[0] : {} as Entry
   //it's an overwrite to be sure it's not empty for the new entries
   entry.categories = [category]
+  // the api returns the links as custom but expects them as links, the form edits them as custom_links
+  const initialValues = { ...entry, custom_links: entry.custom || [] }
+
+
+  const submitEntry = onFinish(navigation, dispatch, isEdit, entryId, enforcedFilters, formDraft.clear)
+
+  const onSubmit = async (newEntry: EntryFormType) => {
+    if (!isEdit) {
+      // the check should never keep anyone from adding a place
+      const foundDuplicates = await findDuplicateEntries(newEntry as NewEntryWithLicense).catch(() => [])
+      if (foundDuplicates.length !== 0) {
+        setPendingEntry(newEntry)
+        setDuplicates(foundDuplicates)
+
+        return
+      }
+    }
+
+    await submitEntry(newEntry)
+  }
+
+  const createPendingEntry = async () => {
+    const newEntry = pendingEntry
+    setPendingEntry(null)
+    setDuplicates([])
+
+    await submitEntry(newEntry)
+  }
 
 
   if (entriesError) {
@@ -263,11 +331,18 @@ const EntryForm: FC<EntryFormProps> = (props) => {
       style={{
         marginTop: 8,
       }}
-      initialValues={entry}
-      onFinish={onFinish(router, dispatch, isEdit, entryId)}
+      initialValues={initialValues}
+      onFinish={onSubmit}
+      onValuesChange={formDraft.save}
       form={form}
     >
 
+      <DraftPrompt
+        draft={formDraft.draft}
+        onRestore={formDraft.restore}
+        onDiscard={formDraft.discard}
+      />
+
       <Form.Item name="id" hidden>
         <Input disabled/>
       </Form.Item>
@@ -388,51 +463,15 @@ const EntryForm: FC<EntryFormProps> = (props) => {
         <Input placeholder="homepage" prefix={<FontAwesomeIcon icon="globe"/>}/>
       </Form.Item>
 
+      <Divider orientation="left">Opening Hours</Divider>
+
       <Form.Item name="opening_hours">
-        <Input placeholder="Opening Hours" prefix={<FontAwesomeIcon icon="clock"/>}/>
+        <OpeningHoursEditor nominatim={getOpeningHoursNominatim(entry.lat, entry.lng, entry.state)}/>
       </Form.Item>
 
-      <div style={{ width: '100%', textAlign: 'center' }}>
-        <Link
-          href={process.env.NEXT_PUBLIC_OPENING_HOURS}
-          target="_blank"
-        >
-          Find out the right format for your time
-        </Link>
-      </div>
-
       <Divider orientation="left">Links and Social Media</Divider>
 
-      <Form.List name="custom_links">
-        {(fields, { add, remove }) => (
-          <Fragment>
-            {fields.map(field => (
-              <Space key={field.key} style={{ display: 'flex', marginBottom: 8 }} align="baseline">
-                <Form.Item
-                  {...field}
-                  name={[field.name, 'first']}
-                  fieldKey={[field.fieldKey, 'first']}
-                >
-                  <Input placeholder="First Name"/>
-                </Form.Item>
-                <Form.Item
-                  {...field}
-                  name={[field.name, 'last']}
-                  fieldKey={[field.fieldKey, 'last']}
-                >
-                  <Input placeholder="Last Name"/>
-                </Form.Item>
-                <MinusCircleOutlined onClick={() => remove(field.name)}/>
-              </Space>
-            ))}
-            <Form.Item>
-              <Button type="dashed" onClick={() => add()} block icon={<PlusOutlined/>}>
-                Add field
-              </Button>
-            </Form.Item>
-          </Fragment>
-        )}
-      </Form.List>
+      <CustomLinksEditor name="custom_links"/>
 
       <Divider orientation="left">Image</Divider>
 
@@ -475,6 +514,16 @@ const EntryForm: FC<EntryFormProps> = (props) => {
         <Input disabled/>
       </Form.Item>
 
+      {
+        pendingEntry !== null && (
+          <DuplicateEntries
+            duplicates={duplicates}
+            onOpen={navigation.openEntry}
+            onCreateAnyway={createPendingEntry}
+          />
+        )
+      }
+
       <Button
         type="primary"
         htmlType="submit"
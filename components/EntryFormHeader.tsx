@@ -1,51 +1,8 @@
 import { FC } from 'react'
-import { NextRouter, useRouter } from 'next/router'
-import produce from 'immer'
 import { PageHeader } from 'antd'
-import { convertQueryParamToArray } from '../utils/utils'
 import { Translate } from 'next-translate'
 import useTranslation from 'next-translate/useTranslation'
-import { createSlugPathFromQueryAndRemoveSlug } from '../utils/slug'
-
-
-const calculateLevelsToBack = (isEdit: boolean): number => {
-  if (!isEdit) {
-    return 2
-  }
-
-  return 1
-}
-
-const onBack = (router: NextRouter, isEdit: boolean) => () => {
-  const { query } = router
-
-  const paramsToRemove = ['pinLat', 'pinLng']
-
-  const newQueryParams = produce(query, draftState => {
-    const { slug } = draftState
-    const slugArray = convertQueryParamToArray(slug)
-
-    const backLevel = calculateLevelsToBack(isEdit)
-
-    slugArray.splice(slugArray.length - backLevel, backLevel)
-    draftState.slug = slugArray
-
-    paramsToRemove.forEach(p => {
-      delete draftState[p]
-    })
-  })
-
-  const [newPath, newQueryWithoutSlug] = createSlugPathFromQueryAndRemoveSlug(newQueryParams)
-
-  router.replace(
-    {
-      pathname: `/maps/${newPath}`,
-      query: newQueryWithoutSlug,
-    },
-    undefined,
-    { shallow: true },
-  )
-}
+import useNavigation from '../hooks/useNavigation'
 
 
 interface EntityFormHeaderProps {
@@ -64,7 +21,7 @@ const getHeaderTranslation = (t: Translate, isEdit: boolean): string => {
 const EntityFormHeader: FC<EntityFormHeaderProps> = (props) => {
   const { isEdit } = props
 
-  const router = useRouter()
+  const navigation = useNavigation()
   const { t } = useTranslation('map')
 
   return (
@@ -77,7 +34,7 @@ const EntityFormHeader: FC<EntityFormHeaderProps> = (props) => {
       }}
       title={getHeaderTranslation(t, isEdit)}
       ghost={false}
-      onBack={onBack(router, isEdit)}
+      onBack={navigation.back}
     />
   )
 }
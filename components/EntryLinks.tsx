@@ -1,10 +1,8 @@
 import React, { FC, Fragment, ReactElement } from 'react'
 import update from 'immer'
-import has from 'lodash/has'
 import { Divider, Space, Tag, Tooltip } from 'antd'
 import { CustomLink, CustomLinkList } from '../dtos/CustomLink'
-import { getDomainFromLink } from '../utils/domain'
-import domainToTagDetailMapper, { hasTagDetailIcon } from '../utils/tags/domainToTagDetailMapper'
+import { getTagDetailFromLink, hasTagDetailIcon } from '../utils/tags/domainToTagDetailMapper'
 import { titleCase } from 'title-case'
 import { FontAwesomeIcon } from '@fortawesome/react-fontawesome'
 import { IconName, IconPrefix } from '@fortawesome/fontawesome-svg-core'
@@ -26,11 +24,7 @@ type EnrichedLinkDetails = EnrichedLinkDetail[]
 const addTagDetailsToCustomLinks = (links: CustomLinkList): EnrichedLinkDetails => {
   const enrichedLinkDetails = links.map(link => {
     return update(link, draft => {
-      const domain = getDomainFromLink(draft.url)
-      let tagDetail: TagDetail = domainToTagDetailMapper.default
-      if (has(domainToTagDetailMapper, domain)) {
-        tagDetail = domainToTagDetailMapper[domain]
-      }
+      const tagDetail = getTagDetailFromLink(draft.url)
 
       Object.keys(tagDetail).forEach(k => {
         draft[k] = tagDetail[k]
@@ -144,6 +138,18 @@ const renderTagWithOptionalTooltip = (enrichedLink: EnrichedLinkDetail): ReactEl
   )
 }
 
+interface CustomLinkTagProps {
+  link: CustomLink
+}
+
+// the single link as it will be shown in the entry, e.g. for the preview in the form
+export const CustomLinkTag: FC<CustomLinkTagProps> = (props) => {
+  const { link } = props
+  const [enrichedLink] = addTagDetailsToCustomLinks([link])
+
+  return renderTagWithOptionalTooltip(enrichedLink)
+}
+
 const EntryLinks: FC<EntryLinksProps> = (props) => {
   const { links } = props
   if (!links) {
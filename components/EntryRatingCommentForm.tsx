@@ -1,13 +1,10 @@
 import React, { FC, Fragment, useEffect } from 'react'
 import { SearchEntryID } from '../dtos/SearchEntry'
-import { SlugVerb } from '../utils/types'
-import { NextRouter, useRouter } from 'next/router'
+import { RatingSlugEntity, SlugVerb } from '../utils/types'
 import { Button, Comment, Divider, Form, Input, PageHeader, Radio, Space, Typography } from 'antd'
 import useTranslation from 'next-translate/useTranslation'
 import { Rating, RatingID } from '../dtos/Rating'
 import { NewRating } from '../dtos/NewRating'
-import produce from 'immer'
-import { convertQueryParamToArray } from '../utils/utils'
 import useRequest from '../api/useRequest'
 import API_ENDPOINTS from '../api/endpoints'
 import { AxiosInstance } from '../api'
@@ -15,7 +12,11 @@ import isEmpty from 'lodash/isEmpty'
 import { isWebUri } from 'valid-url'
 import moment from 'moment'
 import { mapRatingValueToTranslationKey } from '../utils/translation'
-import { createSlugPathFromQueryAndRemoveSlug } from '../utils/slug'
+import { Navigation } from '../utils/navigation'
+import useNavigation from '../hooks/useNavigation'
+import useFormDraft from '../hooks/useFormDraft'
+import { getDraftKey } from '../utils/drafts'
+import DraftPrompt from './DraftPrompt'
 
 
 const { useForm } = Form
@@ -23,28 +24,6 @@ const { TextArea } = Input
 const { Link, Paragraph, Text } = Typography
 
 
-const redirectToEntryDetail = (router: NextRouter) => () => {
-  const { query } = router
-  const newQueryParams = produce(query, draftState => {
-    const { slug } = draftState
-    const slugArray = convertQueryParamToArray(slug)
-
-    slugArray.splice(slugArray.length - 4, 4)
-    draftState.slug = slugArray
-  })
-
-  const [newPath, newQueryWithoutSlug] = createSlugPathFromQueryAndRemoveSlug(newQueryParams)
-
-  router.replace(
-    {
-      pathname: `/maps/${newPath}`,
-      query: newQueryWithoutSlug,
-    },
-    undefined,
-    { shallow: true },
-  )
-}
-
 const onCreate = async (newRating: NewRating): Promise<null> => {
   const response = await AxiosInstance.PostRequest<null>(
     API_ENDPOINTS.postEntryRating(),
@@ -55,11 +34,12 @@ const onCreate = async (newRating: NewRating): Promise<null> => {
 }
 
 
-const onFinish = (router: NextRouter) => async (entryRatingValues: any) => {
+const onFinish = (navigation: Navigation, clearDraft: () => void) => async (entryRatingValues: any) => {
   try {
     await onCreate(entryRatingValues)
+    clearDraft()
 
-    redirectToEntryDetail(router)()
+    navigation.back()
   } catch (e) {
     // todo: show an error notification
     console.error(e)
@@ -81,7 +61,7 @@ const EntryRatingCommentForm: FC<EntryRatingCommentFormProps> = (props) => {
     verb,
   } = props
 
-  const router = useRouter()
+  const navigation = useNavigation()
 
   const { t } = useTranslation('map')
 
@@ -93,6 +73,8 @@ const EntryRatingCommentForm: FC<EntryRatingCommentFormProps> = (props) => {
 
   const [form] = useForm<NewRating>()
 
+  const formDraft = useFormDraft(form, getDraftKey(RatingSlugEntity.COMMENT, SlugVerb.CREATE, ratingId))
+
   useEffect(() => {
     form.setFieldsValue({
       entry: entryId,
@@ -138,7 +120,7 @@ const EntryRatingCommentForm: FC<EntryRatingCommentFormProps> = (props) => {
         }}
         title={t('commentForm.newComment')}
         ghost={false}
-        onBack={redirectToEntryDetail(router)}
+        onBack={navigation.back}
       />
 
       <Form
@@ -148,10 +130,17 @@ const EntryRatingCommentForm: FC<EntryRatingCommentFormProps> = (props) => {
           marginTop: 8,
           paddingBottom: 60,
         }}
-        onFinish={onFinish(router)}
+        onFinish={onFinish(navigation, formDraft.clear)}
+        onValuesChange={formDraft.save}
         form={form}
       >
 
+        <DraftPrompt
+          draft={formDraft.draft}
+          onRestore={formDraft.restore}
+          onDiscard={formDraft.discard}
+        />
+
         <Paragraph>
           <Text>
             {t('ratingForm.introText')}
@@ -1,15 +1,16 @@
 import React, { FC, useEffect } from 'react'
 import { SearchEntryID } from '../dtos/SearchEntry'
-import { SlugVerb } from '../utils/types'
-import { NextRouter, useRouter } from 'next/router'
+import { EntrySlugEntity, SlugVerb } from '../utils/types'
 import { Button, Form, Input, PageHeader, Radio, Space, Typography } from 'antd'
 import useTranslation from 'next-translate/useTranslation'
 import { NewRating } from '../dtos/NewRating'
-import produce from 'immer'
-import { convertQueryParamToArray } from '../utils/utils'
 import { AxiosInstance } from '../api'
 import API_ENDPOINTS from '../api/endpoints'
-import { createSlugPathFromQueryAndRemoveSlug } from '../utils/slug'
+import { Navigation } from '../utils/navigation'
+import useNavigation from '../hooks/useNavigation'
+import useFormDraft from '../hooks/useFormDraft'
+import { getDraftKey } from '../utils/drafts'
+import DraftPrompt from './DraftPrompt'
 
 
 const { useForm } = Form
@@ -22,29 +23,6 @@ interface EntryRatingFormProps {
   verb: SlugVerb.EDIT | SlugVerb.CREATE
 }
 
-const redirectToEntryDetail = (router: NextRouter) => () => {
-  const { query } = router
-  const newQueryParams = produce(query, draftState => {
-    const { slug } = draftState
-    const slugArray = convertQueryParamToArray(slug)
-
-    slugArray.splice(slugArray.length - 2, 2)
-    draftState.slug = slugArray
-  })
-
-  const [newPath, newQueryWithoutSlug] = createSlugPathFromQueryAndRemoveSlug(newQueryParams)
-
-  router.replace(
-    {
-      pathname: `/maps/${newPath}`,
-      query: newQueryWithoutSlug,
-    },
-    undefined,
-    { shallow: true },
-  )
-}
-
-
 const onCreate = async (newRating: NewRating): Promise<null> => {
   const response = await AxiosInstance.PostRequest<null>(
     API_ENDPOINTS.postEntryRating(),
@@ -55,11 +33,12 @@ const onCreate = async (newRating: NewRating): Promise<null> => {
 }
 
 
-const onFinish = (router: NextRouter) => async (entryRatingValues: any) => {
+const onFinish = (navigation: Navigation, clearDraft: () => void) => async (entryRatingValues: any) => {
   try {
     await onCreate(entryRatingValues)
+    clearDraft()
 
-    redirectToEntryDetail(router)()
+    navigation.back()
   } catch (e) {
     // todo: show an error notification
     console.error(e)
@@ -70,12 +49,14 @@ const onFinish = (router: NextRouter) => async (entryRatingValues: any) => {
 const EntryRatingForm: FC<EntryRatingFormProps> = (props) => {
   const { entryId } = props
 
-  const router = useRouter()
+  const navigation = useNavigation()
 
   const { t } = useTranslation('map')
 
   const [form] = useForm<NewRating>()
 
+  const formDraft = useFormDraft(form, getDraftKey(EntrySlugEntity.RATING, SlugVerb.CREATE, entryId))
+
   useEffect(() => {
     form.setFieldsValue({
       entry: entryId,
@@ -98,13 +79,14 @@ const EntryRatingForm: FC<EntryRatingFormProps> = (props) => {
         }}
         title={t('ratingForm.newRating')}
         ghost={false}
-        onBack={redirectToEntryDetail(router)}
+        onBack={navigation.back}
       />
 
       <Form
         layout="vertical"
         size="middle"
-        onFinish={onFinish(router)}
+        onFinish={onFinish(navigation, formDraft.clear)}
+        onValuesChange={formDraft.save}
         form={form}
         style={{
           paddingLeft: 8,
@@ -112,6 +94,12 @@ const EntryRatingForm: FC<EntryRatingFormProps> = (props) => {
         }}
       >
 
+        <DraftPrompt
+          draft={formDraft.draft}
+          onRestore={formDraft.restore}
+          onDiscard={formDraft.discard}
+        />
+
         <Paragraph>
           <Text>
             {t('ratingForm.introText')}
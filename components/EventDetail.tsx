@@ -1,7 +1,9 @@
 import React, { FC } from 'react'
 import { useRouter } from 'next/router'
 import moment from 'moment'
-import { Divider, Spin, Tag, Typography } from 'antd'
+import { Button, Divider, Spin, Tag, Typography } from 'antd'
+import { CalendarOutlined } from '@ant-design/icons'
+import useTranslation from 'next-translate/useTranslation'
 import Event, { EventID } from '../dtos/Event'
 import EntityImage from './EntityImage'
 import EntityFooter from './EntityFooter'
@@ -27,6 +29,7 @@ const EventDetail: FC<EventDetailProps> = (props) => {
   const router = useRouter()
   const { pathname } = router
 
+  const { t } = useTranslation('map')
 
   const { data: event, error: eventError } = useRequest<Event>({
     url: `${API_ENDPOINTS.getEvent()}/${eventId}`,
@@ -78,6 +81,14 @@ const EventDetail: FC<EventDetailProps> = (props) => {
 
       <Paragraph>{event.description}</Paragraph>
 
+      <Button
+        block
+        icon={<CalendarOutlined/>}
+        href={API_ENDPOINTS.getEventICal(event.id)}
+      >
+        {t('entryDetails.addToCalendar')}
+      </Button>
+
       <Divider>Contact</Divider>
 
       <EntityContact
@@ -1,23 +1,31 @@
 import React, { FC, Fragment, useEffect } from 'react'
-import { useDispatch } from 'react-redux'
+import { useDispatch, useSelector } from 'react-redux'
 import { Button, Checkbox, DatePicker, Divider, Form, FormInstance, Input, Spin, Typography } from 'antd'
 import { FontAwesomeIcon } from '@fortawesome/react-fontawesome'
 import { isValidPhoneNumber } from 'libphonenumber-js'
 import EventDTO, { EventID } from '../dtos/Event'
 import { AxiosInstance } from '../api'
 import API_ENDPOINTS from '../api/endpoints'
-import { NextRouter, useRouter } from 'next/router'
 import useRequest from '../api/useRequest'
-import { redirectToEntityDetail } from '../utils/slug'
-import { SlugVerb } from '../utils/types'
-import Category from '../dtos/Categories'
+import { Navigation } from '../utils/navigation'
+import useNavigation from '../hooks/useNavigation'
+import useEnforcedFilters from '../hooks/useEnforcedFilters'
+import { addEnforcedTags, EnforcedFilters } from '../utils/filters'
+import { RootSlugEntity, SlugVerb } from '../utils/types'
 import { onReceiveAdapter, onSendAdapter } from '../adaptors/EventForm'
 import { AppDispatch } from '../store'
-import { eventsActions } from '../slices'
+import { eventsActions, RootState } from '../slices'
 import Point from '../dtos/Point'
+import { pinnedLocationSelector } from '../selectors/map'
+import { MapCenter } from '../slices/mapSlice'
 import { ExtendedGeocodeAddress, getCityFromAddress, reverseGeocode } from '../utils/geolocation'
 import { validate as isValidEmail } from 'isemail'
+import { getDraftKey } from '../utils/drafts'
+import useFormDraft from '../hooks/useFormDraft'
+import { EVENT_FORM } from '../consts/eventForm'
+import { DRAFTS } from '../consts/drafts'
 import TagsSelect from './TagsSelect'
+import DraftPrompt from './DraftPrompt'
 
 
 const { useForm } = Form
@@ -56,17 +64,7 @@ const addEventToStateOnCreate = (dispatch: AppDispatch, event: EventDTO, isEdit:
   addEventToState(dispatch, event)
 }
 
-const redirectToEvent = (router: NextRouter, eventId: EventID) => {
-  redirectToEntityDetail(
-    router,
-    eventId,
-    Category.EVENT,
-    2,
-    ['pinLat', 'pinLng'],
-  )
-}
-
-const onCreate = async (event: EventDTO): Promise<EventID> => {
+export const createEvent = async (event: EventDTO): Promise<EventID> => {
   const response = await AxiosInstance.PostRequest<EventID>(
     API_ENDPOINTS.postEvent(),
     event,
@@ -104,7 +102,7 @@ const createOrEditEvent = async (
   if (isEdit) {
     await onEdit(event)
   } else {
-    eventId = await onCreate(event)
+    eventId = await createEvent(event)
   }
 
   return eventId
@@ -115,39 +113,69 @@ const createOrEditEvent = async (
 // once manually and the other with the automatic fetching of api!
 // double check
 const onFinish = (
-  router: NextRouter,
+  navigation: Navigation,
   dispatch: AppDispatch,
   isEdit: boolean,
+  enforcedFilters: EnforcedFilters | null,
+  clearDraft: () => void,
+  onSaved?: (eventId: EventID) => void,
 ) => async (eventFormValues: any) => {
   // todo: if failed shoe a notification
 
   const adaptedFormValues = onSendAdapter(eventFormValues)
+  // the new events should be found on the map they are created on
+  if (!isEdit && enforcedFilters !== null) {
+    adaptedFormValues.tags = addEnforcedTags(adaptedFormValues.tags, enforcedFilters)
+  }
   const eventId = await createOrEditEvent(adaptedFormValues, isEdit)
+  clearDraft()
 
-  addEventToStateOnCreate(dispatch, adaptedFormValues, isEdit)
-  redirectToEvent(router, eventId)
+  addEventToStateOnCreate(dispatch, { ...adaptedFormValues, id: eventId }, isEdit)
+
+  // e.g. the imported events stay in their review list
+  if (onSaved) {
+    onSaved(eventId)
+
+    return
+  }
+
+  navigation.openEvent(eventId)
 }
 
 
 interface EventFormProps {
   verb: SlugVerb.CREATE | SlugVerb.EDIT
-  eventId: EventID
+  eventId?: EventID
+  // the values to start a new event with, e.g. from an imported calendar
+  initialValues?: object
+  onSaved?: (eventId: EventID) => void
 }
 
 
 const EventForm: FC<EventFormProps> = (props) => {
 
-  const { verb, eventId } = props
+  const { verb, eventId, initialValues, onSaved } = props
 
   const dispatch = useDispatch()
 
-  const router = useRouter()
-  const { query } = router
+  const navigation = useNavigation()
+  const enforcedFilters = useEnforcedFilters()
   const isEdit = verb === SlugVerb.EDIT
 
   const [form] = useForm<object>()
 
-  const newPoint = new Point().fromQuery(query)
+  // the imported events are kept by their import, several of them can be reviewed at once.
+  // the new events are placed by the pin, the edited ones keep the id they were loaded with
+  const formDraft = useFormDraft(
+    form,
+    initialValues ? null : getDraftKey(RootSlugEntity.EVENT, verb, isEdit ? eventId : null),
+    isEdit ? DRAFTS.versionFields : DRAFTS.locationFields,
+  )
+
+  const pinnedLocation: MapCenter | null = useSelector(
+    (state: RootState) => pinnedLocationSelector(state),
+  )
+  const newPoint = pinnedLocation !== null ? new Point(pinnedLocation.lat, pinnedLocation.lng) : new Point()
 
   const effectDeps = [...newPoint.toArray()]
 
@@ -169,7 +197,7 @@ const EventForm: FC<EventFormProps> = (props) => {
   }
 
   // still loading
-  let formInitialValues = {}
+  let formInitialValues = initialValues || {}
   if (isEdit) {
     if (!event) {
       return (
@@ -191,20 +219,30 @@ const EventForm: FC<EventFormProps> = (props) => {
       }}
       initialValues={formInitialValues}
       onFinish={onFinish(
-        router,
+        navigation,
         dispatch,
         isEdit,
+        enforcedFilters,
+        formDraft.clear,
+        onSaved,
       )}
+      onValuesChange={formDraft.save}
       form={form}
     >
 
+      <DraftPrompt
+        draft={formDraft.draft}
+        onRestore={formDraft.restore}
+        onDiscard={formDraft.discard}
+      />
+
       <Form.Item name="id" hidden>
         <Input disabled/>
       </Form.Item>
 
       <Form.Item
         name="title"
-        rules={[{ required: true, min: 3 }]}
+        rules={[{ required: true, min: EVENT_FORM.titleMinLength }]}
       >
         <Input placeholder="Title"/>
       </Form.Item>
@@ -221,7 +259,11 @@ const EventForm: FC<EventFormProps> = (props) => {
 
       <Form.Item
         name="description"
-        rules={[{ required: true }, { min: 10 }, { max: 250 }]}
+        rules={[
+          { required: true },
+          { min: EVENT_FORM.descriptionMinLength },
+          { max: EVENT_FORM.descriptionMaxLength },
+        ]}
       >
         <TextArea placeholder="Description"/>
       </Form.Item>
@@ -259,6 +301,7 @@ const EventForm: FC<EventFormProps> = (props) => {
 
       <Form.Item
         name="lat"
+        rules={[{ required: true, message: 'place the pin on the map' }]}
         style={{
           display: 'inline-block',
           width: '50%',
@@ -269,6 +312,7 @@ const EventForm: FC<EventFormProps> = (props) => {
 
       <Form.Item
         name="lng"
+        rules={[{ required: true, message: 'place the pin on the map' }]}
         style={{
           display: 'inline-block',
           width: '50%',
@@ -360,7 +404,7 @@ const EventForm: FC<EventFormProps> = (props) => {
                   Creative-Commons License CC0
                 </Link>
               </Fragment>,
-              value: 'CC0-1.0',
+              value: EVENT_FORM.license,
             },
           ]}
         />
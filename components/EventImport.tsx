@@ -0,0 +1,295 @@
+import React, { Dispatch, FC, Fragment, SetStateAction, useState } from 'react'
+import { useDispatch } from 'react-redux'
+import { Alert, Button, Checkbox, Divider, Input, List, Tag, Typography, Upload } from 'antd'
+import { InboxOutlined } from '@ant-design/icons'
+import useTranslation from 'next-translate/useTranslation'
+import moment from 'moment'
+import produce from 'immer'
+import { EventID } from '../dtos/Event'
+import { SlugVerb } from '../utils/types'
+import { ICalEvent, parseICalendar } from '../utils/ical'
+import { formatDuration } from '../utils/time'
+import { convertICalEventToFormValues, onSendAdapter } from '../adaptors/EventForm'
+import { AppDispatch } from '../store'
+import { eventsActions } from '../slices'
+import useEnforcedFilters from '../hooks/useEnforcedFilters'
+import { addEnforcedTags, EnforcedFilters } from '../utils/filters'
+import { EventFormProblem, EventFormValues, getEventFormProblems } from '../utils/eventForm'
+import { EVENT_FORM } from '../consts/eventForm'
+import EventForm, { createEvent } from './EventForm'
+
+
+const { TextArea } = Input
+const { Dragger } = Upload
+const { Link, Text } = Typography
+
+
+enum ImportedEventStatus {
+  PENDING = 'pending',
+  SUBMITTING = 'submitting',
+  SUBMITTED = 'submitted',
+  FAILED = 'failed',
+}
+
+const statusColors: Record<ImportedEventStatus, string> = {
+  [ImportedEventStatus.PENDING]: 'default',
+  [ImportedEventStatus.SUBMITTING]: 'processing',
+  [ImportedEventStatus.SUBMITTED]: 'success',
+  [ImportedEventStatus.FAILED]: 'error',
+}
+
+interface ImportedEvent {
+  key: string
+  icalEvent: ICalEvent
+  formValues: object
+  // the events with problems can only be sent through the form
+  problems: EventFormProblem[]
+  status: ImportedEventStatus
+}
+
+type SetImportedEvents = Dispatch<SetStateAction<ImportedEvent[] | null>>
+
+
+const convertCalendarToImportedEvents = (calendar: string): ImportedEvent[] => (
+  parseICalendar(calendar).map((icalEvent: ICalEvent, i: number) => {
+    const formValues = convertICalEventToFormValues(icalEvent)
+
+    return {
+      // the uid is optional in the files of some calendar apps
+      key: `${i}-${icalEvent.id}`,
+      icalEvent,
+      formValues,
+      problems: getEventFormProblems(formValues as EventFormValues),
+      status: ImportedEventStatus.PENDING,
+    }
+  })
+)
+
+const setImportedEventStatus = (
+  setImportedEvents: SetImportedEvents,
+  key: string,
+  status: ImportedEventStatus,
+) => {
+  setImportedEvents(importedEvents => produce(importedEvents, draftState => {
+    const importedEvent = draftState.find(e => e.key === key)
+    importedEvent.status = status
+  }))
+}
+
+const submitImportedEvent = async (
+  dispatch: AppDispatch,
+  setImportedEvents: SetImportedEvents,
+  enforcedFilters: EnforcedFilters | null,
+  importedEvent: ImportedEvent,
+) => {
+  setImportedEventStatus(setImportedEvents, importedEvent.key, ImportedEventStatus.SUBMITTING)
+
+  try {
+    // the license is accepted once for all the events of the calendar
+    const event = onSendAdapter({ ...importedEvent.formValues, license: [EVENT_FORM.license] })
+    if (enforcedFilters !== null) {
+      event.tags = addEnforcedTags(event.tags, enforcedFilters)
+    }
+    const eventId = await createEvent(event)
+    dispatch(eventsActions.prependEvent({ ...event, id: eventId }))
+
+    setImportedEventStatus(setImportedEvents, importedEvent.key, ImportedEventStatus.SUBMITTED)
+  } catch (e) {
+    setImportedEventStatus(setImportedEvents, importedEvent.key, ImportedEventStatus.FAILED)
+  }
+}
+
+const canBeSubmitted = (importedEvent: ImportedEvent): boolean => (
+  importedEvent.problems.length === 0 &&
+  importedEvent.status !== ImportedEventStatus.SUBMITTED &&
+  importedEvent.status !== ImportedEventStatus.SUBMITTING
+)
+
+// one after the other, so a failing event does not stop the others
+const submitAllImportedEvents = async (
+  dispatch: AppDispatch,
+  setImportedEvents: SetImportedEvents,
+  enforcedFilters: EnforcedFilters | null,
+  importedEvents: ImportedEvent[],
+) => {
+  const eventsToSubmit = importedEvents.filter(canBeSubmitted)
+  for (const importedEvent of eventsToSubmit) {
+    await submitImportedEvent(dispatch, setImportedEvents, enforcedFilters, importedEvent)
+  }
+}
+
+const onEditedEventSaved = (
+  setImportedEvents: SetImportedEvents,
+  setEditingKey: Dispatch<string | null>,
+  key: string,
+) => (_eventId: EventID) => {
+  setImportedEventStatus(setImportedEvents, key, ImportedEventStatus.SUBMITTED)
+  setEditingKey(null)
+}
+
+
+const EventImport: FC = () => {
+  const dispatch = useDispatch()
+  const enforcedFilters = useEnforcedFilters()
+
+  const { t } = useTranslation('map')
+
+  const [pastedCalendar, setPastedCalendar] = useState<string>('')
+  const [importedEvents, setImportedEvents] = useState<ImportedEvent[] | null>(null)
+  const [editingKey, setEditingKey] = useState<string | null>(null)
+  const [isLicenseAccepted, setIsLicenseAccepted] = useState<boolean>(false)
+
+  const readCalendar = (calendar: string) => {
+    setEditingKey(null)
+    setImportedEvents(convertCalendarToImportedEvents(calendar))
+  }
+
+  const hasEventsToSubmit = importedEvents !== null && importedEvents.some(canBeSubmitted)
+
+  return (
+    <div style={{ marginTop: 8 }}>
+      <Dragger
+        accept=".ics,text/calendar"
+        showUploadList={false}
+        beforeUpload={(file) => {
+          file.text().then(readCalendar)
+
+          // the file is read in the browser and not uploaded anywhere
+          return false
+        }}
+      >
+        <p className="ant-upload-drag-icon">
+          <InboxOutlined/>
+        </p>
+        <p className="ant-upload-text">{t('eventImport.upload')}</p>
+      </Dragger>
+
+      <TextArea
+        rows={4}
+        value={pastedCalendar}
+        placeholder={t('eventImport.paste')}
+        onChange={e => setPastedCalendar(e.target.value)}
+        style={{ marginTop: 8 }}
+      />
+      <Button
+        block
+        disabled={pastedCalendar.length === 0}
+        onClick={() => readCalendar(pastedCalendar)}
+        style={{ marginTop: 8 }}
+      >
+        {t('eventImport.read')}
+      </Button>
+
+      {
+        importedEvents !== null && importedEvents.length === 0 && (
+          <Alert
+            type="warning"
+            message={t('eventImport.noEvents')}
+            style={{ marginTop: 8 }}
+          />
+        )
+      }
+
+      {
+        importedEvents !== null && importedEvents.length !== 0 && (
+          <Fragment>
+            <Divider>{t('eventImport.review')}</Divider>
+
+            <Checkbox
+              checked={isLicenseAccepted}
+              onChange={e => setIsLicenseAccepted(e.target.checked)}
+              style={{ marginBottom: 8 }}
+            >
+              {`${t('eventImport.license')} `}
+              <Link
+                href={process.env.NEXT_PUBLIC_CC_LINK}
+                target="_blank"
+              >
+                {t('eventImport.licenseLink')}
+              </Link>
+            </Checkbox>
+
+            <Button
+              type="primary"
+              block
+              disabled={!isLicenseAccepted || !hasEventsToSubmit}
+              onClick={() => submitAllImportedEvents(dispatch, setImportedEvents, enforcedFilters, importedEvents)}
+              style={{ marginBottom: 8 }}
+            >
+              {t('eventImport.submitAll')}
+            </Button>
+
+            <List
+              dataSource={importedEvents}
+              renderItem={(importedEvent: ImportedEvent) => {
+                const { key, icalEvent, formValues, problems, status } = importedEvent
+                const isSubmitted = status === ImportedEventStatus.SUBMITTED
+                const isEditing = key === editingKey
+
+                return (
+                  <List.Item
+                    key={key}
+                    style={{ flexWrap: 'wrap' }}
+                    actions={[
+                      <Button
+                        key="edit"
+                        type="link"
+                        size="small"
+                        disabled={isSubmitted}
+                        onClick={() => setEditingKey(isEditing ? null : key)}
+                      >
+                        {t('eventImport.edit')}
+                      </Button>,
+                      <Button
+                        key="submit"
+                        type="link"
+                        size="small"
+                        disabled={!isLicenseAccepted || !canBeSubmitted(importedEvent)}
+                        onClick={() => submitImportedEvent(dispatch, setImportedEvents, enforcedFilters, importedEvent)}
+                      >
+                        {t('eventImport.submit')}
+                      </Button>,
+                    ]}
+                  >
+                    <List.Item.Meta
+                      title={icalEvent.title}
+                      description={
+                        <Fragment>
+                          <Text type="secondary">
+                            {formatDuration(moment.unix(icalEvent.start), moment.unix(icalEvent.end))}
+                          </Text>
+                          <br/>
+                          <Tag color={statusColors[status]}>{t(`eventImport.status.${status}`)}</Tag>
+                          {
+                            !isSubmitted && problems.map(problem => (
+                              <Tag key={problem} color="warning">{t(`eventImport.problems.${problem}`)}</Tag>
+                            ))
+                          }
+                        </Fragment>
+                      }
+                    />
+
+                    {
+                      isEditing && (
+                        <div style={{ width: '100%' }}>
+                          <EventForm
+                            verb={SlugVerb.CREATE}
+                            initialValues={formValues}
+                            onSaved={onEditedEventSaved(setImportedEvents, setEditingKey, key)}
+                          />
+                        </div>
+                      )
+                    }
+                  </List.Item>
+                )
+              }}
+            />
+          </Fragment>
+        )
+      }
+    </div>
+  )
+}
+
+
+export default EventImport
@@ -0,0 +1,85 @@
+import { FC } from 'react'
+import { useRouter } from 'next/router'
+import { useSelector } from 'react-redux'
+import useTranslation from 'next-translate/useTranslation'
+import { Button, Dropdown, Menu } from 'antd'
+import { FontAwesomeIcon } from '@fortawesome/react-fontawesome'
+import API_ENDPOINTS from '../api/endpoints'
+import { RootState } from '../slices'
+import { mapBBoxSelector } from '../selectors/map'
+import { BoundingBox } from '../dtos/BoundingBox'
+import useEnforcedFilters from '../hooks/useEnforcedFilters'
+import { getSearchRequests } from '../utils/search'
+import { createFeedUrl, FeedFormat } from '../utils/feed'
+import { getProjectNameFromQuery } from '../utils/slug'
+
+
+// the feeds follow the area, the filters and the search of the current view
+const FeedSubscription: FC = () => {
+  const router = useRouter()
+  const { query } = router
+
+  const { t } = useTranslation('map')
+
+  const bbox: BoundingBox | null = useSelector(
+    (state: RootState) => mapBBoxSelector(state),
+  )
+  const enforcedFilters = useEnforcedFilters()
+
+  // the view is not known before the map reports its bounds
+  if (bbox === null || enforcedFilters === null) {
+    return null
+  }
+
+  const project = getProjectNameFromQuery(query)
+  const { entries, events } = getSearchRequests(query, bbox, enforcedFilters)
+
+  const feeds = [
+    { key: 'entries', request: entries, endpoint: API_ENDPOINTS.getEntriesFeed() },
+    { key: 'events', request: events, endpoint: API_ENDPOINTS.getEventsFeed() },
+  ].filter(feed => feed.request !== null)
+
+  if (feeds.length === 0) {
+    return null
+  }
+
+  return (
+    <Dropdown
+      placement="bottomRight"
+      overlay={
+        <Menu>
+          {
+            feeds.map(feed => (
+              <Menu.ItemGroup key={feed.key} title={t(`feeds.${feed.key}`)}>
+                {
+                  Object.values(FeedFormat).map(format => (
+                    <Menu.Item key={`${feed.key}-${format}`}>
+                      <a
+                        href={createFeedUrl(feed.endpoint, project, { ...feed.request }, format, router.locale)}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                      >
+                        {t(`feeds.${format}`)}
+                      </a>
+                    </Menu.Item>
+                  ))
+                }
+              </Menu.ItemGroup>
+            ))
+          }
+        </Menu>
+      }
+    >
+      <Button
+        type="link"
+        size="small"
+        icon={<FontAwesomeIcon icon="rss"/>}
+      >
+        &nbsp;{t('feeds.subscribe')}
+      </Button>
+    </Dropdown>
+  )
+}
+
+
+export default FeedSubscription
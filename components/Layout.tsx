@@ -1,52 +1,65 @@
 import { FC } from 'react'
-import PropTypes from 'prop-types'
-import has from 'lodash/has'
-import isString from 'lodash/isString'
-import mainStyle from '../styles/main'
+import { ProjectTheme } from '../dtos/ProjectTheme'
+import { DEFAULT_THEME } from '../consts/theme'
+import { ProjectThemeContext } from '../hooks/useProjectTheme'
 
 
-const projectToStyleMapper = {
-  'main': mainStyle,
-}
-
 interface LayoutProps {
-  project?: string | object
+  // the pages of a project pass its theme in their props
+  theme?: ProjectTheme
 }
 
 const Layout: FC<LayoutProps> = (props) => {
-  let project = 'main'
-  if (
-    props.project &&
-    isString(props.project) &&
-    has(projectToStyleMapper, props.project)
-  ) {
-    project = props.project
-  }
-
-  const globalStyle = projectToStyleMapper[project]
+  const theme = props.theme || DEFAULT_THEME
+  const { primaryColor, primaryBorderColor, primaryHoverColor, primaryHoverBorderColor, accentColors } = theme
 
   return (
     <div className="page-layout">
-      {props.children}
+      <ProjectThemeContext.Provider value={theme}>
+        {props.children}
+      </ProjectThemeContext.Provider>
 
-      <style jsx global>
-        {globalStyle}
-      </style>
-    </div>
-  )
-}
+      <style jsx global>{`
+        .ant-btn-primary {
+          background-color: ${primaryColor};
+          border-color: ${primaryBorderColor};
+        }
 
+        .ant-btn-primary:hover {
+          background-color: ${primaryHoverColor};
+          border-color: ${primaryHoverBorderColor};
+        }
 
-Layout.propTypes = {
-  project: PropTypes.oneOfType([
-    PropTypes.string,
-    PropTypes.object,
-  ]),
-}
+        .initiative-tag {
+          background-color: ${accentColors.initiative};
+          color: white;
+        }
 
-Layout.defaultProps = {
-  project: 'main',
+        .company-tag {
+          background-color: ${accentColors.company};
+          color: white;
+        }
+
+        .event-tag {
+          background-color: ${accentColors.event};
+          color: white;
+        }
+
+        .initiative-result-card {
+          border-left: solid 5px ${accentColors.initiative};
+        }
+
+        .company-result-card {
+          border-left: solid 5px ${accentColors.company};
+        }
+
+        .event-result-card {
+          border-left: solid 5px ${accentColors.event};
+        }
+      `}</style>
+    </div>
+  )
 }
 
 
-export default Layout
\ No newline at end of file
+export default Layout
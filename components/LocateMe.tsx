@@ -1,9 +1,9 @@
 import { FC } from 'react'
-import { useRouter } from 'next/router'
+import { useDispatch } from 'react-redux'
 import { Button } from 'antd'
-import { updateRoutingQuery } from '../utils/utils'
 import { AimOutlined } from '@ant-design/icons'
-import { createSlugPathFromQueryAndRemoveSlug } from '../utils/slug'
+import { AppDispatch } from '../store'
+import { setCenter } from '../slices/mapSlice'
 
 
 const getCurrentPosition = async (): Promise<GeolocationPosition> => {
@@ -22,28 +22,14 @@ const getCurrentPosition = async (): Promise<GeolocationPosition> => {
 }
 
 
-const setQueryParamsToCurrentLocation = (router) => async () => {
-  const { query } = router
-
+const setCenterToCurrentLocation = (dispatch: AppDispatch) => async () => {
   try {
     const currentPosition = await getCurrentPosition()
-    const paramsToUpdate = {
-      lat: currentPosition.coords.latitude.toFixed(4),
-      lng: currentPosition.coords.longitude.toFixed(4),
-    }
-
-    const newQueryParams = updateRoutingQuery(query, paramsToUpdate)
-    const [newPath, newQueryWithoutSlug] = createSlugPathFromQueryAndRemoveSlug(newQueryParams)
-
 
-    router.replace(
-      {
-        pathname: `/maps/${newPath}`,
-        query: newQueryWithoutSlug,
-      },
-      undefined,
-      { shallow: true },
-    )
+    dispatch(setCenter({
+      lat: currentPosition.coords.latitude,
+      lng: currentPosition.coords.longitude,
+    }))
   } catch (e) {
     console.error('failed to get current location: ', e)
   }
@@ -51,13 +37,13 @@ const setQueryParamsToCurrentLocation = (router) => async () => {
 
 
 const LocateMe: FC = () => {
-  const router = useRouter()
+  const dispatch = useDispatch()
 
   return (
     <Button
       type="primary"
       icon={<AimOutlined/>}
-      onClick={setQueryParamsToCurrentLocation(router)}
+      onClick={setCenterToCurrentLocation(dispatch)}
     />
   )
 }
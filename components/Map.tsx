@@ -1,97 +1,23 @@
 import { FC } from 'react'
-import { NextRouter, useRouter } from 'next/router'
+import { useRouter } from 'next/router'
 import { useSelector } from 'react-redux'
-import produce from 'immer'
-import toString from 'lodash/toString'
-import { Icon, LatLng, latLng, Point } from 'leaflet'
 import { MapContainer, Marker, TileLayer, ZoomControl } from 'react-leaflet'
+import Category from '../dtos/Categories'
 import { RootState } from '../slices'
-import searchResultSelector from '../selectors/searchResults'
-import Category, { Categories, CategoryToNameMapper } from '../dtos/Categories'
-import { SearchResult, SearchResults } from '../dtos/SearchResult'
-import { convertQueryParamToArray, convertQueryParamToFloat } from '../utils/utils'
-import { mapTypeIdToPluralEntityName, SlugVerb } from '../utils/types'
-import { createSlugPathFromQueryAndRemoveSlug, getRootSlugActionFromQuery } from '../utils/slug'
+import { pinnedLocationSelector } from '../selectors/map'
+import { MapCenter } from '../slices/mapSlice'
 import MapEventsListener from './MapEventsListener'
-import MapLocationInitializer from './MapLocationInitializer'
+import MapViewportListener from './MapViewportListener'
 import SearchEventsListener from './SearchEventsListener'
+import OpeningHoursListener from './OpeningHoursListener'
 import 'leaflet/dist/leaflet.css'
 import AddEntryButton from './AddEntryButton'
 import BurgerMenu from './BurgerMenu'
-import MapQueryParamsListener from './MapQueryParamsListener'
 import LocateMe from './LocateMe'
-
-
-const icons = {
-  [Category.EVENT]: null,
-  [Category.COMPANY]: null,
-  [Category.INITIATIVE]: null,
-  [Category.UNKNOWN]: null,
-}
-
-// memoize icons to prevent object creations
-const getIcon = (types: Categories) => {
-  // the reason we define types as array is because backend sends us an array of categories
-  // and we won't ever know if in the feature we'll need to use the whole array or not
-  const typeId = types[0]
-  const icon = icons[typeId]
-
-  if (!icon) {
-    // const type = resultType.find(t => t.id === typeId) || Category.UNKNOWN
-    const typeName = CategoryToNameMapper[typeId]
-    icons[typeId] = new Icon({
-      iconUrl: `/projects/main/pins/balloon_${typeName}.svg`,
-      iconSize: new Point(50, 50),
-    })
-
-    return icons[typeId]
-  }
-
-  return icon
-}
-
-const onClickOnPin = (router: NextRouter, searchResult: SearchResult) => () => {
-  const { query } = router
-  const rootSlugAction = getRootSlugActionFromQuery(query)
-  const { subSlugAction: entitySlugAction } = rootSlugAction
-
-  // if we are in the middle of creating/editing an entity, clicking on pins should do nothing
-  if (
-    entitySlugAction !== null &&
-    entitySlugAction.verb !== SlugVerb.SHOW
-  ) {
-    return null
-  }
-
-  const category = searchResult.categories[0]
-  const pluralEntityName = mapTypeIdToPluralEntityName[category]
-
-  const newQueryParams = produce(query, draftState => {
-    const { slug } = draftState
-    const slugArray = convertQueryParamToArray(slug)
-
-    if (entitySlugAction !== null) {
-      slugArray.splice(slugArray.length - 2, 2)
-    }
-
-    slugArray.push(pluralEntityName, searchResult.id)
-    draftState.slug = slugArray
-
-    // open the sidebar
-    draftState.isSidebarOpen = toString(true)
-  })
-
-  const [newPath, newQueryWithoutSlug] = createSlugPathFromQueryAndRemoveSlug(newQueryParams)
-
-  router.replace(
-    {
-      pathname: `/maps/${newPath}`,
-      query: newQueryWithoutSlug,
-    },
-    undefined,
-    { shallow: true },
-  )
-}
+import MapMarkers, { getIcon } from './MapMarkers'
+import { MAP_CLUSTER } from '../consts/map'
+import useProjectTheme from '../hooks/useProjectTheme'
+import { isEmbedPathname } from '../utils/router'
 
 
 export interface MapLocationProps {
@@ -101,15 +27,14 @@ export interface MapLocationProps {
 }
 
 const Map: FC = () => {
-  const router = useRouter()
-  const { query } = router
+  const pinnedLocation: MapCenter | null = useSelector(
+    (state: RootState) => pinnedLocationSelector(state),
+  )
 
-  const markedPinLatLng: LatLng = latLng(convertQueryParamToFloat(query.pinLat), convertQueryParamToFloat(query.pinLng))
-  const showMarkedPin = !!markedPinLatLng.lat && !!markedPinLatLng.lng
+  const theme = useProjectTheme()
 
-  const searchResults: SearchResults = useSelector(
-    (state: RootState) => searchResultSelector(state),
-  )
+  const router = useRouter()
+  const isEmbedded = isEmbedPathname(router.pathname)
 
   return (
     <MapContainer
@@ -120,23 +45,27 @@ const Map: FC = () => {
       zoomControl={false}
     >
 
-      <MapLocationInitializer/>
+      <MapViewportListener/>
 
       <MapEventsListener/>
 
-      <MapQueryParamsListener/>
-
       <SearchEventsListener/>
 
+      <OpeningHoursListener/>
+
       <div id="map-bottom-right">
         <AddEntryButton/>
 
         <LocateMe/>
       </div>
 
-      <div id="map-top-right">
-        <BurgerMenu/>
-      </div>
+      {
+        !isEmbedded && (
+          <div id="map-top-right">
+            <BurgerMenu/>
+          </div>
+        )
+      }
 
 
       <ZoomControl position="bottomright"/>
@@ -144,33 +73,21 @@ const Map: FC = () => {
       <TileLayer
         attribution='&copy; <a href="http://osm.org/copyright">OpenStreetMap</a> contributors'
         url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png"
+        maxZoom={MAP_CLUSTER.maxZoom}
       />
 
       {
-        showMarkedPin && (
+        pinnedLocation !== null && (
           <Marker
-            position={markedPinLatLng}
-            icon={getIcon([Category.UNKNOWN])}
+            position={[pinnedLocation.lat, pinnedLocation.lng]}
+            icon={getIcon(theme, [Category.UNKNOWN])}
           >
 
           </Marker>
         )
       }
 
-      {
-        searchResults.map((searchResult: SearchResult) => (
-          <Marker
-            key={`map-marker-${searchResult.id}`}
-            position={[searchResult.lat, searchResult.lng]}
-            icon={getIcon(searchResult.categories)}
-            eventHandlers={{
-              click: onClickOnPin(router, searchResult),
-            }}
-          >
-
-          </Marker>
-        ))
-      }
+      <MapMarkers/>
 
     </MapContainer>
   )
@@ -1,79 +1,59 @@
-import { FC } from 'react'
-import { useRouter } from 'next/router'
+import { FC, useEffect } from 'react'
+import { useDispatch, useSelector } from 'react-redux'
 import { LeafletEvent, LeafletMouseEvent } from 'leaflet'
 import { useMapEvents } from 'react-leaflet'
-import toString from 'lodash/toString'
-import { updateRoutingQuery } from '../utils/utils'
-import { createSlugPathFromQueryAndRemoveSlug, getRootSlugActionFromQuery } from '../utils/slug'
+import { convertBBoxToString } from '../utils/utils'
 import { RootSlugEntity, SlugVerb } from '../utils/types'
+import { RootState } from '../slices'
+import { selectedEntitySelector } from '../selectors/map'
+import { SelectedEntity, setBBox, setPinnedLocation, setViewportFromMap } from '../slices/mapSlice'
+
+
+const isCreatingOrEditingEntity = (selectedEntity: SelectedEntity | null): boolean => (
+  selectedEntity !== null &&
+  (selectedEntity.entity === RootSlugEntity.EVENT || selectedEntity.entity === RootSlugEntity.ENTRY) &&
+  (selectedEntity.verb === SlugVerb.CREATE || selectedEntity.verb === SlugVerb.EDIT)
+)
 
 
 // just this component has access to the map attributes, so only this one can make the search
 const MapEventsListener: FC = () => {
-  const router = useRouter()
-  const { query } = router
+  const dispatch = useDispatch()
+
+  const selectedEntity: SelectedEntity | null = useSelector(
+    (state: RootState) => selectedEntitySelector(state),
+  )
 
   const map = useMapEvents({
     moveend: ((_event: LeafletEvent) => {
-
+      // the LatLng of leaflet is a class, the actions should only carry plain objects
       const { lat, lng } = map.getCenter()
 
-      const zoom = map.getZoom()
-
-      // todo: debounce needed
-      const paramsToUpdate = {
-        lat: lat.toFixed(4),
-        lng: lng.toFixed(4),
-        zoom: zoom.toFixed(2),
-      }
-
-      const newQueryParams = updateRoutingQuery(query, paramsToUpdate)
-      const [newPath, newQueryWithoutSlug] = createSlugPathFromQueryAndRemoveSlug(newQueryParams)
-
-      router.replace(
-        {
-          pathname: `/maps/${newPath}`,
-          query: newQueryWithoutSlug,
-        },
-        undefined,
-        { shallow: true },
-      )
+      dispatch(setViewportFromMap({
+        center: { lat, lng },
+        zoom: map.getZoom(),
+        bbox: convertBBoxToString(map.getBounds()),
+      }))
     }),
 
     click: ((event: LeafletMouseEvent) => {
       const { latlng } = event
       const { lat, lng } = latlng
 
-      const slugAction = getRootSlugActionFromQuery(query)
-      const { subSlugAction } = slugAction
-      if (
-        (subSlugAction !== null) &&
-        (subSlugAction.entity === RootSlugEntity.EVENT || subSlugAction.entity === RootSlugEntity.ENTRY) &&
-        (subSlugAction.verb === SlugVerb.CREATE || subSlugAction.verb === SlugVerb.EDIT)
-      ) {
-        const paramsToUpdate = {
-          pinLat: toString(lat),
-          pinLng: toString(lng),
-        }
-
-        const newQueryParams = updateRoutingQuery(query, paramsToUpdate)
-        const [newPath, newQueryWithoutSlug] = createSlugPathFromQueryAndRemoveSlug(newQueryParams)
-
-        router.replace(
-          {
-            pathname: `/maps/${newPath}`,
-            query: newQueryWithoutSlug,
-          },
-          undefined,
-          { shallow: true },
-        )
+      if (isCreatingOrEditingEntity(selectedEntity)) {
+        dispatch(setPinnedLocation({ lat, lng }))
       }
     }),
 
   })
 
+  // the search needs a bbox even before the map moves for the first time
+  useEffect(() => {
+    dispatch(setBBox(convertBBoxToString(map.getBounds())))
+  }, [])
+
   return null
 }
 
 
-export default MapEventsListener
\ No newline at end of file
+export default MapEventsListener
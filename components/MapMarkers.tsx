@@ -0,0 +1,315 @@
+import { FC, Fragment, useEffect, useMemo, useState } from 'react'
+import { NextRouter, useRouter } from 'next/router'
+import { useSelector } from 'react-redux'
+import { DivIcon, Icon, LatLng, LeafletEvent, Map as LeafletMap, Point } from 'leaflet'
+import { Marker, Polyline, useMapEvents } from 'react-leaflet'
+import { RootState } from '../slices'
+import searchResultSelector from '../selectors/searchResults'
+import { selectedEntitySelector } from '../selectors/map'
+import { SelectedEntity } from '../slices/mapSlice'
+import Category, { Categories } from '../dtos/Categories'
+import { ProjectTheme } from '../dtos/ProjectTheme'
+import { SearchResult, SearchResults } from '../dtos/SearchResult'
+import { isCreatingOrEditing, Navigation } from '../utils/navigation'
+import useNavigation from '../hooks/useNavigation'
+import useProjectTheme from '../hooks/useProjectTheme'
+import useOpenStates from '../hooks/useOpenStates'
+import { getAccentColor, getPinUrl } from '../utils/theme'
+import {
+  CategoryCount,
+  createSearchResultsIndex,
+  getSpiderfyOffsets,
+  isClusterFeature,
+  SearchResultClusterFeature,
+  SearchResultFeature,
+  SearchResultPointFeature,
+  SearchResultsIndex,
+} from '../utils/cluster'
+import { MAP_CLUSTER } from '../consts/map'
+import { filterClosedResults, OpenState } from '../utils/openingHours'
+import { OPEN_FILTER } from '../consts/openingHours'
+
+
+// memoize icons to prevent object creations, the pins of the projects are cached by their url
+const icons: Record<string, Icon> = {}
+
+export const getIcon = (theme: ProjectTheme, types: Categories): Icon => {
+  // the reason we define types as array is because backend sends us an array of categories
+  // and we won't ever know if in the feature we'll need to use the whole array or not
+  const iconUrl = getPinUrl(theme, types)
+
+  if (!icons[iconUrl]) {
+    icons[iconUrl] = new Icon({
+      iconUrl,
+      iconSize: new Point(50, 50),
+    })
+  }
+
+  return icons[iconUrl]
+}
+
+
+// the order of the slices in the cluster pie
+const clusterCategories: Category[] = [
+  Category.INITIATIVE,
+  Category.COMPANY,
+  Category.EVENT,
+  Category.UNKNOWN,
+]
+
+const clusterIcons: Record<string, DivIcon> = {}
+
+// keeps the pin of the entity that is open in the sidebar above its neighbours
+const SELECTED_MARKER_Z_INDEX_OFFSET = 1000
+
+const getClusterSize = (count: number): number => {
+  if (count < 10) {
+    return 36
+  }
+
+  if (count < 100) {
+    return 44
+  }
+
+  return 52
+}
+
+// draws the share of every category as a slice of a pie chart around the total count
+const getClusterIcon = (theme: ProjectTheme, count: number, categoryCount: CategoryCount): DivIcon => {
+  const cacheKey = clusterCategories
+    .map(category => `${categoryCount[category]}${getAccentColor(theme, category)}`)
+    .join('-')
+  if (clusterIcons[cacheKey]) {
+    return clusterIcons[cacheKey]
+  }
+
+  let sliceStart = 0
+  const slices: string[] = []
+  clusterCategories.forEach(category => {
+    if (categoryCount[category] === 0) {
+      return
+    }
+
+    const sliceEnd = sliceStart + (categoryCount[category] / count) * 360
+    slices.push(`${getAccentColor(theme, category)} ${sliceStart}deg ${sliceEnd}deg`)
+    sliceStart = sliceEnd
+  })
+
+  const size = getClusterSize(count)
+
+  clusterIcons[cacheKey] = new DivIcon({
+    html: `<div class="map-cluster" style="background: conic-gradient(${slices.join(', ')})"><span>${count}</span></div>`,
+    className: 'map-cluster-icon',
+    iconSize: new Point(size, size),
+  })
+
+  return clusterIcons[cacheKey]
+}
+
+
+export const onClickOnPin = (
+  router: NextRouter,
+  navigation: Navigation,
+  searchResult: SearchResult,
+) => () => {
+  // if we are in the middle of creating/editing an entity, clicking on pins should do nothing
+  if (isCreatingOrEditing(router.query)) {
+    return
+  }
+
+  navigation.openEntity(searchResult.categories[0], searchResult.id)
+}
+
+
+const getClustersInView = (map: LeafletMap, index: SearchResultsIndex): SearchResultFeature[] => {
+  const bounds = map.getBounds()
+  const bbox: [number, number, number, number] = [
+    bounds.getWest(),
+    bounds.getSouth(),
+    bounds.getEast(),
+    bounds.getNorth(),
+  ]
+
+  return index.getClusters(bbox, Math.round(map.getZoom()))
+}
+
+const onClickOnCluster = (
+  map: LeafletMap,
+  index: SearchResultsIndex,
+  cluster: SearchResultClusterFeature,
+  setSpiderfiedClusterId: (clusterId: number) => void,
+) => () => {
+  const clusterId = cluster.properties.cluster_id
+  const expansionZoom = index.getClusterExpansionZoom(clusterId)
+
+  // zooming in does not split the cluster anymore
+  if (expansionZoom > MAP_CLUSTER.maxZoom) {
+    setSpiderfiedClusterId(clusterId)
+
+    return
+  }
+
+  const [lng, lat] = cluster.geometry.coordinates
+  map.flyTo([lat, lng], expansionZoom)
+}
+
+interface SpiderfiedLeaf {
+  searchResult: SearchResult
+  position: LatLng
+}
+
+const spiderfyCluster = (
+  map: LeafletMap,
+  index: SearchResultsIndex,
+  clusterId: number,
+): [LatLng, SpiderfiedLeaf[]] => {
+  // the cluster may vanish after a new search, in that case there is nothing to spiderfy
+  let leaves: SearchResultPointFeature[] = []
+  try {
+    leaves = index.getLeaves(clusterId, Infinity)
+  } catch (e) {
+    return [null, []]
+  }
+
+  if (leaves.length === 0) {
+    return [null, []]
+  }
+
+  const zoom = map.getZoom()
+  const [lng, lat] = leaves[0].geometry.coordinates
+  const center = new LatLng(lat, lng)
+  const centerPoint = map.project(center, zoom)
+
+  const offsets = getSpiderfyOffsets(leaves.length, MAP_CLUSTER.spiderfyRadius)
+
+  const spiderfiedLeaves = leaves.map((leaf, i) => {
+    const [dx, dy] = offsets[i]
+
+    return {
+      searchResult: leaf.properties.searchResult,
+      position: map.unproject(centerPoint.add(new Point(dx, dy)), zoom),
+    }
+  })
+
+  return [center, spiderfiedLeaves]
+}
+
+
+const MapMarkers: FC = () => {
+  const router = useRouter()
+  const navigation = useNavigation()
+  const theme = useProjectTheme()
+
+  const allSearchResults: SearchResults = useSelector(
+    (state: RootState) => searchResultSelector(state),
+  )
+
+  // the closed entries are hidden and the ones that may be open are dimmed
+  const openStates = useOpenStates()
+  const searchResults = useMemo(
+    () => (openStates !== null ? filterClosedResults(allSearchResults, openStates) : allSearchResults),
+    [allSearchResults, openStates],
+  )
+  const getOpacity = (searchResult: SearchResult): number => (
+    openStates !== null && openStates[searchResult.id] === OpenState.UNKNOWN ? OPEN_FILTER.unknownOpacity : 1
+  )
+
+  const selectedEntity: SelectedEntity | null = useSelector(
+    (state: RootState) => selectedEntitySelector(state),
+  )
+  const selectedId = selectedEntity !== null ? selectedEntity.id : null
+
+  const index = useMemo(
+    () => createSearchResultsIndex(searchResults, MAP_CLUSTER),
+    [searchResults],
+  )
+
+  const [clusters, setClusters] = useState<SearchResultFeature[]>([])
+  const [spiderfiedClusterId, setSpiderfiedClusterId] = useState<number | null>(null)
+
+  const map = useMapEvents({
+    moveend: (_event: LeafletEvent) => {
+      setClusters(getClustersInView(map, index))
+    },
+    zoomstart: (_event: LeafletEvent) => {
+      setSpiderfiedClusterId(null)
+    },
+  })
+
+  // the cluster ids are not stable between the indices
+  useEffect(() => {
+    setSpiderfiedClusterId(null)
+    setClusters(getClustersInView(map, index))
+  }, [index])
+
+  const [spiderfyCenter, spiderfiedLeaves] = spiderfiedClusterId !== null ?
+    spiderfyCluster(map, index, spiderfiedClusterId) :
+    [null, []]
+
+  return (
+    <Fragment>
+      {
+        clusters.map((feature: SearchResultFeature) => {
+          const [lng, lat] = feature.geometry.coordinates
+
+          if (isClusterFeature(feature)) {
+            const { cluster_id: clusterId, point_count: count, categoryCount } = feature.properties
+
+            // the spiderfied leaves replace their cluster
+            if (clusterId === spiderfiedClusterId) {
+              return null
+            }
+
+            return (
+              <Marker
+                key={`map-cluster-${clusterId}`}
+                position={[lat, lng]}
+                icon={getClusterIcon(theme, count, categoryCount)}
+                eventHandlers={{
+                  click: onClickOnCluster(map, index, feature, setSpiderfiedClusterId),
+                }}
+              />
+            )
+          }
+
+          const { searchResult } = feature.properties
+
+          return (
+            <Marker
+              key={`map-marker-${searchResult.id}`}
+              position={[lat, lng]}
+              icon={getIcon(theme, searchResult.categories)}
+              zIndexOffset={searchResult.id === selectedId ? SELECTED_MARKER_Z_INDEX_OFFSET : 0}
+              opacity={getOpacity(searchResult)}
+              eventHandlers={{
+                click: onClickOnPin(router, navigation, searchResult),
+              }}
+            />
+          )
+        })
+      }
+
+      {
+        spiderfiedLeaves.map((leaf: SpiderfiedLeaf) => (
+          <Fragment key={`map-spiderfied-marker-${leaf.searchResult.id}`}>
+            <Polyline
+              positions={[spiderfyCenter, leaf.position]}
+              pathOptions={{ color: '#555', weight: 1.5, opacity: 0.5 }}
+            />
+            <Marker
+              position={leaf.position}
+              icon={getIcon(theme, leaf.searchResult.categories)}
+              opacity={getOpacity(leaf.searchResult)}
+              eventHandlers={{
+                click: onClickOnPin(router, navigation, leaf.searchResult),
+              }}
+            />
+          </Fragment>
+        ))
+      }
+    </Fragment>
+  )
+}
+
+
+export default MapMarkers
@@ -0,0 +1,91 @@
+import { FC, Fragment, useMemo } from 'react'
+import { useRouter } from 'next/router'
+import dynamic from 'next/dynamic'
+import { useToggle } from 'ahooks'
+import { Layout, Spin } from 'antd'
+import RouterQueryInitializer from './RouterQueryInitializer'
+import MapStateUrlListener from './MapStateUrlListener'
+import EmbedMessageListener from './EmbedMessageListener'
+import { MapLocationProps } from './Map'
+import Sidebar from './Sidebar'
+import EntityHead from './EntityHead'
+import { TagsCount } from '../dtos/TagCount'
+import { ProjectTheme } from '../dtos/ProjectTheme'
+import { EntityHeadProps } from '../utils/seo'
+
+const { Content } = Layout
+
+
+export interface MapPageProps {
+  popularTags: TagsCount
+  mapLocationProps: MapLocationProps,
+  // only for the detail pages of the entities
+  entityHead: EntityHeadProps | null
+  // for the layout of the app, see _app.tsx
+  theme: ProjectTheme
+  // the iframes show the map without the burger menu and optionally without the sidebar
+  isEmbedded?: boolean
+}
+
+
+const MapPage: FC<MapPageProps> = (props) => {
+  const { mapLocationProps, entityHead, isEmbedded } = props
+
+  const router = useRouter()
+  const showSidebar = !isEmbedded || router.query.sidebar !== 'false'
+
+  const [
+    isLoading,
+    {
+      setRight: setNotLoading,
+    },
+  ] = useToggle(true)
+
+
+  const Map = useMemo(() => dynamic(
+    () => import('./Map').then(
+      (mod) => {
+        setNotLoading()
+        return mod.default
+      },
+    ),
+    {
+      ssr: false,
+    },
+  ), [])
+
+
+  return (
+    <Fragment>
+      {entityHead && <EntityHead {...entityHead}/>}
+
+      <RouterQueryInitializer
+        initMapLocationProps={mapLocationProps}
+      />
+
+      <MapStateUrlListener/>
+
+      {isEmbedded && <EmbedMessageListener/>}
+
+      <Layout
+        hasSider
+      >
+
+        {showSidebar && <Sidebar/>}
+
+        <Content>
+          <Spin spinning={isLoading}>
+            <div id="map">
+              <Map/>
+            </div>
+          </Spin>
+        </Content>
+
+      </Layout>
+    </Fragment>
+  )
+}
+
+
+
+export default MapPage
@@ -0,0 +1,43 @@
+import { FC, useEffect } from 'react'
+import { useRouter } from 'next/router'
+import { useDispatch, useSelector } from 'react-redux'
+import { RootState } from '../slices'
+import mapSelector from '../selectors/map'
+import { MapState, syncMapStateFromUrl } from '../slices/mapSlice'
+import { convertQueryToMapState, isMapStateInSyncWithUrl } from '../utils/map'
+import { isRouterInitialized } from '../utils/router'
+
+
+// copies the viewport, the pin and the selected entity from the url to the state,
+// e.g. on the initial load or if the user navigates back.
+// the changes of the state are written to the url by the mapUrlSync middleware
+const MapStateUrlListener: FC = () => {
+  const router = useRouter()
+  const { query } = router
+
+  const dispatch = useDispatch()
+
+  const mapState: MapState = useSelector(
+    (state: RootState) => mapSelector(state),
+  )
+
+  useEffect(() => {
+    if (!isRouterInitialized(router)) {
+      return
+    }
+
+    const mapStateFromUrl = convertQueryToMapState(query)
+
+    // the url has just been updated from the state
+    if (isMapStateInSyncWithUrl(mapState, mapStateFromUrl)) {
+      return
+    }
+
+    dispatch(syncMapStateFromUrl(mapStateFromUrl))
+  }, [query])
+
+  return null
+}
+
+
+export default MapStateUrlListener
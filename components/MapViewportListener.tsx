@@ -0,0 +1,38 @@
+import { FC, useEffect } from 'react'
+import { useSelector } from 'react-redux'
+import { useMap } from 'react-leaflet'
+import { RootState } from '../slices'
+import mapSelector from '../selectors/map'
+import { MapState, ViewportChangeSource } from '../slices/mapSlice'
+
+
+// moves the map whenever the viewport in the state is changed by the url or the app, e.g. locate me
+const MapViewportListener: FC = () => {
+  const map = useMap()
+
+  const { center, zoom, viewportChangedBy, isInitialized }: MapState = useSelector(
+    (state: RootState) => mapSelector(state),
+  )
+
+  const effectDependencies = [
+    center.lat,
+    center.lng,
+    zoom,
+    viewportChangedBy,
+    isInitialized,
+  ]
+
+  useEffect(() => {
+    // the map is already there
+    if (!isInitialized || viewportChangedBy === ViewportChangeSource.MAP) {
+      return
+    }
+
+    map.flyTo([center.lat, center.lng], zoom)
+  }, effectDependencies)
+
+  return null
+}
+
+
+export default MapViewportListener
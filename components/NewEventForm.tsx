@@ -0,0 +1,29 @@
+import React, { FC } from 'react'
+import { Tabs } from 'antd'
+import useTranslation from 'next-translate/useTranslation'
+import { SlugVerb } from '../utils/types'
+import EventForm from './EventForm'
+import EventImport from './EventImport'
+
+
+const { TabPane } = Tabs
+
+
+// the organizers can either type in a single event or import them from their calendar
+const NewEventForm: FC = () => {
+  const { t } = useTranslation('map')
+
+  return (
+    <Tabs defaultActiveKey="form">
+      <TabPane tab={t('eventImport.form')} key="form">
+        <EventForm verb={SlugVerb.CREATE}/>
+      </TabPane>
+      <TabPane tab={t('eventImport.import')} key="import">
+        <EventImport/>
+      </TabPane>
+    </Tabs>
+  )
+}
+
+
+export default NewEventForm
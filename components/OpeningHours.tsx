@@ -1,118 +1,21 @@
 import { FC, Fragment, ReactElement } from 'react'
 import isString from 'lodash/isString'
-import moment, { Moment } from 'moment'
-import opening_hours from 'opening_hours'
+import { nominatim_object } from 'opening_hours'
 import { Col, Divider, List, Row, Typography } from 'antd'
+import { DayRecord, getCalendar, getOpeningHoursNominatim, Intervals, isParsable } from '../utils/openingHours'
 
 
 const { Text } = Typography
 
 
-type Interval = [Moment, Moment, boolean, string]
-type Intervals = Interval[]
-
-interface DayRecord {
-  idx: number
-  name: string,
-  intervals: Intervals
-}
-
-type Calendar = DayRecord[]
-
-
-const isParsable = (openingHours: string): boolean => {
-  try {
-    new opening_hours(openingHours)
-  } catch (e) {
-    return false
-  }
-
-  return true
-}
-
-const isValid = (openingHours: string): boolean => {
-  if (!isParsable(openingHours) && !isString(openingHours)) {
+const isValid = (openingHours: string, nominatim: nominatim_object): boolean => {
+  if (!isParsable(openingHours, nominatim) && !isString(openingHours)) {
     return false
   }
 
   return true
 }
 
-const getCalendar = (openingHours: string): Calendar => {
-  const oh = new opening_hours(openingHours)
-
-  const localeWeekDays = moment.weekdays(true)
-  const calendar: Calendar = moment
-    .weekdays(false)
-    .map(day => ({ idx: localeWeekDays.indexOf(day), name: day, intervals: [] }))
-
-  const startOfWeek = moment().startOf('week').toDate()
-  const endOfWeek = moment().endOf('week').toDate()
-
-  // the intervals returned are chunked by continues intervals ->
-  // -> an interval may began from the prev day to its day after when converting to local locale
-  // hence we should break it to fit in a local day
-  const intervals = oh.getOpenIntervals(startOfWeek, endOfWeek)
-  for (let i = 0; i !== intervals.length; i++) {
-    const [start, end, unknown, comment] = intervals[i]
-    const startMoment = moment(start).local()
-    const endMoment = moment(end).local()
-
-    if (startMoment.isSame(endMoment, 'day')) {
-      calendar[startMoment.day()]
-        .intervals
-        .push([startMoment, endMoment, unknown, comment])
-    } else {
-      // we are in the situation of a long continues interval like 24/7
-      // from end of today
-      calendar[startMoment.day()]
-        .intervals
-        .push([
-          startMoment,
-          startMoment.clone().set({ hour: 23, minute: 59 }),
-          unknown,
-          comment,
-        ])
-
-      // if there are days between start and end consider them
-      const middleDayMoment = startMoment
-        .clone()
-        .set({ hour: 0, minute: 0 })
-        .add(1, 'day')
-
-      while (
-        middleDayMoment.isBefore(endMoment, 'day')
-        ) {
-        calendar[middleDayMoment.day()]
-          .intervals
-          .push([
-            middleDayMoment.clone(),
-            middleDayMoment.clone().set({ hour: 23, minute: 59 }),
-            unknown,
-            comment,
-          ])
-
-        middleDayMoment.add(1, 'day')
-      }
-
-      // continues from the midnight of the tomorrow
-      // if it's not on the next week
-      if (endMoment.day() !== 0) {
-        calendar[endMoment.day()]
-          .intervals
-          .push([
-            middleDayMoment,
-            endMoment,
-            unknown,
-            comment,
-          ])
-      }
-    }
-  }
-
-  return calendar
-}
-
 const convertIntervalsToReadableString = (intervals: Intervals): string => {
   let s = ''
   intervals.map(([start, end, unknown, comment], i) => {
@@ -166,8 +69,16 @@ const renderDayRecord = (dayRecord: DayRecord): ReactElement => {
 }
 
 
-const renderCalendar = (openingHours: string): ReactElement => {
-  const calendar = getCalendar(openingHours)
+interface OpeningHoursCalendarProps {
+  openingHours: string
+  nominatim: nominatim_object
+}
+
+// the week of the opening hours, it expects a parsable value
+export const OpeningHoursCalendar: FC<OpeningHoursCalendarProps> = (props) => {
+  const { openingHours, nominatim } = props
+
+  const calendar = getCalendar(openingHours, nominatim)
   calendar.sort((day1, day2) => day1.idx - day2.idx)
 
   return (
@@ -182,14 +93,20 @@ const renderCalendar = (openingHours: string): ReactElement => {
 
 interface OpeningHoursProps {
   openingHours?: string
+  // the public holidays are taken from the location of the entity
+  lat?: number
+  lng?: number
+  state?: string
 }
 
 const OpeningHours: FC<OpeningHoursProps> = (props) => {
-  const { openingHours } = props
+  const { openingHours, lat, lng, state } = props
+
+  const nominatim = getOpeningHoursNominatim(lat, lng, state)
 
   if (
     !openingHours ||
-    !isValid(openingHours)
+    !isValid(openingHours, nominatim)
   ) {
     return null
   }
@@ -199,8 +116,8 @@ const OpeningHours: FC<OpeningHoursProps> = (props) => {
       <Divider>Opening Hours</Divider>
 
       {
-        isParsable(openingHours) ?
-          renderCalendar(openingHours) :
+        isParsable(openingHours, nominatim) ?
+          <OpeningHoursCalendar openingHours={openingHours} nominatim={nominatim}/> :
           <Text>{openingHours}</Text>
       }
 
@@ -0,0 +1,310 @@
+import { FC, Fragment, useEffect, useMemo, useRef, useState } from 'react'
+import useTranslation from 'next-translate/useTranslation'
+import { Alert, Button, Col, Divider, Input, Radio, Row, Select, Space, Switch, TimePicker, Typography } from 'antd'
+import { MinusCircleOutlined, PlusOutlined } from '@ant-design/icons'
+import moment, { Moment } from 'moment'
+import produce, { Draft } from 'immer'
+import isEmpty from 'lodash/isEmpty'
+import { nominatim_object } from 'opening_hours'
+import {
+  createEmptyWeeklyOpeningHours,
+  createOpeningHours,
+  isParsable,
+  parseOpeningHours,
+  PublicHolidaysMode,
+  TimeSpan,
+  WEEKDAYS,
+  WeeklyOpeningHours,
+} from '../utils/openingHours'
+import { OPENING_HOURS } from '../consts/openingHours'
+import { OpeningHoursCalendar } from './OpeningHours'
+
+
+const { Text, Link } = Typography
+const { RangePicker } = TimePicker
+
+
+enum EditorMode {
+  WEEK = 'week',
+  TEXT = 'text',
+}
+
+const convertTimeToMoment = (time: string): Moment => {
+  const [hour, minute] = time.split(':').map(Number)
+
+  return moment().startOf('day').set({ hour, minute })
+}
+
+// the midnight at the end of a shift is the end of the day
+const convertMomentToTime = (time: Moment, isEnd: boolean): string => {
+  const formattedTime = time.format(OPENING_HOURS.timeFormat)
+
+  return isEnd && formattedTime === '00:00' ? '24:00' : formattedTime
+}
+
+
+interface TimeSpansEditorProps {
+  spans: TimeSpan[]
+  onChange: (spans: TimeSpan[]) => void
+}
+
+// more than one span is a split shift, e.g. 09:00-12:00 and 14:00-18:00
+const TimeSpansEditor: FC<TimeSpansEditorProps> = (props) => {
+  const { spans, onChange } = props
+
+  const { t } = useTranslation('map')
+
+  return (
+    <Space direction="vertical" size={4}>
+      {
+        spans.map((span: TimeSpan, i: number) => (
+          <Space key={i} align="center">
+            <RangePicker
+              size="small"
+              format={OPENING_HOURS.timeFormat}
+              minuteStep={OPENING_HOURS.minuteStep}
+              allowClear={false}
+              // the shifts that end after the midnight are allowed
+              order={false}
+              value={[convertTimeToMoment(span.start), convertTimeToMoment(span.end)]}
+              onChange={([start, end]: [Moment, Moment]) => onChange(produce(spans, draftState => {
+                draftState[i] = {
+                  start: convertMomentToTime(start, false),
+                  end: convertMomentToTime(end, true),
+                }
+              }))}
+            />
+            <MinusCircleOutlined
+              onClick={() => onChange(spans.filter((_span, j) => j !== i))}
+            />
+          </Space>
+        ))
+      }
+      <Button
+        type="link"
+        size="small"
+        icon={<PlusOutlined/>}
+        onClick={() => onChange([...spans, OPENING_HOURS.defaultSpan])}
+      >
+        {t('openingHoursEditor.addShift')}
+      </Button>
+    </Space>
+  )
+}
+
+
+interface OpeningHoursEditorProps {
+  value?: string
+  onChange?: (value: string) => void
+  // to preview the public holidays of the place
+  nominatim?: nominatim_object
+}
+
+// a form control that writes the openstreetmap syntax, e.g. 'Mo-Fr 09:00-18:00; PH off'.
+// the values the weekly grid can not show without changing them are left to the text input
+const OpeningHoursEditor: FC<OpeningHoursEditorProps> = (props) => {
+  const { value = '', onChange = () => {}, nominatim = OPENING_HOURS.defaultNominatim } = props
+
+  const { t } = useTranslation('map')
+
+  const initialWeek = useMemo(() => parseOpeningHours(value, nominatim), [])
+  // null if the current value can only be edited as text
+  const [week, setWeek] = useState<WeeklyOpeningHours | null>(initialWeek)
+  const [mode, setMode] = useState<EditorMode>(initialWeek === null ? EditorMode.TEXT : EditorMode.WEEK)
+
+  // the form may set the value as well, e.g. when a draft is restored
+  const emittedValue = useRef<string>(value)
+  useEffect(() => {
+    if (value === emittedValue.current) {
+      return
+    }
+
+    const newWeek = parseOpeningHours(value, nominatim)
+    emittedValue.current = value
+    setWeek(newWeek)
+    setMode(newWeek === null ? EditorMode.TEXT : EditorMode.WEEK)
+  }, [value])
+
+  const emit = (newValue: string) => {
+    emittedValue.current = newValue
+    onChange(newValue)
+  }
+
+  const changeWeek = (recipe: (draftState: Draft<WeeklyOpeningHours>) => void) => {
+    const newWeek = produce(week, recipe)
+    setWeek(newWeek)
+    emit(createOpeningHours(newWeek))
+  }
+
+  const changeText = (text: string) => {
+    setWeek(parseOpeningHours(text, nominatim))
+    emit(text)
+  }
+
+  const startNewWeek = () => {
+    const newWeek = createEmptyWeeklyOpeningHours()
+    setWeek(newWeek)
+    setMode(EditorMode.WEEK)
+    emit(createOpeningHours(newWeek))
+  }
+
+  return (
+    <div>
+      <Radio.Group
+        size="small"
+        value={mode}
+        onChange={e => setMode(e.target.value)}
+        style={{ marginBottom: 8 }}
+      >
+        <Radio.Button value={EditorMode.WEEK} disabled={week === null}>
+          {t('openingHoursEditor.week')}
+        </Radio.Button>
+        <Radio.Button value={EditorMode.TEXT}>
+          {t('openingHoursEditor.text')}
+        </Radio.Button>
+      </Radio.Group>
+
+      {
+        mode === EditorMode.TEXT && (
+          <Fragment>
+            <Input
+              value={value}
+              placeholder="Mo-Fr 09:00-18:00; PH off"
+              onChange={e => changeText(e.target.value)}
+            />
+            <Link
+              href={process.env.NEXT_PUBLIC_OPENING_HOURS}
+              target="_blank"
+            >
+              {t('openingHoursEditor.syntaxHelp')}
+            </Link>
+
+            {
+              week === null && !isEmpty(value) && (
+                <Alert
+                  type="info"
+                  showIcon
+                  message={t('openingHoursEditor.notInWeek')}
+                  action={
+                    <Button size="small" onClick={startNewWeek}>
+                      {t('openingHoursEditor.startNewWeek')}
+                    </Button>
+                  }
+                  style={{ marginTop: 8 }}
+                />
+              )
+            }
+          </Fragment>
+        )
+      }
+
+      {
+        mode === EditorMode.WEEK && week !== null && (
+          <Fragment>
+            {
+              WEEKDAYS.map(day => (
+                <Row key={day} gutter={8} style={{ marginBottom: 4 }}>
+                  <Col span={8}>
+                    <Space>
+                      <Switch
+                        size="small"
+                        checked={week.days[day].length !== 0}
+                        onChange={(isOpen: boolean) => changeWeek(draftState => {
+                          draftState.days[day] = isOpen ? [OPENING_HOURS.defaultSpan] : []
+                        })}
+                      />
+                      <Text>{t(`openingHoursEditor.days.${day}`)}</Text>
+                    </Space>
+                  </Col>
+                  <Col span={16}>
+                    {
+                      week.days[day].length !== 0 ?
+                        <TimeSpansEditor
+                          spans={week.days[day]}
+                          onChange={(spans: TimeSpan[]) => changeWeek(draftState => {
+                            draftState.days[day] = spans
+                          })}
+                        /> :
+                        <Text type="secondary">{t('openingHoursEditor.closed')}</Text>
+                    }
+                  </Col>
+                </Row>
+              ))
+            }
+
+            <Row gutter={8} style={{ marginBottom: 4 }}>
+              <Col span={8}>
+                <Text>{t('openingHoursEditor.publicHolidays')}</Text>
+              </Col>
+              <Col span={16}>
+                <Space direction="vertical" size={4}>
+                  <Select
+                    size="small"
+                    value={week.publicHolidays.mode}
+                    onChange={(publicHolidaysMode: PublicHolidaysMode) => changeWeek(draftState => {
+                      draftState.publicHolidays = {
+                        mode: publicHolidaysMode,
+                        spans: publicHolidaysMode === PublicHolidaysMode.OPEN ? [OPENING_HOURS.defaultSpan] : [],
+                      }
+                    })}
+                    style={{ minWidth: 160 }}
+                  >
+                    {
+                      Object.values(PublicHolidaysMode).map(publicHolidaysMode => (
+                        <Select.Option key={publicHolidaysMode} value={publicHolidaysMode}>
+                          {t(`openingHoursEditor.publicHolidaysModes.${publicHolidaysMode}`)}
+                        </Select.Option>
+                      ))
+                    }
+                  </Select>
+                  {
+                    week.publicHolidays.mode === PublicHolidaysMode.OPEN && (
+                      <TimeSpansEditor
+                        spans={week.publicHolidays.spans}
+                        onChange={(spans: TimeSpan[]) => changeWeek(draftState => {
+                          draftState.publicHolidays.spans = spans
+                        })}
+                      />
+                    )
+                  }
+                </Space>
+              </Col>
+            </Row>
+
+            <Input
+              value={week.comment}
+              addonBefore={t('openingHoursEditor.comment')}
+              placeholder={t('openingHoursEditor.commentPlaceholder')}
+              onChange={e => changeWeek(draftState => {
+                draftState.comment = e.target.value
+              })}
+              style={{ marginTop: 8 }}
+            />
+            <Input
+              value={week.fallbackComment}
+              addonBefore={t('openingHoursEditor.fallbackComment')}
+              placeholder={t('openingHoursEditor.fallbackCommentPlaceholder')}
+              onChange={e => changeWeek(draftState => {
+                draftState.fallbackComment = e.target.value
+              })}
+              style={{ marginTop: 8 }}
+            />
+          </Fragment>
+        )
+      }
+
+      {
+        !isEmpty(value) && isParsable(value, nominatim) && (
+          <Fragment>
+            <Divider plain>{t('openingHoursEditor.preview')}</Divider>
+            <Text code>{value}</Text>
+            <OpeningHoursCalendar openingHours={value} nominatim={nominatim}/>
+          </Fragment>
+        )
+      }
+    </div>
+  )
+}
+
+
+export default OpeningHoursEditor
@@ -0,0 +1,36 @@
+import { FC, useEffect } from 'react'
+import { useRouter } from 'next/router'
+import { useDispatch, useSelector } from 'react-redux'
+import { RootState } from '../slices'
+import entriesSelector from '../selectors/entries'
+import { fetchOpeningHours } from '../slices/entriesSlice'
+import { SearchEntries } from '../dtos/SearchEntry'
+import { getOpenFilterDate } from '../utils/openingHours'
+import { convertQueryParamToString } from '../utils/utils'
+
+
+// the opening hours of the visible entries are fetched only while the results are filtered by them
+const OpeningHoursListener: FC = () => {
+  const router = useRouter()
+  const openParam = convertQueryParamToString(router.query.open)
+  const isFiltered = getOpenFilterDate(openParam, new Date()) !== null
+
+  const dispatch = useDispatch()
+
+  const entries: SearchEntries = useSelector(
+    (state: RootState) => entriesSelector(state),
+  )
+
+  useEffect(() => {
+    if (!isFiltered || entries.length === 0) {
+      return
+    }
+
+    dispatch(fetchOpeningHours(entries.map(entry => entry.id)))
+  }, [isFiltered, entries])
+
+  return null
+}
+
+
+export default OpeningHoursListener
@@ -0,0 +1,51 @@
+import { FC } from 'react'
+import useTranslation from 'next-translate/useTranslation'
+import { Space, Tag, Typography } from 'antd'
+import { PlusOutlined } from '@ant-design/icons'
+import useRelatedTags from '../hooks/useRelatedTags'
+
+
+const { Text } = Typography
+
+
+interface RelatedTagsProps {
+  tags: string[]
+  onSelect: (tag: string) => void
+}
+
+// the suggestions for the next tag, e.g. bio -> regional, unverpackt
+const RelatedTags: FC<RelatedTagsProps> = (props) => {
+  const { tags, onSelect } = props
+
+  const { t } = useTranslation('map')
+
+  const { data: relatedTags } = useRelatedTags(tags)
+  if (!relatedTags || relatedTags.length === 0) {
+    return null
+  }
+
+  return (
+    <Space
+      size={[0, 4]}
+      wrap
+      style={{ marginTop: 4 }}
+    >
+      <Text type="secondary">{t('relatedTags.title')}</Text>
+      {
+        relatedTags.map(relatedTag => (
+          <Tag
+            key={`related-tag-${relatedTag.tag}`}
+            icon={<PlusOutlined/>}
+            style={{ cursor: 'pointer' }}
+            onClick={() => onSelect(relatedTag.tag)}
+          >
+            {relatedTag.tag}
+          </Tag>
+        ))
+      }
+    </Space>
+  )
+}
+
+
+export default RelatedTags
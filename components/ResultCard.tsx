@@ -1,40 +1,47 @@
 import React, { CSSProperties, FC } from 'react'
-import { NextRouter, useRouter } from 'next/router'
+import { ParsedUrlQuery } from 'querystring'
 import { List, Space, Tag } from 'antd'
 import { SearchResult } from '../dtos/SearchResult'
 import { Type as ResultType, types as resultTypes } from './TypeChooser'
 import { SearchEntryID } from '../dtos/SearchEntry'
 import { CompactEvent, EventID } from '../dtos/Event'
-import { redirectToEntityDetail } from '../utils/slug'
+import { Navigation } from '../utils/navigation'
+import useNavigation from '../hooks/useNavigation'
 import toString from 'lodash/toString'
 import { CellMeasurerChildProps } from 'react-virtualized/dist/es/CellMeasurer'
 import Category from '../dtos/Categories'
 import { formatDuration } from '../utils/time'
 import moment from 'moment'
+import { OPEN_FILTER } from '../consts/openingHours'
 
 
 const { Item } = List
 
 
-interface ResultCardProps extends CellMeasurerChildProps {
+// the measurement props are only passed when the card is rendered inside a virtual list
+interface ResultCardProps extends Partial<CellMeasurerChildProps> {
   searchResult: SearchResult
   style?: CSSProperties
+  // moves the center of the map to the result, e.g. for the results out of the bbox
+  panToResult?: boolean
+  // e.g. the entries that may be open when the results are filtered by their opening hours
+  isDimmed?: boolean
 }
 
 const onResultClick = (
-  router: NextRouter,
+  navigation: Navigation,
   type: ResultType,
   id: SearchEntryID | EventID,
+  paramsToUpdate: ParsedUrlQuery,
 ) => () => {
-  redirectToEntityDetail(
-    router,
-    id,
-    type.id,
-    0,
-    [],
-  )
+  navigation.openEntity(type.id, id, paramsToUpdate)
 }
 
+const getPanParams = (searchResult: SearchResult): ParsedUrlQuery => ({
+  lat: searchResult.lat.toFixed(4),
+  lng: searchResult.lng.toFixed(4),
+})
+
 const getTimeDescriptionForEvent = (entity: SearchResult, type: ResultType): string | null => {
   if (type.id !== Category.EVENT) {
     return null
@@ -50,7 +57,7 @@ const getTimeDescriptionForEvent = (entity: SearchResult, type: ResultType): str
 
 const ResultCard: FC<ResultCardProps> = (props) => {
 
-  const { searchResult, style, measure } = props
+  const { searchResult, style, measure, panToResult, isDimmed } = props
   const { id, title, tags, categories } = searchResult
 
   // found some events with undefined description so a default value is mandatory
@@ -59,16 +66,16 @@ const ResultCard: FC<ResultCardProps> = (props) => {
 
   const type = resultTypes.find(t => t.id === categories[0])
 
-  const router = useRouter()
+  const navigation = useNavigation()
 
 
   // todo: bug maybe here is the place we should touch to have the cells measures correctly
   return (
     <Item
       onLoad={measure}
-      style={style}
+      style={isDimmed ? { ...style, opacity: OPEN_FILTER.unknownOpacity } : style}
       className={`${type.name}-result-card`}
-      onClick={onResultClick(router, type, id)}
+      onClick={onResultClick(navigation, type, id, panToResult ? getPanParams(searchResult) : {})}
     >
       <Item.Meta
         title={title}
@@ -88,4 +95,9 @@ const ResultCard: FC<ResultCardProps> = (props) => {
   )
 }
 
+ResultCard.defaultProps = {
+  panToResult: false,
+  isDimmed: false,
+}
+
 export default ResultCard
\ No newline at end of file
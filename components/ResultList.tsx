@@ -1,15 +1,26 @@
-import React, { FC } from 'react'
+import React, { FC, Fragment, useMemo } from 'react'
 import { useSelector } from 'react-redux'
-import { List } from 'antd'
+import { Collapse, List } from 'antd'
+import useTranslation from 'next-translate/useTranslation'
 import { AutoSizer, CellMeasurer, CellMeasurerCache, List as VirtualList } from 'react-virtualized'
 import { RootState } from '../slices'
 import searchResultSelector from '../selectors/searchResults'
+import { invisibleEntriesSelector } from '../selectors/entries'
+import { SearchEntries } from '../dtos/SearchEntry'
 import { SearchResults } from '../dtos/SearchResult'
 import 'react-virtualized/styles.css'
 import ResultCard from './ResultCard'
+import useOpenStates from '../hooks/useOpenStates'
+import { filterClosedResults, OpenState } from '../utils/openingHours'
 
 
-const rowRenderer = (data: SearchResults) => ({ index, key, parent, style }) => {
+const { Panel } = Collapse
+
+
+const rowRenderer = (
+  data: SearchResults,
+  openStates: Record<string, OpenState> | null,
+) => ({ index, key, parent, style }) => {
   const item = data[index]
 
   return (
@@ -25,6 +36,7 @@ const rowRenderer = (data: SearchResults) => ({ index, key, parent, style }) =>
           searchResult={item}
           measure={measure}
           style={style}
+          isDimmed={openStates !== null && openStates[item.id] === OpenState.UNKNOWN}
         />
       )}
     </CellMeasurer>
@@ -37,36 +49,84 @@ const cache = new CellMeasurerCache({
 })
 
 const ResultList: FC = () => {
-  const searchResults: SearchResults = useSelector(
+  const allSearchResults: SearchResults = useSelector(
     (state: RootState) => searchResultSelector(state),
   )
 
+  // the closed entries are hidden and the ones that may be open are dimmed
+  const openStates = useOpenStates()
+  const searchResults = useMemo(
+    () => (openStates !== null ? filterClosedResults(allSearchResults, openStates) : allSearchResults),
+    [allSearchResults, openStates],
+  )
+
+  const invisibleEntries: SearchEntries = useSelector(
+    (state: RootState) => invisibleEntriesSelector(state),
+  )
+
+  const { t } = useTranslation('map')
+
 
   return (
-    <List
-      itemLayout="vertical"
-      size="large"
-      style={{
-        width: '100%',
-        height: '100%',
-      }}
-    >
+    <Fragment>
+      <List
+        itemLayout="vertical"
+        size="large"
+        style={{
+          width: '100%',
+          flexGrow: 1,
+          minHeight: 0,
+        }}
+      >
+
+        <AutoSizer>
+          {({ height, width }) => (
+            <VirtualList
+              deferredMeasurementCache={cache}
+              defaultHeight={70}
+              defaultWidth={150}
+              height={height}
+              rowCount={searchResults.length}
+              rowHeight={cache.rowHeight}
+              rowRenderer={rowRenderer(searchResults, openStates)}
+              width={width}
+            />
+          )}
+        </AutoSizer>
+      </List>
 
-      <AutoSizer>
-        {({ height, width }) => (
-          <VirtualList
-            deferredMeasurementCache={cache}
-            defaultHeight={70}
-            defaultWidth={150}
-            height={height}
-            rowCount={searchResults.length}
-            rowHeight={cache.rowHeight}
-            rowRenderer={rowRenderer(searchResults)}
-            width={width}
-          />
-        )}
-      </AutoSizer>
-    </List>
+      {
+        invisibleEntries.length !== 0 && (
+          <Collapse
+            ghost
+            style={{
+              maxHeight: '40vh',
+              overflowY: 'auto',
+            }}
+          >
+            <Panel
+              key="invisible-entries"
+              header={`${t('search-results.results-out-of-bbox')} (${invisibleEntries.length})`}
+            >
+              <List
+                itemLayout="vertical"
+                size="large"
+              >
+                {
+                  invisibleEntries.map(invisibleEntry => (
+                    <ResultCard
+                      key={`invisible-result-${invisibleEntry.id}`}
+                      searchResult={invisibleEntry}
+                      panToResult
+                    />
+                  ))
+                }
+              </List>
+            </Panel>
+          </Collapse>
+        )
+      }
+    </Fragment>
   )
 }
 
@@ -12,6 +12,7 @@ import {
 } from '../utils/utils'
 import { MapLocationProps } from './Map'
 import { createSlugPathFromQueryAndRemoveSlug } from '../utils/slug'
+import { getMapBasePath } from '../utils/router'
 
 
 interface RouterQueryInitializerProps {
@@ -84,7 +85,7 @@ const RouterQueryInitializer: FC<RouterQueryInitializerProps> = (props) => {
     //todo: how about having other params like fixedTags but not zoom or things like that
     router.replace(
       {
-        pathname: `/maps/${newPath}`,
+        pathname: `${getMapBasePath(router.pathname)}/${newPath}`,
         query: newQueryWithoutSlug,
       },
       undefined,
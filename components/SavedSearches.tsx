@@ -0,0 +1,93 @@
+import { FC } from 'react'
+import { useRouter } from 'next/router'
+import { useLocalStorageState } from 'ahooks'
+import useTranslation from 'next-translate/useTranslation'
+import moment from 'moment'
+import { Button, Input, List, Popover } from 'antd'
+import { DeleteOutlined, StarOutlined } from '@ant-design/icons'
+import { addSavedSearch, removeSavedSearch, SavedSearch } from '../utils/savedSearches'
+import { normalizeViewPath } from '../utils/shortLink'
+import { SAVED_SEARCHES_STORAGE_KEY } from '../consts/shortLink'
+
+
+// the visitors name their views and reopen them later from the same browser
+const SavedSearches: FC = () => {
+  const router = useRouter()
+
+  const { t } = useTranslation('map')
+
+  const [savedSearches, setSavedSearches] = useLocalStorageState<SavedSearch[]>(
+    SAVED_SEARCHES_STORAGE_KEY,
+    [],
+  )
+
+  const currentPath = normalizeViewPath(router.asPath)
+
+  const onSave = (name: string) => {
+    if (name.trim().length === 0 || currentPath === null) {
+      return
+    }
+
+    setSavedSearches(addSavedSearch(savedSearches, name, currentPath, moment().valueOf()))
+  }
+
+  const content = (
+    <div style={{ width: 280 }}>
+      <Input.Search
+        placeholder={t('savedSearches.name')}
+        enterButton={t('savedSearches.save')}
+        disabled={currentPath === null}
+        onSearch={onSave}
+      />
+
+      <List
+        size="small"
+        dataSource={savedSearches}
+        locale={{ emptyText: t('savedSearches.empty') }}
+        renderItem={(savedSearch: SavedSearch) => (
+          <List.Item
+            key={savedSearch.savedAt}
+            actions={[
+              <Button
+                key="delete"
+                type="text"
+                size="small"
+                title={t('savedSearches.delete')}
+                icon={<DeleteOutlined/>}
+                onClick={() => setSavedSearches(removeSavedSearch(savedSearches, savedSearch.savedAt))}
+              />,
+            ]}
+          >
+            <Button
+              type="link"
+              size="small"
+              onClick={() => router.push(savedSearch.path)}
+            >
+              {savedSearch.name}
+            </Button>
+          </List.Item>
+        )}
+      />
+    </div>
+  )
+
+  return (
+    <Popover
+      trigger="click"
+      placement="bottomRight"
+      title={t('savedSearches.title')}
+      content={content}
+    >
+      <Button
+        type="link"
+        size="small"
+        icon={<StarOutlined/>}
+      >
+        {t('savedSearches.title')}
+      </Button>
+    </Popover>
+  )
+}
+
+
+export default SavedSearches
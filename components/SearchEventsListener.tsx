@@ -1,24 +1,24 @@
-// TODO: use debounce to prevent extra queries
-import { FC, useEffect } from 'react'
+import { FC } from 'react'
 import { useRouter } from 'next/router'
-import { useDispatch } from 'react-redux'
+import { useDispatch, useSelector } from 'react-redux'
+import { useDebounceEffect } from 'ahooks'
 
-import { useMap } from 'react-leaflet'
 import toString from 'lodash/toString'
 import toNumber from 'lodash/toNumber'
 
-import { emptyEntries, fetchEntries } from '../slices/entriesSlice'
-import { emptyEvents, fetchEvents } from '../slices/eventsSlice'
+import { clearEntries, fetchEntries } from '../slices/entriesSlice'
+import { clearEvents, fetchEvents } from '../slices/eventsSlice'
 
-import {
-  convertBBoxToString,
-  convertQueryParamToArray,
-  convertQueryParamToInt,
-  convertQueryParamToString,
-} from '../utils/utils'
-import { SearchEntriesRequest as SearchEntriesRequestDTO } from '../dtos/SearchEntriesRequest'
-import Category, { isEntryCategory } from '../dtos/Categories'
-import { SearchEventsRequest as SearchEventsRequestDTO } from '../dtos/SearchEventsRequest'
+import { BoundingBox } from '../dtos/BoundingBox'
+import { RootState } from '../slices'
+import { mapBBoxSelector, mapZoomSelector } from '../selectors/map'
+import useEnforcedFilters from '../hooks/useEnforcedFilters'
+import { getSearchRequests } from '../utils/search'
+
+
+// moving or zooming the map fires many changes in a row, we search only when they settle down.
+// the requests that are still in flight get superseded by the thunks
+const SEARCH_DEBOUNCE_WAIT = 300
 
 
 const SearchEventsListener: FC = () => {
@@ -26,7 +26,6 @@ const SearchEventsListener: FC = () => {
   const { query } = router
   const {
     search: searchParam,
-    zoom: zoomParam,
     type: typesParam,
     limit: limitParam,
     tag: tagsParam,
@@ -35,9 +34,15 @@ const SearchEventsListener: FC = () => {
   } = query
 
   const dispatch = useDispatch()
-  const map = useMap()
 
-  const bbox = convertBBoxToString(map.getBounds())
+  const bbox: BoundingBox | null = useSelector(
+    (state: RootState) => mapBBoxSelector(state),
+  )
+  const zoom: number = useSelector(
+    (state: RootState) => mapZoomSelector(state),
+  )
+
+  const enforcedFilters = useEnforcedFilters()
 
 
   // changing these variables result in triggering search action
@@ -46,57 +51,45 @@ const SearchEventsListener: FC = () => {
   const searchEffectDependencies = [
     toString(searchParam),
     bbox,
-    toNumber(zoomParam),
+    zoom,
     toString(typesParam),
     toNumber(limitParam),
     toString(tagsParam),
     toNumber(startMin),
     toNumber(startMax),
+    enforcedFilters,
   ]
 
 
   // todo: separate the searching functionalities to a class for reusability
-  useEffect(() => {
-    const searchTerm: string = convertQueryParamToString(searchParam)
-
-    // should not include limit if it's zero or not convertable to a number
-    let limit: number | undefined = convertQueryParamToInt(limitParam)
-    limit = limit !== 0 ? limit : undefined
+  useDebounceEffect(() => {
+    // the map has not reported its bounds yet or the filters of the project are not known yet
+    if (bbox === null || enforcedFilters === null) {
+      return
+    }
 
-    const typesArray = convertQueryParamToArray(typesParam)
+    const { entries: searchEntriesRequestDTO, events: searchEventsRequestDTO } = getSearchRequests(
+      query,
+      bbox,
+      enforcedFilters,
+    )
 
     // search entries
     // if no entry category is there, we should set the entries state to an empty array
-    const entryCategories = typesArray.filter(t => isEntryCategory(t))
-    if (entryCategories.length !== 0) {
-      const searchEntriesRequestDTO: SearchEntriesRequestDTO = {
-        bbox: bbox,
-        text: searchTerm,
-        categories: toString(typesParam),
-        limit: limit,
-        tags: toString(tagsParam),
-      }
+    if (searchEntriesRequestDTO !== null) {
       dispatch(fetchEntries(searchEntriesRequestDTO))
     } else {
-      dispatch(emptyEntries())
+      dispatch(clearEntries())
     }
 
     // search events
-    if (typesArray.includes(Category.EVENT)) {
-      const searchEventsRequestDTO: SearchEventsRequestDTO = {
-        bbox: bbox,
-        text: searchTerm,
-        limit: limit,
-        tag: toString(tagsParam),
-        start_min: toNumber(startMin),
-        start_max: toNumber(startMax),
-      }
+    if (searchEventsRequestDTO !== null) {
       dispatch(fetchEvents(searchEventsRequestDTO))
     } else {
-      dispatch(emptyEvents())
+      dispatch(clearEvents())
     }
 
-  }, searchEffectDependencies)
+  }, searchEffectDependencies, { wait: SEARCH_DEBOUNCE_WAIT })
 
 
   return null
@@ -3,6 +3,7 @@ import { Collapse } from 'antd'
 import TypeChooser from './TypeChooser'
 import SearchTags from './SearchTags'
 import SearchRegion from './SearchRegion'
+import SearchOpenFilter from './SearchOpenFilter'
 
 const { Panel } = Collapse
 
@@ -28,6 +29,8 @@ const SearchFilters: FC<FiltersProps> = (props) => (
 
       <SearchTags/>
 
+      <SearchOpenFilter/>
+
       <SearchRegion/>
 
     </Panel>
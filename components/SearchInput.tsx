@@ -1,44 +1,24 @@
 import { FC, useState } from 'react'
 import { useRouter } from 'next/router'
-import produce from 'immer'
 import { AutoComplete, Input } from 'antd'
 import { useDebounce } from 'ahooks'
-import { convertQueryParamToString, updateRoutingQuery } from '../utils/utils'
+import { convertQueryParamToString } from '../utils/utils'
 import useSearchRecommender from '../hooks/useSearchRecommender'
-import { createSlugPathFromQueryAndRemoveSlug } from '../utils/slug'
+import { Navigation } from '../utils/navigation'
+import useNavigation from '../hooks/useNavigation'
 
 const { Search } = Input
 
 
-const onSearch = (router) => (searchTerm, _event) => {
-  const { query } = router
-
-  const searchURLParamKey = 'search'
-
-  let newQueryParams = updateRoutingQuery(query, { [searchURLParamKey]: searchTerm })
-  // it's an empty string so let's remove the param from the URL
-  // because we have added that from the update so we are sure the key exists
-  if (searchTerm.length === 0) {
-    newQueryParams = produce(newQueryParams, draftState => {
-      delete draftState[searchURLParamKey]
-    })
-  }
-
-  const [newPath, newQueryWithoutSlug] = createSlugPathFromQueryAndRemoveSlug(newQueryParams)
-
-  router.replace(
-    {
-      pathname: `/maps/${newPath}`,
-      query: newQueryWithoutSlug,
-    },
-    undefined,
-    { shallow: true },
-  )
+// an empty search term removes the param from the url
+const onSearch = (navigation: Navigation) => (searchTerm: string) => {
+  navigation.setFilters({ search: searchTerm })
 }
 
 
 const SearchInput: FC = () => {
   const router = useRouter()
+  const navigation = useNavigation()
   const { query } = router
 
   const { dropdowns } = query
@@ -64,7 +44,7 @@ const SearchInput: FC = () => {
         placeholder="input search text"
         allowClear
         enterButton
-        onSearch={onSearch(router)}
+        onSearch={onSearch(navigation)}
         className="primary-btn"
       />
     </AutoComplete>
@@ -0,0 +1,88 @@
+import { FC } from 'react'
+import { useRouter } from 'next/router'
+import useTranslation from 'next-translate/useTranslation'
+import { DatePicker, Radio, Space } from 'antd'
+import moment, { Moment } from 'moment'
+import useNavigation from '../hooks/useNavigation'
+import { convertQueryParamToString } from '../utils/utils'
+import { getOpenFilterDate, OPEN_NOW } from '../utils/openingHours'
+import { OPENING_HOURS } from '../consts/openingHours'
+
+
+enum OpenFilterMode {
+  ANY_TIME = 'anyTime',
+  NOW = 'now',
+  AT = 'at',
+}
+
+
+// the entries that are open now or at the chosen moment, the events are not filtered
+const SearchOpenFilter: FC = () => {
+  const router = useRouter()
+  const navigation = useNavigation()
+
+  const { t } = useTranslation('map')
+
+  const openParam = convertQueryParamToString(router.query.open)
+  const openAt = getOpenFilterDate(openParam, new Date())
+
+  let mode = OpenFilterMode.AT
+  if (openAt === null) {
+    mode = OpenFilterMode.ANY_TIME
+  } else if (openParam === OPEN_NOW) {
+    mode = OpenFilterMode.NOW
+  }
+
+  const changeMode = (newMode: OpenFilterMode) => {
+    switch (newMode) {
+      case OpenFilterMode.ANY_TIME:
+        navigation.setFilters({ open: null })
+        break
+      case OpenFilterMode.NOW:
+        navigation.setFilters({ open: OPEN_NOW })
+        break
+      case OpenFilterMode.AT:
+        navigation.setFilters({ open: moment().add(1, 'hour').startOf('hour').unix() })
+        break
+    }
+  }
+
+  return (
+    <Space
+      wrap
+      style={{
+        marginTop: 8,
+      }}
+    >
+      <Radio.Group
+        size="small"
+        value={mode}
+        onChange={e => changeMode(e.target.value)}
+      >
+        {
+          Object.values(OpenFilterMode).map(openFilterMode => (
+            <Radio.Button key={openFilterMode} value={openFilterMode}>
+              {t(`openFilter.${openFilterMode}`)}
+            </Radio.Button>
+          ))
+        }
+      </Radio.Group>
+
+      {
+        mode === OpenFilterMode.AT && (
+          <DatePicker
+            size="small"
+            showTime={{ format: OPENING_HOURS.timeFormat, minuteStep: OPENING_HOURS.minuteStep }}
+            format={`DD.MM.YYYY ${OPENING_HOURS.timeFormat}`}
+            allowClear={false}
+            value={moment(openAt)}
+            onChange={(date: Moment) => navigation.setFilters({ open: date.unix() })}
+          />
+        )
+      }
+    </Space>
+  )
+}
+
+
+export default SearchOpenFilter
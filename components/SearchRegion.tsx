@@ -1,22 +1,18 @@
 import { FC, useState } from 'react'
+import { useDispatch } from 'react-redux'
 import { useDebounce } from 'ahooks'
 import { Select } from 'antd'
 import useRegionRecommender from '../hooks/useRegionRecommender'
-import { NextRouter, useRouter } from 'next/router'
-import { convertQueryParamToString, convertStringToFloat, updateRoutingQuery } from '../utils/utils'
+import { useRouter } from 'next/router'
+import { convertQueryParamToString, convertStringToFloat } from '../utils/utils'
 import { GeoLocations } from '../dtos/GeoLocatoinResponse'
 import { AxiosInstance } from '../api'
 import API_ENDPOINTS from '../api/endpoints'
-import toString from 'lodash/toString'
-import { createSlugPathFromQueryAndRemoveSlug } from '../utils/slug'
+import { AppDispatch } from '../store'
+import { MapCenter, setCenter } from '../slices/mapSlice'
 
 
-interface Center {
-  lat: number
-  lng: number
-}
-
-const fetchLocationFromRegionName = async (regionName: string): Promise<Center> => {
+const fetchLocationFromRegionName = async (regionName: string): Promise<MapCenter> => {
   // todo: catch error if the region api did not responded successfully
   const regionLookupResponse =
     await AxiosInstance.GetRequest<GeoLocations>(
@@ -44,28 +40,11 @@ const fetchLocationFromRegionName = async (regionName: string): Promise<Center>
   }
 }
 
-const changeLatAndLngFromRegionName = (router: NextRouter) => async (regionName: string) => {
+const changeCenterFromRegionName = (dispatch: AppDispatch) => async (regionName: string) => {
   try {
     const regionCenter = await fetchLocationFromRegionName(regionName)
 
-    const paramsToUpdate = {
-      lat: toString(regionCenter.lat),
-      lng: toString(regionCenter.lng),
-    }
-
-    const { query } = router
-    const newQueryParams = updateRoutingQuery(query, paramsToUpdate)
-    const [newPath, newQueryWithoutSlug] = createSlugPathFromQueryAndRemoveSlug(newQueryParams)
-
-    router.replace(
-      {
-        pathname: `/maps/${newPath}`,
-        query: newQueryWithoutSlug,
-      },
-      undefined,
-      { shallow: true },
-    )
-
+    dispatch(setCenter(regionCenter))
   } catch (e) {
 
   }
@@ -75,6 +54,8 @@ const SearchRegion: FC = () => {
   const router = useRouter()
   const { query } = router
 
+  const dispatch = useDispatch()
+
   const { dropdowns } = query
   const regionsGroup = convertQueryParamToString(dropdowns, 'main')
 
@@ -94,7 +75,7 @@ const SearchRegion: FC = () => {
       onSearch={(term: string) => {
         setRegionNameToSearch(term)
       }}
-      onSelect={changeLatAndLngFromRegionName(router)}
+      onSelect={changeCenterFromRegionName(dispatch)}
       onClear={() => {
         setRegionNameToSearch('')
       }}
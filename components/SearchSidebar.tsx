@@ -2,6 +2,10 @@ import { FC, Fragment } from 'react'
 
 import ResultList from './ResultList'
 import SearchControllers from './SearchControllers'
+import SearchStatus from './SearchStatus'
+import FeedSubscription from './FeedSubscription'
+import SavedSearches from './SavedSearches'
+import ShortLinkShare from './ShortLinkShare'
 
 
 const SearchSidebar: FC = (_props) => {
@@ -10,7 +14,23 @@ const SearchSidebar: FC = (_props) => {
 
       <SearchControllers/>
 
-      <div style={{ flexGrow: 1 }}>
+      <SearchStatus/>
+
+      <div style={{ textAlign: 'right' }}>
+        <SavedSearches/>
+
+        <ShortLinkShare/>
+
+        <FeedSubscription/>
+      </div>
+
+      <div
+        style={{
+          flexGrow: 1,
+          display: 'flex',
+          flexDirection: 'column',
+        }}
+      >
         <ResultList/>
       </div>
     </Fragment>
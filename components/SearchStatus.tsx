@@ -0,0 +1,62 @@
+import { FC } from 'react'
+import { useDispatch, useSelector } from 'react-redux'
+import { Alert, Button, Spin } from 'antd'
+import useTranslation from 'next-translate/useTranslation'
+import { RootState } from '../slices'
+import { AppDispatch } from '../store'
+import { hasSearchErrorSelector, isSearchLoadingSelector } from '../selectors/searchResults'
+import { refetchEntries } from '../slices/entriesSlice'
+import { refetchEvents } from '../slices/eventsSlice'
+
+
+const retrySearch = (dispatch: AppDispatch) => () => {
+  // the thunks know the last failed requests and skip if there was none
+  dispatch(refetchEntries())
+  dispatch(refetchEvents())
+}
+
+
+const SearchStatus: FC = () => {
+  const dispatch = useDispatch()
+
+  const { t } = useTranslation('map')
+
+  const isLoading: boolean = useSelector(
+    (state: RootState) => isSearchLoadingSelector(state),
+  )
+  const hasError: boolean = useSelector(
+    (state: RootState) => hasSearchErrorSelector(state),
+  )
+
+  if (hasError) {
+    return (
+      <Alert
+        type="error"
+        showIcon
+        message={t('io-error.message')}
+        action={
+          <Button
+            size="small"
+            danger
+            onClick={retrySearch(dispatch)}
+          >
+            {t('io-error.retry')}
+          </Button>
+        }
+      />
+    )
+  }
+
+  if (isLoading) {
+    return (
+      <div style={{ textAlign: 'center' }}>
+        <Spin size="small" tip={t('resultlist.entriesLoading')}/>
+      </div>
+    )
+  }
+
+  return null
+}
+
+
+export default SearchStatus
@@ -1,69 +1,30 @@
 import React, { FC, Fragment, useEffect, useState } from 'react'
 import { NextRouter, useRouter } from 'next/router'
-import produce from 'immer'
-import { convertQueryParamToArray, removeRoutingQueryParams, updateRoutingQuery } from '../utils/utils'
+import { Space, Tag } from 'antd'
+import { LockOutlined } from '@ant-design/icons'
+import { convertQueryParamToArray } from '../utils/utils'
 import TagsSelect from './TagsSelect'
-import { createSlugPathFromQueryAndRemoveSlug } from '../utils/slug'
+import { Navigation } from '../utils/navigation'
+import useNavigation from '../hooks/useNavigation'
+import useEnforcedFilters from '../hooks/useEnforcedFilters'
 
 
-const searchTag = (router: NextRouter) => (tag: string) => {
-  const { query } = router
-  const { tag: optionalTagsFromQuery } = query
-  const optionalTags = convertQueryParamToArray(optionalTagsFromQuery)
+const searchTag = (router: NextRouter, navigation: Navigation) => (tag: string) => {
+  const optionalTags = convertQueryParamToArray(router.query.tag)
 
-  const newQueryParams = updateRoutingQuery(query, { tag: [...optionalTags, tag] })
-  const [newPath, newQueryWithoutSlug] = createSlugPathFromQueryAndRemoveSlug(newQueryParams)
-
-  router.replace(
-    {
-      pathname: `/maps/${newPath}`,
-      query: newQueryWithoutSlug,
-    },
-    undefined,
-    { shallow: true },
-  )
+  navigation.setFilters({ tag: [...optionalTags, tag] })
 }
 
 
-const removeAllTagsFromRouter = (router: NextRouter) => () => {
-  const { query } = router
-  const newQueryParams = removeRoutingQueryParams(query, ['tag'])
-  const [newPath, newQueryWithoutSlug] = createSlugPathFromQueryAndRemoveSlug(newQueryParams)
-
-  router.replace(
-    {
-      pathname: `/maps/${newPath}`,
-      query: newQueryWithoutSlug,
-    },
-    undefined,
-    { shallow: true },
-  )
+const removeAllTagsFromRouter = (navigation: Navigation) => () => {
+  navigation.setFilters({ tag: null })
 }
 
 
-const removeTagFromRouter = (router: NextRouter) => (tagToRemove: string) => {
-  const { query } = router
-  const { tag: optoinalTagsFromQuery } = query
-  const optionalTags = convertQueryParamToArray(optoinalTagsFromQuery)
-
-  const newTagsParameter = produce(optionalTags, draft => {
-    const indexOfTagToRemove = draft.indexOf(tagToRemove)
-    if (indexOfTagToRemove !== -1) {
-      draft.splice(indexOfTagToRemove, 1)
-    }
-  })
-
-  const newQueryParams = updateRoutingQuery(query, { tag: newTagsParameter })
-  const [newPath, newQueryWithoutSlug] = createSlugPathFromQueryAndRemoveSlug(newQueryParams)
-
-  router.replace(
-    {
-      pathname: `/maps/${newPath}`,
-      query: newQueryWithoutSlug,
-    },
-    undefined,
-    { shallow: true },
-  )
+const removeTagFromRouter = (router: NextRouter, navigation: Navigation) => (tagToRemove: string) => {
+  const optionalTags = convertQueryParamToArray(router.query.tag)
+
+  navigation.setFilters({ tag: optionalTags.filter(tag => tag !== tagToRemove) })
 }
 
 
@@ -75,9 +36,38 @@ const SearchTags: FC = (_props) => {
   }, [])
 
   const router = useRouter()
+  const navigation = useNavigation()
+
+  // the tags of the project or the iframe apply to every search and can not be removed
+  const enforcedFilters = useEnforcedFilters()
+  const fixedTags = enforcedFilters !== null ? enforcedFilters.fixedTags : []
+
+  // the tags of the url are shown in the select, also the ones that were picked from the suggestions
+  const optionalTags = convertQueryParamToArray(router.query.tag)
 
   return (
     <Fragment>
+      {fixedTags.length !== 0 && (
+        <Space
+          size={[0, 4]}
+          wrap
+          style={{
+            marginTop: 8,
+          }}
+        >
+          {
+            fixedTags.map(tag => (
+              <Tag
+                key={`fixed-tag-${tag}`}
+                icon={<LockOutlined/>}
+                closable={false}
+              >
+                {tag}
+              </Tag>
+            ))
+          }
+        </Space>
+      )}
       {showSelect && (
         <div
           style={{
@@ -86,9 +76,10 @@ const SearchTags: FC = (_props) => {
         >
           <TagsSelect
             placeholder="Search for tags"
-            onSelect={searchTag(router)}
-            onDeselect={removeTagFromRouter(router)}
-            onClear={removeAllTagsFromRouter(router)}
+            value={optionalTags}
+            onSelect={searchTag(router, navigation)}
+            onDeselect={removeTagFromRouter(router, navigation)}
+            onClear={removeAllTagsFromRouter(navigation)}
           />
         </div>
       )}
@@ -0,0 +1,85 @@
+import { FC, useState } from 'react'
+import { useRouter } from 'next/router'
+import useTranslation from 'next-translate/useTranslation'
+import { Alert, Button, Popover, Spin, Typography } from 'antd'
+import { ShareAltOutlined } from '@ant-design/icons'
+import { AxiosInstance } from '../api'
+import API_ENDPOINTS from '../api/endpoints'
+import { getShortLinkPath } from '../utils/shortLink'
+
+
+const { Text } = Typography
+
+
+interface ShortLinkResponse {
+  code: string
+}
+
+const fetchShortLink = async (path: string): Promise<string> => {
+  const response = await AxiosInstance.PostRequest<ShortLinkResponse>(
+    API_ENDPOINTS.postShortLink(),
+    { path },
+  )
+  const { code } = AxiosInstance.GetSuccessData(response)
+
+  return `${window.location.origin}${getShortLinkPath(code)}`
+}
+
+
+// the urls of the map carry the whole view and get too long for the messengers
+const ShortLinkShare: FC = () => {
+  const router = useRouter()
+
+  const { t } = useTranslation('map')
+
+  const [shortLink, setShortLink] = useState<string | null>(null)
+  const [hasError, setHasError] = useState<boolean>(false)
+
+  // the view changes while the popover is closed, so the link is requested on every opening
+  const onVisibleChange = async (isVisible: boolean) => {
+    if (!isVisible) {
+      return
+    }
+
+    setShortLink(null)
+    setHasError(false)
+    try {
+      setShortLink(await fetchShortLink(router.asPath))
+    } catch (e) {
+      setHasError(true)
+    }
+  }
+
+  const renderContent = () => {
+    if (hasError) {
+      return <Alert type="error" message={t('shortLink.error')}/>
+    }
+
+    if (shortLink === null) {
+      return <Spin size="small"/>
+    }
+
+    return <Text copyable>{shortLink}</Text>
+  }
+
+  return (
+    <Popover
+      trigger="click"
+      placement="bottomRight"
+      title={t('shortLink.title')}
+      content={renderContent()}
+      onVisibleChange={onVisibleChange}
+    >
+      <Button
+        type="link"
+        size="small"
+        icon={<ShareAltOutlined/>}
+      >
+        {t('share')}
+      </Button>
+    </Popover>
+  )
+}
+
+
+export default ShortLinkShare
@@ -2,10 +2,10 @@ import { Dispatch, FC, useState } from 'react'
 import { NextRouter, useRouter } from 'next/router'
 import SidebarContent from './SidebarContent'
 import { Layout } from 'antd'
-import toString from 'lodash/toString'
-import { convertQueryParamToBoolean, updateRoutingQuery } from '../utils/utils'
+import { convertQueryParamToBoolean } from '../utils/utils'
 import { isRouterInitialized } from '../utils/router'
-import { createSlugPathFromQueryAndRemoveSlug } from '../utils/slug'
+import { Navigation } from '../utils/navigation'
+import useNavigation from '../hooks/useNavigation'
 
 
 const { Sider } = Layout
@@ -28,49 +28,18 @@ export enum SidebarState {
 }
 
 
-const setSidebarState = (router: NextRouter, sidebarOpenState: SidebarState) => {
-  const { query } = router
-
-  const newQueryParams = updateRoutingQuery(query, {
-    isSidebarOpen: toString(Boolean(sidebarOpenState)),
-  })
-  const [newPath, newQueryWithoutSlug] = createSlugPathFromQueryAndRemoveSlug(newQueryParams)
-
-  router.replace(
-    {
-      pathname: `/maps/${newPath}`,
-      query: newQueryWithoutSlug,
-    },
-    undefined,
-    { shallow: true },
-  )
-}
-
-export const closeSidebar = (router: NextRouter) => {
-  setSidebarState(router, SidebarState.Close)
-}
-
-export const openSidebar = (router: NextRouter) => {
-  setSidebarState(router, SidebarState.Open)
-}
-
-const toggleSidebarState = (router: NextRouter, isSidebarOpen: boolean) => {
+const toggleSidebarState = (router: NextRouter, navigation: Navigation, isSidebarOpen: boolean) => {
   if (!isRouterInitialized(router)) {
     return
   }
 
-  if (isSidebarOpen) {
-    closeSidebar(router)
-
-    return
-  }
-
-  openSidebar(router)
+  navigation.setSidebarOpen(!isSidebarOpen)
 }
 
 
 const Sidebar: FC = () => {
   const router = useRouter()
+  const navigation = useNavigation()
   const {
     query: {
       isSidebarOpen: isSidebarOpenParam,
@@ -89,7 +58,7 @@ const Sidebar: FC = () => {
       theme="light"
       collapsible
       collapsed={!isSidebarOpen}
-      onCollapse={() => toggleSidebarState(router, isSidebarOpen)}
+      onCollapse={() => toggleSidebarState(router, navigation, isSidebarOpen)}
       width={sidebarWidth}
       collapsedWidth={32}
       style={{
@@ -1,8 +1,9 @@
-import React, { FC, useState } from 'react'
+import React, { FC, Fragment, useState } from 'react'
 import { Select, SelectProps } from 'antd'
 import { useDebounce } from 'ahooks'
 import useTagMatcher from '../hooks/useTagMatcher'
 import { MostPopularTagsParams } from '../pages/api/v0/entries/most-popular-tags'
+import RelatedTags from './RelatedTags'
 
 
 const { Option } = Select
@@ -16,6 +17,9 @@ const TagsSelect: FC<SelectProps<any>> = (props) => {
     onDeselect: onDeselectCallback,
     onClear: onClearCallback,
     placeholder,
+    // given by the form items and the filters, the select does not keep its own tags then
+    value,
+    onChange,
   } = props
 
   const [tokenToMatchTagsWith, setTokenToMatchTagsWith] = useState<string>('')
@@ -26,43 +30,62 @@ const TagsSelect: FC<SelectProps<any>> = (props) => {
   }
   const { data: matchedTagsWithFrequency } = useTagMatcher(tagMatcherParams)
 
+  const selectedTags: string[] = value || []
+
+  const onSelectRelatedTag = (tag: string) => {
+    if (onChange) {
+      onChange([...selectedTags, tag], [])
+    }
+
+    onSelectCallback(tag, null)
+  }
+
 
   return (
-    <Select
-      mode="tags"
-      allowClear
-      style={{ width: '100%' }}
-      placeholder={placeholder}
-      onSearch={(input) => {
-        setTokenToMatchTagsWith(input)
-        onSearchCallback(input)
-      }}
-      onSelect={(value, option) => {
-        setTokenToMatchTagsWith('')
-        onSelectCallback(value, option)
-      }}
-      onDeselect={(value, option) => {
-        setTokenToMatchTagsWith('')
-        onDeselectCallback(value, option)
-      }}
-      onClear={() => {
-        setTokenToMatchTagsWith('')
-        onClearCallback()
-      }}
-    >
-      {
-        matchedTagsWithFrequency && (
-          matchedTagsWithFrequency.map(tagWithFrequency => (
-            <Option
-              key={`tag-input-${tagWithFrequency.tag}`}
-              value={tagWithFrequency.tag}
-            >
-              {tagWithFrequency.tag}
-            </Option>
-          ))
-        )
-      }
-    </Select>
+    <Fragment>
+      <Select
+        mode="tags"
+        allowClear
+        style={{ width: '100%' }}
+        placeholder={placeholder}
+        value={value}
+        onChange={onChange}
+        onSearch={(input) => {
+          setTokenToMatchTagsWith(input)
+          onSearchCallback(input)
+        }}
+        onSelect={(value, option) => {
+          setTokenToMatchTagsWith('')
+          onSelectCallback(value, option)
+        }}
+        onDeselect={(value, option) => {
+          setTokenToMatchTagsWith('')
+          onDeselectCallback(value, option)
+        }}
+        onClear={() => {
+          setTokenToMatchTagsWith('')
+          onClearCallback()
+        }}
+      >
+        {
+          matchedTagsWithFrequency && (
+            matchedTagsWithFrequency.map(tagWithFrequency => (
+              <Option
+                key={`tag-input-${tagWithFrequency.tag}`}
+                value={tagWithFrequency.tag}
+              >
+                {tagWithFrequency.tag}
+              </Option>
+            ))
+          )
+        }
+      </Select>
+
+      <RelatedTags
+        tags={selectedTags}
+        onSelect={onSelectRelatedTag}
+      />
+    </Fragment>
   )
 }
 
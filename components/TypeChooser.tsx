@@ -2,9 +2,12 @@ import { FC } from 'react'
 
 import { Col, Row, Tag } from 'antd'
 import Category from '../dtos/Categories'
-import { NextRouter, useRouter } from 'next/router'
-import { convertQueryParamToArray, updateRoutingQuery } from '../utils/utils'
-import { createSlugPathFromQueryAndRemoveSlug } from '../utils/slug'
+import { useRouter } from 'next/router'
+import { convertQueryParamToArray } from '../utils/utils'
+import { Navigation } from '../utils/navigation'
+import useNavigation from '../hooks/useNavigation'
+import useEnforcedFilters from '../hooks/useEnforcedFilters'
+import { getAllowedCategories } from '../utils/filters'
 
 const { CheckableTag } = Tag
 
@@ -35,18 +38,17 @@ const handleChange = (
   typeId: Category,
   checked: boolean,
   selectedTypes: Category[],
-  router: NextRouter,
+  allowedTypes: Type[],
+  navigation: Navigation,
 ) => {
 
-  const { query } = router
-
   let nextSelectedTypes = [] as Category[]
-  if (selectedTypes.length === types.length) {
+  if (selectedTypes.length === allowedTypes.length) {
     // if all are selected -> disable others
     nextSelectedTypes = [typeId]
   } else if (selectedTypes.length === 1 && selectedTypes[0] === typeId) {
     // if this type is the only active type -> select all types to prevent non-selection
-    nextSelectedTypes = types.map(type => type.id)
+    nextSelectedTypes = allowedTypes.map(type => type.id)
   } else {
     // everything is normal
     if (checked) {
@@ -56,36 +58,34 @@ const handleChange = (
     }
   }
 
-  const newQueryParams = updateRoutingQuery(query, { type: nextSelectedTypes })
-  const [newPath, newQueryWithoutSlug] = createSlugPathFromQueryAndRemoveSlug(newQueryParams)
-
-  router.replace(
-    {
-      pathname: `/maps/${newPath}`,
-      query: newQueryWithoutSlug,
-    },
-    undefined,
-    { shallow: true },
-  )
+  navigation.setFilters({ type: nextSelectedTypes })
 }
 
 
 const TypeChooser: FC = () => {
   const router = useRouter()
+  const navigation = useNavigation()
   const { query } = router
   const { type: typesParam } = query
-  let selectedTypes = convertQueryParamToArray(typesParam) as Category[]
+
+  // the projects and the iframes can limit the categories
+  const enforcedFilters = useEnforcedFilters()
+  const allowedCategories = enforcedFilters !== null ? getAllowedCategories(enforcedFilters) : types.map(t => t.id)
+  const allowedTypes = types.filter(type => allowedCategories.includes(type.id))
+
+  const selectedTypes = (convertQueryParamToArray(typesParam) as Category[])
+    .filter(typeId => allowedCategories.includes(typeId))
 
   return (
     <Row gutter={8}>
-      {types.map(type => {
+      {allowedTypes.map(type => {
         const isChecked = selectedTypes.indexOf(type.id) > -1
         return (
-          <Col key={type.id} span={8}>
+          <Col key={type.id} span={24 / allowedTypes.length}>
             <CheckableTag
               className={isChecked && `${type.name}-tag`}
               checked={isChecked}
-              onChange={checked => handleChange(type.id, checked, selectedTypes, router)}
+              onChange={checked => handleChange(type.id, checked, selectedTypes, allowedTypes, navigation)}
               style={{
                 width: '100%',
                 textAlign: 'center',
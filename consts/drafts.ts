@@ -0,0 +1,11 @@
+export const DRAFTS = {
+  keyPrefix: 'draft',
+  // the drafts are saved while typing but not on every key stroke
+  saveDelay: 500,
+  // the older drafts are probably forgotten and would only confuse
+  maxAgeInDays: 30,
+  // the new entries and events are placed by the pin on the map, an old place would cover the new one
+  locationFields: ['lat', 'lng', 'country', 'city', 'state', 'street', 'zip'],
+  // the edited entries and events are saved on top of their current version, never the one of the draft
+  versionFields: ['id', 'version'],
+}
@@ -0,0 +1,17 @@
+export const DUPLICATES = {
+  // the entries within this distance of the pin are compared to the new one, in meters
+  searchRadius: 1000,
+  searchLimit: 50,
+  // closer than this it's most likely the same building, in meters
+  closeDistance: 30,
+  // the titles below this trigram similarity do not count at all
+  minTitleSimilarity: 0.4,
+  // a matching homepage or email is enough on its own, a close pin only together with a similar title
+  weights: {
+    title: 0.6,
+    homepage: 0.6,
+    email: 0.6,
+    location: 0.4,
+  },
+  minScore: 0.6,
+}
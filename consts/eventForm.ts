@@ -0,0 +1,8 @@
+// the rules of the event form, the imported events are checked with the same ones before they are sent
+export const EVENT_FORM = {
+  titleMinLength: 3,
+  descriptionMinLength: 10,
+  descriptionMaxLength: 250,
+  // the events are only published under this license, the checkbox of the form sends it as a list
+  license: 'CC0-1.0',
+}
@@ -0,0 +1,10 @@
+export const FEED = {
+  itemsPerFeed: 50,
+  // the search of the backend is ordered by the ratings, the new entries are picked among the recently changed ones
+  // of all the maps instead, they are ordered by their last change
+  recentlyChangedLimit: 1000,
+  newEntriesMaxAgeInDays: 30,
+  defaultTitle: 'Karte von morgen',
+  // the feeds are cached for all the readers of the same view, the readers are told to keep them as long
+  cacheLifetimeInSeconds: 10 * 60,
+}
@@ -0,0 +1,10 @@
+export const ICAL = {
+  productId: '-//Karte von morgen//Events//EN',
+  // the uid of the events has to be globally unique, so the ids are scoped by the domain
+  uidDomain: 'kartevonmorgen.org',
+  defaultCalendarName: 'Karte von morgen',
+  // rfc 5545 limits the lines to 75 octets without the line break
+  maxLineLength: 75,
+  // the backend identifies the events by uuids in their simple form
+  eventIdPattern: /^[0-9a-f]{32}$/i,
+}
@@ -2,6 +2,15 @@ export const MAP_ROUTING = {
   dynamicParams: ['project'],
 }
 
+export const MAP_CLUSTER = {
+  // in pixels
+  radius: 60,
+  spiderfyRadius: 40,
+  // the tile server does not serve tiles above this zoom, so the markers that are still
+  // clustered there share (almost) the same coordinates and get spiderfied instead
+  maxZoom: 18,
+}
+
 
 export default {
   precisions: {
@@ -9,4 +18,10 @@ export default {
     lng: 7,
     zoom: 2,
   },
-}
\ No newline at end of file
+  // the viewport in the url does not need to be as precise as the coordinates of the entities
+  urlPrecisions: {
+    lat: 4,
+    lng: 4,
+    zoom: 2,
+  },
+}
@@ -0,0 +1,11 @@
+export const OEMBED = {
+  providerName: 'Karte von morgen',
+  // the size of the card when the consumer does not ask for a maximum
+  defaultWidth: 400,
+  defaultHeight: 480,
+  // below it the card can not show the image and the mini map anymore
+  minWidth: 240,
+  minHeight: 320,
+  // the crawlers of the consumers fetch the same link over and over
+  cacheLifetimeInSeconds: 60 * 60,
+}
@@ -0,0 +1,28 @@
+import { nominatim_object } from 'opening_hours'
+
+
+export const OPENING_HOURS = {
+  // the public holidays can only be evaluated for a country, most of the entries are in germany
+  defaultNominatim: {
+    lat: 51.1657,
+    lon: 10.4515,
+    address: {
+      country_code: 'de',
+      state: '',
+    },
+  } as nominatim_object,
+  timeFormat: 'HH:mm',
+  minuteStep: 15,
+  // the shift a day starts with when it's opened in the editor
+  defaultSpan: {
+    start: '09:00',
+    end: '18:00',
+  },
+}
+
+export const OPEN_FILTER = {
+  // the search results do not have the opening hours, the details of the entries are fetched in batches
+  entriesPerRequest: 50,
+  // the results that may be open
+  unknownOpacity: 0.45,
+}
@@ -0,0 +1,7 @@
+// the project every unknown project falls back to, it has all the files a project can have
+export const DEFAULT_PROJECT = 'main'
+
+export const PROJECT_FILES = {
+  config: 'config.json',
+  burgerMenu: 'burger-menu.json',
+}
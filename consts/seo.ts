@@ -0,0 +1,4 @@
+export const SEO = {
+  // the address of the production server, for the deployments that do not set PUBLIC_ORIGIN
+  defaultPublicOrigin: 'https://ssr.kartevonmorgen.org',
+}
@@ -0,0 +1,27 @@
+export const SHORT_LINK = {
+  codeLength: 7,
+  // url safe and 64 characters long, so every random byte maps to one character without a bias
+  codeAlphabet: '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz-_',
+  // a new random code is drawn when the previous one is taken
+  maxCodeAttempts: 5,
+  basePath: '/s',
+}
+
+// the params that describe a view, the others are dropped from the short links
+export const VIEW_PARAMS = [
+  'lat',
+  'lng',
+  'zoom',
+  'type',
+  'tag',
+  'search',
+  'start_min',
+  'start_max',
+  'open',
+  'isSidebarOpen',
+  'fixedTags',
+  'orgTag',
+  'allowedCategories',
+]
+
+export const SAVED_SEARCHES_STORAGE_KEY = 'kvm-saved-searches'
@@ -0,0 +1,13 @@
+export const SITEMAP = {
+  // the protocol allows up to 50000 urls per sitemap, smaller files are friendlier to the crawlers
+  urlsPerSitemap: 10000,
+  // the search of the backend returns at most this many results,
+  // the areas that reach it are split into quarters and searched again
+  searchLimit: 2000,
+  maxBBoxSplitDepth: 8,
+  // the full entries carry the dates and are fetched in batches of ids
+  entriesPerRequest: 100,
+  // for the projects without an area in their config
+  defaultBBox: '-90,-180,90,180',
+  cacheLifetimeInSeconds: 24 * 60 * 60,
+}
@@ -0,0 +1,24 @@
+export const TAG_SEARCH = {
+  // the fts index finds the candidates, they are ranked again with their frequencies
+  candidatesLimit: 200,
+  weights: {
+    similarity: 2,
+    prefix: 1,
+    exact: 1,
+    frequency: 0.5,
+  },
+}
+
+// the umlauts are written in both ways and the compound tags with and without hyphens
+export const TAG_FOLDINGS: [string, string][] = [
+  ['ä', 'ae'],
+  ['ö', 'oe'],
+  ['ü', 'ue'],
+  ['Ä', 'ae'],
+  ['Ö', 'oe'],
+  ['Ü', 'ue'],
+  ['ß', 'ss'],
+  ['-', ''],
+  ['_', ''],
+  [' ', ''],
+]
@@ -0,0 +1,31 @@
+import { ProjectTheme } from '../dtos/ProjectTheme'
+import {
+  COMPANY_COLOR,
+  EVENT_COLOR,
+  INITIATIVE_COLOR,
+  PRIMARY_BORDER_COLOR,
+  PRIMARY_COLOR,
+  PRIMARY_HOVER_BORDER_COLOR,
+  PRIMARY_HOVER_COLOR,
+  UNKNOWN_COLOR,
+} from '../styles/main'
+
+
+export const DEFAULT_THEME: ProjectTheme = {
+  primaryColor: PRIMARY_COLOR,
+  primaryBorderColor: PRIMARY_BORDER_COLOR,
+  primaryHoverColor: PRIMARY_HOVER_COLOR,
+  primaryHoverBorderColor: PRIMARY_HOVER_BORDER_COLOR,
+  pins: {
+    initiative: '/projects/main/pins/balloon_initiative.svg',
+    company: '/projects/main/pins/balloon_company.svg',
+    event: '/projects/main/pins/balloon_event.svg',
+    unknown: '/projects/main/pins/balloon_unknown.svg',
+  },
+  accentColors: {
+    initiative: INITIATIVE_COLOR,
+    company: COMPANY_COLOR,
+    event: EVENT_COLOR,
+    unknown: UNKNOWN_COLOR,
+  },
+}
@@ -1,32 +1,60 @@
-import sqlite3 from 'sqlite3'
-
-
-const DB_PATH = `./db/${process.env.DB_NAME}`
-
-
-let db = new sqlite3.Database(DB_PATH, (err) => {
-  if (err) {
-    // Cannot open database
-    console.error(err.message)
-    throw err
-  } else {
-    console.log(`connected to db: ${DB_PATH}`)
-    db.run(`CREATE TABLE tag_frequency (
-            tag VARCHAR NOT NULL,
-            frequency INTEGER,
-            PRIMARY KEY (tag)
-            )`,
-      (err) => {
-        if (err) {
-          // Table already created
-        } else {
-          // Table just created, creating some rows
-          const insert = 'INSERT INTO tag_frequency (tag, frequency) VALUES (?,?)'
-          db.run(insert, ['testfromfront', 1])
-        }
-      })
-  }
+import sqlite3, { Database } from 'sqlite3'
+import { all, enqueue, get, QueryParams, run, transaction, TransactionQueries } from './query'
+import { migrate } from './migrate'
+import migrations from './migrations'
+
+
+// the tests get a fresh database that is gone after them
+const DB_PATH = process.env.NODE_ENV === 'test' ? ':memory:' : `./db/${process.env.DB_NAME}`
+
+
+const openDatabase = (path: string): Promise<Database> => (
+  new Promise<Database>((resolve, reject) => {
+    const database = new sqlite3.Database(path, (err) => {
+      if (err) {
+        // Cannot open database
+        console.error(err.message)
+        reject(err)
+
+        return
+      }
+
+      console.log(`connected to db: ${path}`)
+      resolve(database)
+    })
+  })
+)
+
+// the queries wait until the schema is up to date
+const database: Promise<Database> = openDatabase(DB_PATH).then(async (openedDatabase) => {
+  await migrate(openedDatabase, migrations)
+
+  return openedDatabase
 })
 
 
-export default db
\ No newline at end of file
+// the single statements wait for the transactions of the other requests to end
+const db = {
+  all: async <T>(sql: string, params?: QueryParams): Promise<T[]> => {
+    const openedDatabase = await database
+
+    return enqueue(openedDatabase, () => all<T>(openedDatabase, sql, params))
+  },
+  get: async <T>(sql: string, params?: QueryParams): Promise<T | null> => {
+    const openedDatabase = await database
+
+    return enqueue(openedDatabase, () => get<T>(openedDatabase, sql, params))
+  },
+  run: async (sql: string, params?: QueryParams) => {
+    const openedDatabase = await database
+
+    return enqueue(openedDatabase, () => run(openedDatabase, sql, params))
+  },
+  // the statements of the callback have to use the given queries, the ones of db would wait for the transaction
+  transaction: async <T>(callback: (queries: TransactionQueries) => Promise<T>): Promise<T> => (
+    transaction(await database, callback)
+  ),
+}
+
+
+export default db
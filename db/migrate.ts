@@ -0,0 +1,54 @@
+import { Database } from 'sqlite3'
+import moment from 'moment'
+import { all, run, transaction } from './query'
+import { Migration } from './migrations/types'
+
+
+interface AppliedMigration {
+  id: number
+}
+
+
+export const getPendingMigrations = (migrations: Migration[], appliedIds: number[]): Migration[] => {
+  const ids = migrations.map(migration => migration.id)
+  if (new Set(ids).size !== ids.length) {
+    throw new Error(`duplicate migration ids: ${ids.join(', ')}`)
+  }
+
+  return migrations
+    .filter(migration => !appliedIds.includes(migration.id))
+    .sort((a, b) => a.id - b.id)
+}
+
+// every migration runs in its own transaction together with its record in schema_migration
+export const migrate = async (database: Database, migrations: Migration[]): Promise<Migration[]> => {
+  await run(
+    database,
+    `CREATE TABLE IF NOT EXISTS schema_migration (
+      id INTEGER NOT NULL,
+      name VARCHAR NOT NULL,
+      applied_at INTEGER NOT NULL,
+      PRIMARY KEY (id)
+    )`,
+  )
+
+  const appliedMigrations = await all<AppliedMigration>(database, 'SELECT id FROM schema_migration')
+  const pendingMigrations = getPendingMigrations(migrations, appliedMigrations.map(m => m.id))
+
+  for (const migration of pendingMigrations) {
+    await transaction(database, async (queries) => {
+      for (const statement of migration.up) {
+        await queries.run(statement)
+      }
+
+      await queries.run(
+        'INSERT INTO schema_migration (id, name, applied_at) VALUES (?,?,?)',
+        [migration.id, migration.name, moment().unix()],
+      )
+    })
+
+    console.log(`applied migration: ${migration.id}-${migration.name}`)
+  }
+
+  return pendingMigrations
+}
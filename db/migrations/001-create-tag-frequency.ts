@@ -0,0 +1,18 @@
+import { Migration } from './types'
+
+
+// the databases from before the migrations already have the table
+const migration: Migration = {
+  id: 1,
+  name: 'create-tag-frequency',
+  up: [
+    `CREATE TABLE IF NOT EXISTS tag_frequency (
+      tag VARCHAR NOT NULL,
+      frequency INTEGER,
+      PRIMARY KEY (tag)
+    )`,
+  ],
+}
+
+
+export default migration
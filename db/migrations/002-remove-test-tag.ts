@@ -0,0 +1,14 @@
+import { Migration } from './types'
+
+
+// the table used to be seeded with a row for testing
+const migration: Migration = {
+  id: 2,
+  name: 'remove-test-tag',
+  up: [
+    `DELETE FROM tag_frequency WHERE tag = 'testfromfront'`,
+  ],
+}
+
+
+export default migration
@@ -0,0 +1,19 @@
+import { Migration } from './types'
+
+
+const migration: Migration = {
+  id: 3,
+  name: 'create-sitemap-cache',
+  up: [
+    `CREATE TABLE IF NOT EXISTS sitemap_cache (
+      project VARCHAR NOT NULL,
+      name VARCHAR NOT NULL,
+      content TEXT NOT NULL,
+      created_at INTEGER NOT NULL,
+      PRIMARY KEY (project, name)
+    )`,
+  ],
+}
+
+
+export default migration
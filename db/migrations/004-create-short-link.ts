@@ -0,0 +1,18 @@
+import { Migration } from './types'
+
+
+const migration: Migration = {
+  id: 4,
+  name: 'create-short-link',
+  up: [
+    `CREATE TABLE IF NOT EXISTS short_link (
+      code VARCHAR NOT NULL,
+      path TEXT NOT NULL UNIQUE,
+      created_at INTEGER NOT NULL,
+      PRIMARY KEY (code)
+    )`,
+  ],
+}
+
+
+export default migration
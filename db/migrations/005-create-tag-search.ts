@@ -0,0 +1,30 @@
+import { Migration } from './types'
+
+
+// the trigram index of the folded tags, the triggers keep it in sync with tag_frequency
+// because the cron job of the tags writes to that table directly.
+// the rows are keyed by the rowid of their tag, so a trigger never scans the index.
+// the folding is written out as TAG_FOLDINGS was when the index was created, a change of them needs a new migration
+const migration: Migration = {
+  id: 5,
+  name: 'create-tag-search',
+  up: [
+    `CREATE VIRTUAL TABLE tag_search USING fts5(folded, tokenize = 'trigram')`,
+    `INSERT INTO tag_search (rowid, folded) SELECT rowid, replace(replace(replace(replace(replace(replace(replace(replace(replace(replace(lower(tag), 'ä', 'ae'), 'ö', 'oe'), 'ü', 'ue'), 'Ä', 'ae'), 'Ö', 'oe'), 'Ü', 'ue'), 'ß', 'ss'), '-', ''), '_', ''), ' ', '') FROM tag_frequency`,
+    // the rowid of a deleted tag can be given to the next new one
+    `CREATE TRIGGER tag_search_after_insert AFTER INSERT ON tag_frequency BEGIN
+      DELETE FROM tag_search WHERE rowid = new.rowid;
+      INSERT INTO tag_search (rowid, folded) VALUES (new.rowid, replace(replace(replace(replace(replace(replace(replace(replace(replace(replace(lower(new.tag), 'ä', 'ae'), 'ö', 'oe'), 'ü', 'ue'), 'Ä', 'ae'), 'Ö', 'oe'), 'Ü', 'ue'), 'ß', 'ss'), '-', ''), '_', ''), ' ', ''));
+    END`,
+    `CREATE TRIGGER tag_search_after_update AFTER UPDATE OF tag ON tag_frequency BEGIN
+      DELETE FROM tag_search WHERE rowid = old.rowid;
+      INSERT INTO tag_search (rowid, folded) VALUES (new.rowid, replace(replace(replace(replace(replace(replace(replace(replace(replace(replace(lower(new.tag), 'ä', 'ae'), 'ö', 'oe'), 'ü', 'ue'), 'Ä', 'ae'), 'Ö', 'oe'), 'Ü', 'ue'), 'ß', 'ss'), '-', ''), '_', ''), ' ', ''));
+    END`,
+    `CREATE TRIGGER tag_search_after_delete AFTER DELETE ON tag_frequency BEGIN
+      DELETE FROM tag_search WHERE rowid = old.rowid;
+    END`,
+  ],
+}
+
+
+export default migration
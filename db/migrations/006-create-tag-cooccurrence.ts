@@ -0,0 +1,19 @@
+import { Migration } from './types'
+
+
+// how many entries carry both tags, every pair is stored in both directions
+const migration: Migration = {
+  id: 6,
+  name: 'create-tag-cooccurrence',
+  up: [
+    `CREATE TABLE IF NOT EXISTS tag_cooccurrence (
+      tag VARCHAR NOT NULL,
+      related_tag VARCHAR NOT NULL,
+      frequency INTEGER NOT NULL,
+      PRIMARY KEY (tag, related_tag)
+    )`,
+  ],
+}
+
+
+export default migration
@@ -0,0 +1,20 @@
+import { Migration } from './types'
+
+
+// the feed readers poll the same views again and again, the feeds are kept for a while by their normalized request
+const migration: Migration = {
+  id: 7,
+  name: 'create-feed-cache',
+  up: [
+    `CREATE TABLE IF NOT EXISTS feed_cache (
+      cache_key VARCHAR NOT NULL,
+      content TEXT NOT NULL,
+      created_at INTEGER NOT NULL,
+      PRIMARY KEY (cache_key)
+    )`,
+    `CREATE INDEX IF NOT EXISTS feed_cache_created_at ON feed_cache (created_at)`,
+  ],
+}
+
+
+export default migration
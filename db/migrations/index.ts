@@ -0,0 +1,23 @@
+import { Migration } from './types'
+import createTagFrequency from './001-create-tag-frequency'
+import removeTestTag from './002-remove-test-tag'
+import createSitemapCache from './003-create-sitemap-cache'
+import createShortLink from './004-create-short-link'
+import createTagSearch from './005-create-tag-search'
+import createTagCooccurrence from './006-create-tag-cooccurrence'
+import createFeedCache from './007-create-feed-cache'
+
+
+// a new table or column is a new file here, the applied migrations are never edited
+const migrations: Migration[] = [
+  createTagFrequency,
+  removeTestTag,
+  createSitemapCache,
+  createShortLink,
+  createTagSearch,
+  createTagCooccurrence,
+  createFeedCache,
+]
+
+
+export default migrations
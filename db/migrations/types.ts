@@ -0,0 +1,6 @@
+export interface Migration {
+  // the migrations run in the order of their ids, an id is never reused
+  id: number
+  name: string
+  up: string[]
+}
@@ -0,0 +1,10 @@
+import db from '../index'
+import { CachedFeed } from '../../dtos/CachedFeed'
+
+
+export default async (cacheKey: string): Promise<CachedFeed | null> => {
+  const query = `SELECT cache_key, content, created_at FROM feed_cache WHERE cache_key = ?`
+  const queryParams = [cacheKey]
+
+  return db.get<CachedFeed>(query, queryParams)
+}
@@ -0,0 +1,10 @@
+import db from '../index'
+import { CachedSitemap } from '../../dtos/CachedSitemap'
+
+
+export default async (project: string, name: string): Promise<CachedSitemap | null> => {
+  const query = `SELECT project, name, content, created_at FROM sitemap_cache WHERE project = ? AND name = ?`
+  const queryParams = [project, name]
+
+  return db.get<CachedSitemap>(query, queryParams)
+}
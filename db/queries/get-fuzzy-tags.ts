@@ -0,0 +1,27 @@
+import db from '../index'
+import { TagFrequency } from '../../dtos/TagFrequency'
+import { QueryMostPopularTagsParams } from './get-most-popular-tags'
+import { createTrigramMatchQuery, foldTag, rankTagMatches } from '../../utils/tagSearch'
+import { TAG_SEARCH } from '../../consts/tagSearch'
+
+
+// the candidates come from the trigram index, the short terms are matched as prefixes of the folded tags
+export default async (params: QueryMostPopularTagsParams): Promise<TagFrequency[]> => {
+  const { contains, limit, offset } = params
+  const foldedTerm = foldTag(contains)
+  const matchQuery = createTrigramMatchQuery(foldedTerm)
+
+  const candidates = matchQuery !== null ?
+    await db.all<TagFrequency>(
+      `SELECT f.tag, f.frequency FROM tag_search s JOIN tag_frequency f ON f.rowid = s.rowid
+       WHERE tag_search MATCH ? ORDER BY bm25(tag_search) LIMIT ?`,
+      [matchQuery, TAG_SEARCH.candidatesLimit],
+    ) :
+    await db.all<TagFrequency>(
+      `SELECT f.tag, f.frequency FROM tag_search s JOIN tag_frequency f ON f.rowid = s.rowid
+       WHERE s.folded LIKE ? ORDER BY f.frequency DESC LIMIT ?`,
+      [`${foldedTerm}%`, TAG_SEARCH.candidatesLimit],
+    )
+
+  return rankTagMatches(candidates, contains).slice(offset, offset + limit)
+}
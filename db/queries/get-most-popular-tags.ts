@@ -13,20 +13,5 @@ export default async (params: QueryMostPopularTagsParams): Promise<TagFrequency[
   const { contains, limit, offset } = params
   const queryParams = [`%${contains}%`, limit, offset]
 
-  return new Promise<TagFrequency[]>((resolve, reject) => {
-    db.all(
-      query,
-      queryParams,
-      (err, records) => {
-        if (err) {
-          reject(err)
-
-          return
-        }
-
-        resolve(records)
-      },
-    )
-  })
-
-}
\ No newline at end of file
+  return db.all<TagFrequency>(query, queryParams)
+}
@@ -0,0 +1,24 @@
+import db from '../index'
+import { TagFrequency } from '../../dtos/TagFrequency'
+
+
+export interface QueryRelatedTagsParams {
+  tags: string[]
+  limit: number
+}
+
+// the tags that appear the most together with the given ones, the counts of every given tag add up
+export default async (params: QueryRelatedTagsParams): Promise<TagFrequency[]> => {
+  const { tags, limit } = params
+  if (tags.length === 0) {
+    return []
+  }
+
+  const placeholders = tags.map(() => '?').join(',')
+  const query = `SELECT related_tag AS tag, SUM(frequency) AS frequency FROM tag_cooccurrence
+    WHERE tag IN (${placeholders}) AND related_tag NOT IN (${placeholders})
+    GROUP BY related_tag ORDER BY frequency DESC LIMIT ?`
+  const queryParams = [...tags, ...tags, limit]
+
+  return db.all<TagFrequency>(query, queryParams)
+}
@@ -0,0 +1,11 @@
+import db from '../index'
+import { ShortLink } from '../../dtos/ShortLink'
+
+
+// the same view reuses its code
+export default async (path: string): Promise<ShortLink | null> => {
+  const query = `SELECT code, path, created_at FROM short_link WHERE path = ?`
+  const queryParams = [path]
+
+  return db.get<ShortLink>(query, queryParams)
+}
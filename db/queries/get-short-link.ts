@@ -0,0 +1,11 @@
+import db from '../index'
+import { ShortLink } from '../../dtos/ShortLink'
+
+
+// the redirects of the short links
+export default async (code: string): Promise<ShortLink | null> => {
+  const query = `SELECT code, path, created_at FROM short_link WHERE code = ?`
+  const queryParams = [code]
+
+  return db.get<ShortLink>(query, queryParams)
+}
@@ -0,0 +1,11 @@
+import db from '../index'
+import { ShortLink } from '../../dtos/ShortLink'
+
+
+// rejects with SQLITE_CONSTRAINT if the code or the path is taken
+export default async (shortLink: ShortLink): Promise<void> => {
+  const query = `INSERT INTO short_link (code, path, created_at) VALUES (?,?,?)`
+  const queryParams = [shortLink.code, shortLink.path, shortLink.created_at]
+
+  await db.run(query, queryParams)
+}
@@ -0,0 +1,15 @@
+import db from '../index'
+import { CachedFeed } from '../../dtos/CachedFeed'
+
+
+// the views are endless, so the expired feeds are removed whenever a new one is cached
+export default async (cachedFeed: CachedFeed, expiredBefore: number): Promise<void> => {
+  const deleteQuery = `DELETE FROM feed_cache WHERE created_at < ?`
+  const upsertQuery = `INSERT INTO feed_cache (cache_key, content, created_at) VALUES (?,?,?)
+    ON CONFLICT (cache_key) DO UPDATE SET content = excluded.content, created_at = excluded.created_at`
+
+  await db.transaction(async (queries) => {
+    await queries.run(deleteQuery, [expiredBefore])
+    await queries.run(upsertQuery, [cachedFeed.cache_key, cachedFeed.content, cachedFeed.created_at])
+  })
+}
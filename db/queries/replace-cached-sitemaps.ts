@@ -0,0 +1,17 @@
+import db from '../index'
+import { CachedSitemap } from '../../dtos/CachedSitemap'
+
+
+// the sitemaps of a project are replaced all together so the index never points to a stale chunk
+export default async (project: string, sitemaps: CachedSitemap[]): Promise<void> => {
+  const deleteQuery = `DELETE FROM sitemap_cache WHERE project = ?`
+  const insertQuery = `INSERT INTO sitemap_cache (project, name, content, created_at) VALUES (?,?,?,?)`
+
+  await db.transaction(async (queries) => {
+    await queries.run(deleteQuery, [project])
+
+    for (const sitemap of sitemaps) {
+      await queries.run(insertQuery, [project, sitemap.name, sitemap.content, sitemap.created_at])
+    }
+  })
+}
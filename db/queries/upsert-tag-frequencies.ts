@@ -0,0 +1,22 @@
+import db from '../index'
+import { TagIngestion } from '../../utils/tagIngestion'
+
+
+// the ingested counts replace the ones of the same tags, the other tags stay as they are
+// and a failing batch leaves nothing half written
+export default async (ingestion: TagIngestion): Promise<void> => {
+  const frequencyQuery = `INSERT INTO tag_frequency (tag, frequency) VALUES (?,?)
+    ON CONFLICT (tag) DO UPDATE SET frequency = excluded.frequency`
+  const cooccurrenceQuery = `INSERT INTO tag_cooccurrence (tag, related_tag, frequency) VALUES (?,?,?)
+    ON CONFLICT (tag, related_tag) DO UPDATE SET frequency = excluded.frequency`
+
+  await db.transaction(async (queries) => {
+    for (const { tag, frequency } of ingestion.frequencies) {
+      await queries.run(frequencyQuery, [tag, frequency])
+    }
+
+    for (const { tag, related_tag, frequency } of ingestion.cooccurrences) {
+      await queries.run(cooccurrenceQuery, [tag, related_tag, frequency])
+    }
+  })
+}
@@ -0,0 +1,82 @@
+import { Database, RunResult } from 'sqlite3'
+
+
+// the promise versions of the callbacks of sqlite3, they take the database so the migrations and the tests can pass their own
+
+export type QueryParams = unknown[]
+
+export const all = <T>(database: Database, sql: string, params: QueryParams = []): Promise<T[]> => (
+  new Promise<T[]>((resolve, reject) => {
+    database.all(sql, params, (err, records: T[]) => (err ? reject(err) : resolve(records)))
+  })
+)
+
+export const get = <T>(database: Database, sql: string, params: QueryParams = []): Promise<T | null> => (
+  new Promise<T | null>((resolve, reject) => {
+    database.get(sql, params, (err, record: T | undefined) => (err ? reject(err) : resolve(record || null)))
+  })
+)
+
+// resolves with the id of the last inserted row and the number of changed rows
+export const run = (
+  database: Database,
+  sql: string,
+  params: QueryParams = [],
+): Promise<Pick<RunResult, 'lastID' | 'changes'>> => (
+  new Promise((resolve, reject) => {
+    database.run(sql, params, function (this: RunResult, err: Error | null) {
+      if (err) {
+        reject(err)
+
+        return
+      }
+
+      resolve({ lastID: this.lastID, changes: this.changes })
+    })
+  })
+)
+
+// all the requests share one connection, a statement of one request would end up in the open transaction of another.
+// the tasks of a connection run one after another, e.g. a whole transaction or a single statement outside of one
+const queues = new WeakMap<Database, Promise<unknown>>()
+
+export const enqueue = <T>(database: Database, task: () => Promise<T>): Promise<T> => {
+  const previousTask = queues.get(database) || Promise.resolve()
+  const result = previousTask.then(task)
+  // a failing task should not stop the following ones
+  queues.set(database, result.catch(() => undefined))
+
+  return result
+}
+
+// the statements inside a transaction, they do not wait for the queue the transaction holds
+export interface TransactionQueries {
+  all: <T>(sql: string, params?: QueryParams) => Promise<T[]>
+  get: <T>(sql: string, params?: QueryParams) => Promise<T | null>
+  run: (sql: string, params?: QueryParams) => Promise<Pick<RunResult, 'lastID' | 'changes'>>
+}
+
+// the statements of the callback are rolled back together if one of them fails
+export const transaction = <T>(
+  database: Database,
+  callback: (queries: TransactionQueries) => Promise<T>,
+): Promise<T> => (
+  enqueue(database, async () => {
+    await run(database, 'BEGIN TRANSACTION')
+
+    try {
+      const result = await callback({
+        all: <R>(sql: string, params?: QueryParams) => all<R>(database, sql, params),
+        get: <R>(sql: string, params?: QueryParams) => get<R>(database, sql, params),
+        run: (sql: string, params?: QueryParams) => run(database, sql, params),
+      })
+      await run(database, 'COMMIT')
+
+      return result
+    } catch (e) {
+      await run(database, 'ROLLBACK')
+
+      throw e
+    }
+  })
+)
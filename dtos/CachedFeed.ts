@@ -0,0 +1,7 @@
+export interface CachedFeed {
+  cache_key: string
+  // the feed as json without its self link, the same view can be requested with the params in any order
+  content: string
+  // unix timestamp in seconds
+  created_at: number
+}
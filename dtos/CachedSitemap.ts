@@ -0,0 +1,7 @@
+export interface CachedSitemap {
+  project: string
+  name: string
+  content: string
+  // unix timestamp in seconds
+  created_at: number
+}
@@ -1,13 +1,23 @@
 import { MapLocationProps } from '../components/Map'
 import PopularTagsRequest from './PopularTagsRequest'
+import { BoundingBox } from './BoundingBox'
+import { ProjectMeta } from './ProjectMeta'
+import { ProjectThemeConfig } from './ProjectTheme'
+import { ProjectFiltersConfig } from './ProjectFilters'
 
 
 export interface MapConfigs {
   location: MapLocationProps
+  // the area the project covers, e.g. for the sitemap
+  bbox?: BoundingBox
 }
 
 // it's the same from the /public/[project]/config.json
 export default interface MapPageConfigs {
+  // the projects without it are listed with their name
+  meta?: ProjectMeta
   map: MapConfigs
   popularTags: PopularTagsRequest
+  theme?: ProjectThemeConfig
+  filters?: ProjectFiltersConfig
 }
\ No newline at end of file
@@ -0,0 +1,10 @@
+import { CategoryName } from './ProjectTheme'
+
+
+// the filters in the config.json of a project, every search of the project is limited by them
+export interface ProjectFiltersConfig {
+  fixedTags?: string[]
+  orgTag?: string
+  // the names of the categories that can be searched, all of them if empty
+  categories?: CategoryName[]
+}
@@ -0,0 +1,13 @@
+import { MapLocationProps } from '../components/Map'
+
+
+export interface ProjectMeta {
+  title: string
+  description?: string
+}
+
+// what the registry of the projects lists about every project
+export interface ProjectSummary extends ProjectMeta {
+  name: string
+  location: MapLocationProps
+}
@@ -0,0 +1,26 @@
+// the names of the categories as in CategoryToNameMapper
+export type CategoryName = 'initiative' | 'company' | 'event' | 'unknown'
+
+export interface ProjectTheme {
+  primaryColor: string
+  primaryBorderColor: string
+  primaryHoverColor: string
+  primaryHoverBorderColor: string
+  // next to the burger menu, the projects without it show their /icons/burger-menu-icon.webp
+  logo?: string
+  pins: Record<CategoryName, string>
+  // for the result cards, the type tags and the slices of the clusters
+  accentColors: Record<CategoryName, string>
+}
+
+// the theme in the config.json of a project, the missing values are taken from the default theme
+export interface ProjectThemeConfig {
+  primaryColor?: string
+  // the borders follow the colors above when they are not set
+  primaryBorderColor?: string
+  primaryHoverColor?: string
+  primaryHoverBorderColor?: string
+  logo?: string
+  pins?: Partial<Record<CategoryName, string>>
+  accentColors?: Partial<Record<CategoryName, string>>
+}
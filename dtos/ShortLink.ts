@@ -0,0 +1,7 @@
+export interface ShortLink {
+  code: string
+  // the normalized path of the view, e.g. /maps/main?lat=50.8&lng=10.9&zoom=9
+  path: string
+  // unix timestamp in seconds
+  created_at: number
+}
@@ -0,0 +1,5 @@
+export interface TagCooccurrence {
+  tag: string
+  related_tag: string
+  frequency: number
+}
\ No newline at end of file
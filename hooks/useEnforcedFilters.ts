@@ -0,0 +1,31 @@
+import { useMemo } from 'react'
+import { useRouter } from 'next/router'
+import toString from 'lodash/toString'
+import { EnforcedFilters, getEnforcedFilters } from '../utils/filters'
+import useMapPageConfigs from './useMapPageConfigs'
+
+
+// null until the config of the project arrives, searching before would show the results of other projects
+const useEnforcedFilters = (): EnforcedFilters | null => {
+  const router = useRouter()
+  const { query } = router
+  const { mapPageConfigs, isLoading } = useMapPageConfigs()
+
+  const projectFilters = mapPageConfigs ? mapPageConfigs.filters : undefined
+  const filterDependencies = [
+    isLoading,
+    projectFilters,
+    toString(query.fixedTags),
+    toString(query.orgTag),
+    toString(query['org-tag']),
+    toString(query.allowedCategories),
+  ]
+
+  return useMemo(
+    () => (isLoading ? null : getEnforcedFilters(query, projectFilters)),
+    filterDependencies,
+  )
+}
+
+
+export default useEnforcedFilters
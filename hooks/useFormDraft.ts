@@ -0,0 +1,68 @@
+import { useEffect, useState } from 'react'
+import { FormInstance } from 'antd'
+import { useDebounceFn, useUnmount } from 'ahooks'
+import moment from 'moment'
+import { discardDraft, Draft, getDraftStorage, loadDraft, saveDraft } from '../utils/drafts'
+import { DRAFTS } from '../consts/drafts'
+
+
+interface FormDraft {
+  // the draft found when the form was opened, null once it's restored or discarded
+  draft: Draft | null
+  // for the onValuesChange of the form
+  save: (changedValues: object, allValues: object) => void
+  restore: () => void
+  discard: () => void
+  // after a successful submit, the pending saves are cancelled as well
+  clear: () => void
+}
+
+// no key for the forms that should not be drafted
+const useFormDraft = (form: FormInstance, key: string | null, omittedFields: string[] = []): FormDraft => {
+  const [draft, setDraft] = useState<Draft | null>(null)
+
+  // the storage only exists in the browser
+  useEffect(() => {
+    const storage = getDraftStorage()
+    setDraft(key !== null && storage !== null ? loadDraft(storage, key, moment().unix(), omittedFields) : null)
+  }, [key])
+
+  const { run: debouncedSave, cancel, flush } = useDebounceFn(
+    (allValues: object) => {
+      const storage = getDraftStorage()
+      if (key !== null && storage !== null) {
+        saveDraft(storage, key, allValues, moment().unix(), omittedFields)
+      }
+    },
+    { wait: DRAFTS.saveDelay },
+  )
+
+  // e.g. a click on a pin closes the form right after typing
+  useUnmount(flush)
+
+  const clear = () => {
+    cancel()
+    setDraft(null)
+
+    const storage = getDraftStorage()
+    if (key !== null && storage !== null) {
+      discardDraft(storage, key)
+    }
+  }
+
+  const restore = () => {
+    form.setFieldsValue(draft.values)
+    setDraft(null)
+  }
+
+  return {
+    draft,
+    save: (_changedValues: object, allValues: object) => debouncedSave(allValues),
+    restore,
+    discard: clear,
+    clear,
+  }
+}
+
+
+export default useFormDraft
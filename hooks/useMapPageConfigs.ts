@@ -0,0 +1,31 @@
+import { useRouter } from 'next/router'
+import useRequest from '../api/useRequest'
+import API_ENDPOINTS from '../api/endpoints'
+import MapPageConfigs from '../dtos/MapPageConfigs'
+import { getProjectNameFromQuery } from '../utils/slug'
+
+
+interface MapPageConfigsState {
+  mapPageConfigs: MapPageConfigs | undefined
+  // a failed request is not loading anymore, the callers fall back to their defaults
+  isLoading: boolean
+}
+
+
+// the components share the same request of the config of the current project
+const useMapPageConfigs = (): MapPageConfigsState => {
+  const router = useRouter()
+  const projectName = getProjectNameFromQuery(router.query)
+
+  const { data: mapPageConfigs, error } = useRequest<MapPageConfigs>({
+    url: API_ENDPOINTS.getMapPageConfigs(projectName),
+  })
+
+  return {
+    mapPageConfigs,
+    isLoading: !mapPageConfigs && !error,
+  }
+}
+
+
+export default useMapPageConfigs
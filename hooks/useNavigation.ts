@@ -0,0 +1,13 @@
+import { useMemo } from 'react'
+import { useRouter } from 'next/router'
+import { createNavigation, Navigation } from '../utils/navigation'
+
+
+const useNavigation = (): Navigation => {
+  const router = useRouter()
+
+  return useMemo(() => createNavigation(router), [router])
+}
+
+
+export default useNavigation
@@ -0,0 +1,26 @@
+import { useMemo } from 'react'
+import { useRouter } from 'next/router'
+import { useSelector } from 'react-redux'
+import { RootState } from '../slices'
+import entriesSelector, { entriesOpeningHoursSelector } from '../selectors/entries'
+import { getOpenFilterDate, getOpenStates, OpenState } from '../utils/openingHours'
+import { convertQueryParamToString } from '../utils/utils'
+
+
+// null if the search results are not filtered by their opening hours
+const useOpenStates = (): Record<string, OpenState> | null => {
+  const router = useRouter()
+  const openParam = convertQueryParamToString(router.query.open)
+
+  const entries = useSelector((state: RootState) => entriesSelector(state))
+  const entriesOpeningHours = useSelector((state: RootState) => entriesOpeningHoursSelector(state))
+
+  return useMemo(() => {
+    const date = getOpenFilterDate(openParam, new Date())
+
+    return date !== null ? getOpenStates(entries, entriesOpeningHours, date) : null
+  }, [openParam, entries, entriesOpeningHours])
+}
+
+
+export default useOpenStates
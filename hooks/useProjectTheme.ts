@@ -0,0 +1,14 @@
+import { createContext, useContext } from 'react'
+import { ProjectTheme } from '../dtos/ProjectTheme'
+import { DEFAULT_THEME } from '../consts/theme'
+
+
+// the pages of a project render their theme on the server, the layout passes it down to the map
+export const ProjectThemeContext = createContext<ProjectTheme>(DEFAULT_THEME)
+
+
+// the pages without a project show the default theme
+const useProjectTheme = (): ProjectTheme => useContext(ProjectThemeContext)
+
+
+export default useProjectTheme
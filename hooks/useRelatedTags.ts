@@ -0,0 +1,19 @@
+import useRequest, { Return } from '../api/useRequest'
+import { TagFrequency } from '../dtos/TagFrequency'
+import API_ENDPOINTS from '../api/endpoints'
+
+
+// nothing is requested before the first tag is chosen
+const useRelatedTags = (tags: string[]): Return<TagFrequency[], unknown> => {
+  return useRequest<TagFrequency[]>(
+    tags.length !== 0 ?
+      {
+        url: API_ENDPOINTS.getRelatedTags(),
+        params: { tags: tags.join(',') },
+      } :
+      null,
+  )
+}
+
+
+export default useRelatedTags
@@ -0,0 +1,52 @@
+import { Middleware } from '@reduxjs/toolkit'
+import Router from 'next/router'
+import { setCenter, setPinnedLocation, setViewport, setViewportFromMap } from '../slices/mapSlice'
+import { convertMapStateToQueryParams, MAP_QUERY_PARAMS } from '../utils/map'
+import { removeRoutingQueryParams, updateRoutingQuery } from '../utils/utils'
+import { createSlugPathFromQueryAndRemoveSlug } from '../utils/slug'
+import { getMapBasePath } from '../utils/router'
+
+
+// the actions that change the viewport or the pin should be reflected in the url.
+// the other direction (url -> state) is handled by the MapStateUrlListener
+const actionsToSync: string[] = [
+  setViewportFromMap.type,
+  setCenter.type,
+  setViewport.type,
+  setPinnedLocation.type,
+]
+
+
+const mapUrlSyncMiddleware: Middleware = store => next => action => {
+  const result = next(action)
+
+  // the router exists only in the browser
+  if (typeof window === 'undefined' || !actionsToSync.includes(action.type)) {
+    return result
+  }
+
+  const { map: mapState } = store.getState()
+  // the url is not initialized yet, writing the defaults would overwrite it
+  if (!mapState.isInitialized) {
+    return result
+  }
+
+  const { query } = Router
+  const prunedQuery = removeRoutingQueryParams(query, MAP_QUERY_PARAMS)
+  const newQueryParams = updateRoutingQuery(prunedQuery, convertMapStateToQueryParams(mapState))
+  const [newPath, newQueryWithoutSlug] = createSlugPathFromQueryAndRemoveSlug(newQueryParams)
+
+  Router.replace(
+    {
+      pathname: `${getMapBasePath(Router.pathname)}/${newPath}`,
+      query: newQueryWithoutSlug,
+    },
+    undefined,
+    { shallow: true },
+  )
+
+  return result
+}
+
+
+export default mapUrlSyncMiddleware
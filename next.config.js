@@ -42,6 +42,13 @@ module.exports = nextTranslate(
         },
       ]),
 
+      rewrites: async () => ([
+        {
+          source: '/robots.txt',
+          destination: '/api/v0/robots',
+        },
+      ]),
+
       i18n: {
         locales: [
           'en',
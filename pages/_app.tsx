@@ -13,7 +13,7 @@ require('../styles/globals.less')
 
 const MyApp: FC<AppProps> = ({ Component, pageProps }) => {
   return (
-    <Layout project={pageProps.project}>
+    <Layout theme={pageProps.theme}>
       <Provider store={store}>
         <Component {...pageProps} />
       </Provider>
@@ -0,0 +1,77 @@
+import { timingSafeEqual } from 'crypto'
+import { NextApiRequest, NextApiResponse } from 'next'
+import toString from 'lodash/toString'
+import upsertTagFrequencies from '../../../../db/queries/upsert-tag-frequencies'
+import { getTagIngestionFormat, parseTagIngestion, TagIngestion } from '../../../../utils/tagIngestion'
+
+
+// the exports of all the entries are bigger than the default limit of 1mb
+export const config = {
+  api: {
+    bodyParser: {
+      sizeLimit: '10mb',
+    },
+  },
+}
+
+
+// without a token on the server nobody is allowed
+const isAuthorized = (authorization: string): boolean => {
+  const token = process.env.ADMIN_API_TOKEN
+  if (!token) {
+    return false
+  }
+
+  const expected = Buffer.from(`Bearer ${token}`)
+  const received = Buffer.from(authorization)
+
+  return expected.length === received.length && timingSafeEqual(expected, received)
+}
+
+
+// takes a batch of counts as json, e.g. { tags: [{ tag: 'repair', frequency: 12 }] },
+// or an export of the entries as a json array or as text/csv with a tags column
+// and upserts the frequencies of their tags, the entries also update the co-occurrences of the tags
+export default async (req: NextApiRequest, res: NextApiResponse) => {
+  const {
+    body,
+    headers,
+    method,
+  } = req
+
+  // only POST is allowed
+  if (method !== 'POST') {
+    res.setHeader('Allow', ['POST'])
+    res.status(405).end(`Method ${method} Not Allowed`)
+
+    return
+  }
+
+  if (!isAuthorized(toString(headers.authorization))) {
+    res.setHeader('WWW-Authenticate', 'Bearer')
+    res.status(401).end('Unauthorized')
+
+    return
+  }
+
+  let ingestion: TagIngestion
+  try {
+    const format = getTagIngestionFormat(toString(headers['content-type']), body)
+    ingestion = parseTagIngestion(format, body)
+  } catch (e) {
+    res.status(400).end(e.message)
+
+    return
+  }
+
+  try {
+    await upsertTagFrequencies(ingestion)
+
+    res.status(200).json({
+      tags: ingestion.frequencies.length,
+      cooccurrences: ingestion.cooccurrences.length,
+    })
+  } catch (e) {
+    res.status(500).end()
+  }
+}
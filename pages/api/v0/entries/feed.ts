@@ -0,0 +1,9 @@
+import { convertQueryToEntryRequest } from '../../../../adaptors'
+import { createFeedApiHandler, getEntriesFeed } from '../../../../utils/projectFeed'
+
+
+// accepts the same params as the entry search, e.g. ?project=main&bbox=...&tags=...&categories=...&text=...
+// and returns the newest entries as atom or with ?format=rss as rss 2.0
+export default createFeedApiHandler((project, pageConfigs, query, origin, selfLink, locale) => (
+  getEntriesFeed(project, pageConfigs, convertQueryToEntryRequest(query), origin, selfLink, locale)
+))
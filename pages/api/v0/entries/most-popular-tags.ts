@@ -1,20 +1,30 @@
 import { NextApiRequest, NextApiResponse } from 'next'
 import getMostPopularTags, { QueryMostPopularTagsParams } from '../../../../db/queries/get-most-popular-tags'
+import getFuzzyTags from '../../../../db/queries/get-fuzzy-tags'
 import toNumber from 'lodash/toNumber'
 import toString from 'lodash/toString'
 import { TagFrequency } from '../../../../dtos/TagFrequency'
 
 
+export enum TagMatchMode {
+  // the tags that contain the term as it is
+  CONTAINS = 'contains',
+  // the tags that are close to the term, with umlauts, hyphens and typos
+  FUZZY = 'fuzzy',
+}
+
 export interface MostPopularTagsParams {
   limit?: number
   offset?: number
   contains?: string
+  mode?: TagMatchMode
 }
 
 const DEFAULT_PARAMS: MostPopularTagsParams = {
   limit: 10,
   offset: 0,
   contains: '',
+  mode: TagMatchMode.CONTAINS,
 }
 
 export default async (req: NextApiRequest, res: NextApiResponse) => {
@@ -23,6 +33,7 @@ export default async (req: NextApiRequest, res: NextApiResponse) => {
       limit = DEFAULT_PARAMS.limit,
       offset = DEFAULT_PARAMS.offset,
       contains = DEFAULT_PARAMS.contains,
+      mode = DEFAULT_PARAMS.mode,
     },
     method,
   } = req
@@ -42,7 +53,9 @@ export default async (req: NextApiRequest, res: NextApiResponse) => {
   }
 
   try {
-    const matchedMostPopularTagsWithFrequency: TagFrequency[] = await getMostPopularTags(queryParams)
+    const matchedMostPopularTagsWithFrequency: TagFrequency[] = mode === TagMatchMode.FUZZY ?
+      await getFuzzyTags(queryParams) :
+      await getMostPopularTags(queryParams)
     res.status(200).json(matchedMostPopularTagsWithFrequency)
   } catch (e) {
     res.status(500)
@@ -0,0 +1,64 @@
+import { NextApiRequest, NextApiResponse } from 'next'
+import toNumber from 'lodash/toNumber'
+import isInteger from 'lodash/isInteger'
+import toString from 'lodash/toString'
+import uniq from 'lodash/uniq'
+import getRelatedTags, { QueryRelatedTagsParams } from '../../../../db/queries/get-related-tags'
+import { TagFrequency } from '../../../../dtos/TagFrequency'
+
+
+export interface RelatedTagsParams {
+  // comma separated, e.g. bio,regional
+  tags: string
+  limit?: number
+}
+
+const DEFAULT_LIMIT = 8
+// the tags are ranked on every request, a client can not ask for all of them at once
+const MAX_LIMIT = 50
+// every tag is bound twice in the query, the variables of sqlite are limited
+const MAX_TAGS = 20
+
+
+const parseLimit = (value: string | string[]): number => {
+  const limit = toNumber(value)
+
+  return isInteger(limit) && limit > 0 ? Math.min(limit, MAX_LIMIT) : DEFAULT_LIMIT
+}
+
+
+// the tags that are often used together with the given ones, e.g. ?tags=bio,regional
+export default async (req: NextApiRequest, res: NextApiResponse) => {
+  const {
+    query: {
+      tags = '',
+      limit,
+    },
+    method,
+  } = req
+
+  // only GET is allowed
+  if (method !== 'GET') {
+    res.setHeader('Allow', ['GET'])
+    res.status(405).end(`Method ${method} Not Allowed`)
+
+    return
+  }
+
+  const queryParams: QueryRelatedTagsParams = {
+    tags: uniq(
+      toString(tags)
+        .split(',')
+        .map(tag => tag.trim().toLowerCase())
+        .filter(tag => tag.length !== 0),
+    ).slice(0, MAX_TAGS),
+    limit: parseLimit(limit),
+  }
+
+  try {
+    const relatedTags: TagFrequency[] = await getRelatedTags(queryParams)
+    res.status(200).json(relatedTags)
+  } catch (e) {
+    res.status(500).end()
+  }
+}
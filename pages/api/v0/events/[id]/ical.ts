@@ -0,0 +1,50 @@
+import { NextApiRequest, NextApiResponse } from 'next'
+import toString from 'lodash/toString'
+import { AxiosInstance } from '../../../../../api'
+import API_ENDPOINTS from '../../../../../api/endpoints'
+import Event from '../../../../../dtos/Event'
+import { createICalendar } from '../../../../../utils/ical'
+import { ICAL } from '../../../../../consts/ical'
+
+
+export default async (req: NextApiRequest, res: NextApiResponse) => {
+  const {
+    query: { id },
+    method,
+  } = req
+
+  // only GET is allowed
+  if (method !== 'GET') {
+    res.setHeader('Allow', ['GET'])
+    res.status(405).end(`Method ${method} Not Allowed`)
+
+    return
+  }
+
+  // the id goes into the url of the backend, anything else than an id of an event can not be found
+  const eventId = toString(id)
+  if (!ICAL.eventIdPattern.test(eventId)) {
+    res.status(404).end()
+
+    return
+  }
+
+  try {
+    const eventResponse = await AxiosInstance.GetRequest<Event>(
+      `${API_ENDPOINTS.getEvent()}/${eventId}`,
+    )
+    const event = AxiosInstance.GetSuccessData(eventResponse)
+
+    res.setHeader('Content-Type', 'text/calendar; charset=utf-8')
+    res.setHeader('Content-Disposition', `attachment; filename="${event.id}.ics"`)
+    res.status(200).send(createICalendar([event], { name: event.title }))
+  } catch (e) {
+    if (e.response?.status === 404) {
+      res.status(404).end()
+
+      return
+    }
+
+    res.status(500).end()
+  }
+}
@@ -0,0 +1,9 @@
+import { convertQueryToEventRequest } from '../../../../adaptors'
+import { createFeedApiHandler, getEventsFeed } from '../../../../utils/projectFeed'
+
+
+// accepts the same params as the event search, e.g. ?project=main&bbox=...&tag=...&text=...
+// and returns the upcoming events as atom or with ?format=rss as rss 2.0
+export default createFeedApiHandler((project, pageConfigs, query, origin, selfLink, locale) => (
+  getEventsFeed(project, pageConfigs, convertQueryToEventRequest(query), origin, selfLink, locale)
+))
@@ -0,0 +1,44 @@
+import { NextApiRequest, NextApiResponse } from 'next'
+import toString from 'lodash/toString'
+import { AxiosInstance } from '../../../../api'
+import API_ENDPOINTS from '../../../../api/endpoints'
+import { convertQueryToEventRequest } from '../../../../adaptors'
+import { SearchEventsRequest as SearchEventsRequestDTO } from '../../../../dtos/SearchEventsRequest'
+import { Events } from '../../../../dtos/Event'
+import { createICalendar } from '../../../../utils/ical'
+import { ICAL } from '../../../../consts/ical'
+
+
+// accepts the same params as the event search, e.g. ?bbox=...&tag=...&start_min=...
+// so the calendar apps can subscribe to the events of a region
+export default async (req: NextApiRequest, res: NextApiResponse) => {
+  const {
+    query,
+    method,
+  } = req
+
+  // only GET is allowed
+  if (method !== 'GET') {
+    res.setHeader('Allow', ['GET'])
+    res.status(405).end(`Method ${method} Not Allowed`)
+
+    return
+  }
+
+  const searchEventsRequestDTO: SearchEventsRequestDTO = convertQueryToEventRequest(query)
+  const calendarName = query.name ? toString(query.name) : ICAL.defaultCalendarName
+
+  try {
+    const searchEventsResponse = await AxiosInstance.GetRequest<Events>(
+      API_ENDPOINTS.searchEvents(),
+      { params: searchEventsRequestDTO },
+    )
+    const events = AxiosInstance.GetSuccessData(searchEventsResponse)
+
+    res.setHeader('Content-Type', 'text/calendar; charset=utf-8')
+    res.setHeader('Content-Disposition', 'inline; filename="events.ics"')
+    res.status(200).send(createICalendar(events, { name: calendarName }))
+  } catch (e) {
+    res.status(500).end()
+  }
+}
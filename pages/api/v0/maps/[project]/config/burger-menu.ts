@@ -1,9 +1,10 @@
-import fs from 'fs'
-import path from 'path'
+import { NextApiRequest, NextApiResponse } from 'next'
+import toString from 'lodash/toString'
 import { LinkWithIcon } from '../../../../../../dtos/LinkWithIcon'
+import { loadBurgerMenu } from '../../../../../../utils/projects'
 
 
-export default async (req, res) => {
+export default async (req: NextApiRequest, res: NextApiResponse) => {
   const {
     query: { project },
     method,
@@ -17,13 +18,23 @@ export default async (req, res) => {
     return
   }
 
-  const fileContent = fs.readFileSync(
-    path.resolve(`./public/projects/${project}/burger-menu.json`),
-    'utf8',
-  )
+  let burgerMenuItems: LinkWithIcon[] | null
+  try {
+    burgerMenuItems = loadBurgerMenu(toString(project))
+  } catch (e) {
+    console.error(e.message)
+    res.status(500).end()
+
+    return
+  }
+
+  if (burgerMenuItems === null) {
+    res.status(404).end()
+
+    return
+  }
 
-  const burgerMenuItems: LinkWithIcon[] = JSON.parse(fileContent.toString())
   res
     .status(200)
     .json(burgerMenuItems)
-}
\ No newline at end of file
+}
@@ -1,8 +1,7 @@
-import fs from 'fs'
-import path from 'path'
 import { NextApiRequest, NextApiResponse } from 'next'
-
+import toString from 'lodash/toString'
 import MapPageConfigs from '../../../../../../dtos/MapPageConfigs'
+import { loadProjectConfigs } from '../../../../../../utils/projects'
 
 
 export default (req: NextApiRequest, res: NextApiResponse) => {
@@ -19,15 +18,23 @@ export default (req: NextApiRequest, res: NextApiResponse) => {
     return
   }
 
-  // todo: eighter move it to env or consts
-  // todo: catch the error if the file is not found
-  const fileContent = fs.readFileSync(
-    path.resolve(`./public/projects/${project}/config.json`),
-    'utf8',
-  )
-  const mapPageConfigs: MapPageConfigs = JSON.parse(fileContent.toString())
+  let mapPageConfigs: MapPageConfigs | null
+  try {
+    mapPageConfigs = loadProjectConfigs(toString(project))
+  } catch (e) {
+    console.error(e.message)
+    res.status(500).end()
+
+    return
+  }
+
+  if (mapPageConfigs === null) {
+    res.status(404).end()
+
+    return
+  }
 
   res
     .status(200)
     .json(mapPageConfigs)
-}
\ No newline at end of file
+}
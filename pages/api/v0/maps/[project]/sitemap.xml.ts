@@ -0,0 +1,37 @@
+import { NextApiRequest, NextApiResponse } from 'next'
+import toString from 'lodash/toString'
+import { getProjectSitemap, SITEMAP_INDEX_NAME } from '../../../../../utils/projectSitemap'
+import { isExistingProject } from '../../../../../utils/projects'
+
+
+// the index of the chunked sitemaps with all entries and upcoming events of the project
+export default async (req: NextApiRequest, res: NextApiResponse) => {
+  const {
+    query: { project },
+    method,
+  } = req
+
+  // only GET is allowed
+  if (method !== 'GET') {
+    res.setHeader('Allow', ['GET'])
+    res.status(405).end(`Method ${method} Not Allowed`)
+
+    return
+  }
+
+  const projectName = toString(project)
+  if (!isExistingProject(projectName)) {
+    res.status(404).end()
+
+    return
+  }
+
+  try {
+    const sitemapIndex = await getProjectSitemap(projectName, SITEMAP_INDEX_NAME)
+
+    res.setHeader('Content-Type', 'application/xml; charset=utf-8')
+    res.status(200).send(sitemapIndex)
+  } catch (e) {
+    res.status(500).end()
+  }
+}
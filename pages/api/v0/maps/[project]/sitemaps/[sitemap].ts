@@ -0,0 +1,46 @@
+import { NextApiRequest, NextApiResponse } from 'next'
+import toString from 'lodash/toString'
+import { getProjectSitemap } from '../../../../../../utils/projectSitemap'
+import { isExistingProject } from '../../../../../../utils/projects'
+
+
+// the chunks of the sitemap index, e.g. /sitemaps/1.xml
+const SITEMAP_FILE_PATTERN = /^(\d+)\.xml$/
+
+
+export default async (req: NextApiRequest, res: NextApiResponse) => {
+  const {
+    query: { project, sitemap },
+    method,
+  } = req
+
+  // only GET is allowed
+  if (method !== 'GET') {
+    res.setHeader('Allow', ['GET'])
+    res.status(405).end(`Method ${method} Not Allowed`)
+
+    return
+  }
+
+  const projectName = toString(project)
+  const sitemapFileMatch = SITEMAP_FILE_PATTERN.exec(toString(sitemap))
+  if (!isExistingProject(projectName) || sitemapFileMatch === null) {
+    res.status(404).end()
+
+    return
+  }
+
+  try {
+    const sitemapContent = await getProjectSitemap(projectName, sitemapFileMatch[1])
+    if (sitemapContent === null) {
+      res.status(404).end()
+
+      return
+    }
+
+    res.setHeader('Content-Type', 'application/xml; charset=utf-8')
+    res.status(200).send(sitemapContent)
+  } catch (e) {
+    res.status(500).end()
+  }
+}
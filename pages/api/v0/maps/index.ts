@@ -0,0 +1,20 @@
+import { NextApiRequest, NextApiResponse } from 'next'
+import { getProjectSummaries } from '../../../../utils/projects'
+
+
+// the registry of the projects, a new folder in /public/projects is a new map
+export default (req: NextApiRequest, res: NextApiResponse) => {
+  const { method } = req
+
+  // only GET is allowed
+  if (method !== 'GET') {
+    res.setHeader('Allow', ['GET'])
+    res.status(405).end(`Method ${method} Not Allowed`)
+
+    return
+  }
+
+  res
+    .status(200)
+    .json(getProjectSummaries())
+}
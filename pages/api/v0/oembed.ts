@@ -0,0 +1,78 @@
+import { NextApiRequest, NextApiResponse } from 'next'
+import toString from 'lodash/toString'
+import toNumber from 'lodash/toNumber'
+import isFinite from 'lodash/isFinite'
+import {
+  createOEmbedResponse,
+  getCardPath,
+  getOEmbedSize,
+  isOEmbedSizeSupported,
+  parseOEmbedUrl,
+} from '../../../utils/oembed'
+import { fetchEntityCard } from '../../../utils/entities'
+import { isExistingProject } from '../../../utils/projects'
+import { getPublicOrigin } from '../../../utils/seo'
+
+
+const parseMaxSize = (value: string | string[]): number | null => {
+  const size = toNumber(value)
+
+  return isFinite(size) && size > 0 ? size : null
+}
+
+// e.g. ?url=https://kartevonmorgen.org/maps/main/entries/entryId&maxwidth=320
+// only the json format is supported, the links are announced on the detail pages
+export default async (req: NextApiRequest, res: NextApiResponse) => {
+  const {
+    query: { url, format, maxwidth, maxheight },
+    method,
+  } = req
+
+  // only GET is allowed
+  if (method !== 'GET') {
+    res.setHeader('Allow', ['GET'])
+    res.status(405).end(`Method ${method} Not Allowed`)
+
+    return
+  }
+
+  if (format !== undefined && format !== 'json') {
+    res.status(501).end(`Format ${format} Not Implemented`)
+
+    return
+  }
+
+  // the card can not be shown that small, so there is no response within the asked size
+  const maxWidth = parseMaxSize(maxwidth)
+  const maxHeight = parseMaxSize(maxheight)
+  if (!isOEmbedSizeSupported(maxWidth, maxHeight)) {
+    res.status(404).end()
+
+    return
+  }
+
+  const origin = getPublicOrigin()
+  const oEmbedEntity = parseOEmbedUrl(toString(url), origin)
+  if (oEmbedEntity === null || !isExistingProject(oEmbedEntity.project)) {
+    res.status(404).end()
+
+    return
+  }
+
+  try {
+    const card = await fetchEntityCard(oEmbedEntity, toString(url))
+    if (card === null) {
+      res.status(404).end()
+
+      return
+    }
+
+    const size = getOEmbedSize(maxWidth, maxHeight)
+
+    res
+      .status(200)
+      .json(createOEmbedResponse(origin, card.title, `${origin}${getCardPath(oEmbedEntity)}`, size))
+  } catch (e) {
+    res.status(500).end()
+  }
+}
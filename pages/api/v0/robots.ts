@@ -0,0 +1,32 @@
+import { NextApiRequest, NextApiResponse } from 'next'
+import { getProjectNames } from '../../../utils/projects'
+import { getSitemapPath, SITEMAP_INDEX_NAME } from '../../../utils/projectSitemap'
+import { getPublicOrigin } from '../../../utils/seo'
+
+
+// served as /robots.txt, see the rewrites in next.config.js
+export default (req: NextApiRequest, res: NextApiResponse) => {
+  const { method } = req
+
+  // only GET is allowed
+  if (method !== 'GET') {
+    res.setHeader('Allow', ['GET'])
+    res.status(405).end(`Method ${method} Not Allowed`)
+
+    return
+  }
+
+  const origin = getPublicOrigin()
+  const sitemaps = getProjectNames().map(
+    project => `Sitemap: ${origin}${getSitemapPath(project, SITEMAP_INDEX_NAME)}`,
+  )
+
+  res.setHeader('Content-Type', 'text/plain; charset=utf-8')
+  res.status(200).send([
+    'User-agent: *',
+    'Allow: /',
+    '',
+    ...sitemaps,
+    '',
+  ].join('\n'))
+}
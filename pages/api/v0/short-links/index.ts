@@ -0,0 +1,75 @@
+import { randomBytes } from 'crypto'
+import { NextApiRequest, NextApiResponse } from 'next'
+import moment from 'moment'
+import toString from 'lodash/toString'
+import getShortLinkByPath from '../../../../db/queries/get-short-link-by-path'
+import insertShortLink from '../../../../db/queries/insert-short-link'
+import { createShortLinkCode, normalizeViewPath } from '../../../../utils/shortLink'
+import { SHORT_LINK } from '../../../../consts/shortLink'
+
+
+const isConstraintError = (err: { code?: string }): boolean => (
+  err.code === 'SQLITE_CONSTRAINT'
+)
+
+// another request may have taken the code or saved the same view in the meantime
+const createShortLink = async (path: string): Promise<string> => {
+  for (let attempt = 0; attempt < SHORT_LINK.maxCodeAttempts; attempt++) {
+    const code = createShortLinkCode(randomBytes(SHORT_LINK.codeLength))
+
+    try {
+      await insertShortLink({ code, path, created_at: moment().unix() })
+
+      return code
+    } catch (e) {
+      if (!isConstraintError(e)) {
+        throw e
+      }
+
+      const shortLink = await getShortLinkByPath(path)
+      if (shortLink !== null) {
+        return shortLink.code
+      }
+    }
+  }
+
+  throw new Error('no free short link code found')
+}
+
+
+// takes the path of a view, e.g. { path: '/maps/main?lat=50.8&lng=10.9&zoom=9' }
+// and returns its code, the short link is /s/<code>
+export default async (req: NextApiRequest, res: NextApiResponse) => {
+  const {
+    body,
+    method,
+  } = req
+
+  // only POST is allowed
+  if (method !== 'POST') {
+    res.setHeader('Allow', ['POST'])
+    res.status(405).end(`Method ${method} Not Allowed`)
+
+    return
+  }
+
+  const path = normalizeViewPath(toString(body && body.path))
+  if (path === null) {
+    res.status(400).end('Invalid Path')
+
+    return
+  }
+
+  try {
+    const shortLink = await getShortLinkByPath(path)
+    if (shortLink !== null) {
+      res.status(200).json({ code: shortLink.code })
+
+      return
+    }
+
+    res.status(201).json({ code: await createShortLink(path) })
+  } catch (e) {
+    res.status(500).end()
+  }
+}
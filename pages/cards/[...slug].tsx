@@ -0,0 +1,73 @@
+import { FC } from 'react'
+import { GetServerSideProps } from 'next'
+import Head from 'next/head'
+import EntityCard from '../../components/EntityCard'
+import { EntityCard as EntityCardDTO, getOEmbedEntityFromSlug } from '../../utils/oembed'
+import { fetchEntityCard } from '../../utils/entities'
+import { loadProjectConfigs } from '../../utils/projects'
+import { getProjectTheme } from '../../utils/theme'
+import { getPublicOrigin } from '../../utils/seo'
+import { getEntityPath } from '../../utils/sitemap'
+import { convertQueryParamToArray } from '../../utils/utils'
+import { ProjectTheme } from '../../dtos/ProjectTheme'
+
+
+interface CardPageProps {
+  card: EntityCardDTO
+  // for the layout of the app, see _app.tsx
+  theme: ProjectTheme
+}
+
+
+// the iframe that the oembed endpoint hands out, e.g. /cards/main/entries/entryId
+const CardPage: FC<CardPageProps> = (props) => {
+  const { card } = props
+
+  return (
+    <div style={{ padding: 4 }}>
+      <Head>
+        <title>{card.title}</title>
+        <meta name="robots" content="noindex"/>
+      </Head>
+
+      <EntityCard {...card}/>
+    </div>
+  )
+}
+
+
+export const getServerSideProps: GetServerSideProps = async (ctx) => {
+  const path = convertQueryParamToArray(ctx.params.slug)
+
+  const oEmbedEntity = getOEmbedEntityFromSlug(path)
+  if (oEmbedEntity === null) {
+    return { notFound: true }
+  }
+
+  const pageConfigs = loadProjectConfigs(oEmbedEntity.project)
+  if (pageConfigs === null) {
+    return { notFound: true }
+  }
+
+  const { project, entity, id } = oEmbedEntity
+  const url = `${getPublicOrigin()}${getEntityPath(project, entity, id)}`
+
+  try {
+    const card = await fetchEntityCard(oEmbedEntity, url)
+    if (card === null) {
+      return { notFound: true }
+    }
+
+    return {
+      props: {
+        card,
+        theme: getProjectTheme(pageConfigs),
+      },
+    }
+  } catch (e) {
+    return { notFound: true }
+  }
+}
+
+
+export default CardPage
@@ -0,0 +1,15 @@
+import { FC } from 'react'
+import { GetServerSideProps } from 'next'
+import MapPage, { MapPageProps } from '../../components/MapPage'
+import { getMapPageServerSideProps } from '../../utils/mapPage'
+
+
+// the map for the iframes of the partners, e.g. /embed/main?fixedTags=repair&sidebar=false
+const EmbeddedMapPage: FC<MapPageProps> = (props) => (
+  <MapPage {...props} isEmbedded/>
+)
+
+
+export const getServerSideProps: GetServerSideProps = getMapPageServerSideProps
+
+export default EmbeddedMapPage
@@ -0,0 +1,156 @@
+import { FC, useEffect, useState } from 'react'
+import useTranslation from 'next-translate/useTranslation'
+import { Button, Checkbox, Col, Divider, Form, Input, InputNumber, Row, Select, Switch, Typography } from 'antd'
+import { CopyOutlined } from '@ant-design/icons'
+import useRequest from '../../api/useRequest'
+import API_ENDPOINTS from '../../api/endpoints'
+import { ProjectSummary } from '../../dtos/ProjectMeta'
+import { CategoryName } from '../../dtos/ProjectTheme'
+import { createEmbedSnippet, createEmbedUrl, EmbedOptions, EmbedSize } from '../../utils/embed'
+import { DEFAULT_PROJECT } from '../../consts/projects'
+
+
+const { TextArea } = Input
+const { Title, Paragraph } = Typography
+
+
+interface EmbedBuilderValues extends EmbedOptions, EmbedSize {
+  project: string
+}
+
+const categoryNames: CategoryName[] = ['initiative', 'company', 'event']
+
+const initialValues: EmbedBuilderValues = {
+  project: DEFAULT_PROJECT,
+  fixedTags: [],
+  orgTag: '',
+  allowedCategories: [],
+  showSidebar: true,
+  width: '100%',
+  height: '600',
+}
+
+
+const EmbedBuilder: FC = () => {
+  const { t } = useTranslation('embed')
+
+  const { data: projects } = useRequest<ProjectSummary[]>({
+    url: API_ENDPOINTS.getProjects(),
+  })
+
+  const [values, setValues] = useState<EmbedBuilderValues>(initialValues)
+
+  // the snippet points to the same host as the builder, it is known only in the browser
+  const [origin, setOrigin] = useState<string>('')
+  useEffect(() => {
+    setOrigin(window.location.origin)
+  }, [])
+
+  const { project, width, height, ...embedOptions } = values
+  const embedUrl = createEmbedUrl(origin, project, embedOptions)
+  const embedSnippet = createEmbedSnippet(embedUrl, { width, height })
+
+  return (
+    <Row gutter={24} style={{ padding: 24 }}>
+      <Col xs={24} lg={8}>
+        <Title level={3}>{t('title')}</Title>
+        <Paragraph>{t('description')}</Paragraph>
+
+        <Form
+          layout="vertical"
+          initialValues={initialValues}
+          onValuesChange={(_changedValues, allValues: EmbedBuilderValues) => setValues(allValues)}
+        >
+          <Form.Item name="project" label={t('project')}>
+            <Select
+              loading={!projects}
+              options={(projects || []).map(p => ({ value: p.name, label: p.title }))}
+            />
+          </Form.Item>
+
+          <Form.Item name="fixedTags" label={t('fixedTags')}>
+            <Select mode="tags" tokenSeparators={[',']}/>
+          </Form.Item>
+
+          <Form.Item name="orgTag" label={t('orgTag')}>
+            <Input/>
+          </Form.Item>
+
+          <Form.Item name="allowedCategories" label={t('allowedCategories')} extra={t('allCategories')}>
+            <Checkbox.Group
+              options={categoryNames.map(name => ({ value: name, label: t(`categories.${name}`) }))}
+            />
+          </Form.Item>
+
+          <Form.Item name="showSidebar" label={t('showSidebar')} valuePropName="checked">
+            <Switch/>
+          </Form.Item>
+
+          <Row gutter={8}>
+            <Col span={8}>
+              <Form.Item name="lat" label={t('lat')}>
+                <InputNumber style={{ width: '100%' }}/>
+              </Form.Item>
+            </Col>
+            <Col span={8}>
+              <Form.Item name="lng" label={t('lng')}>
+                <InputNumber style={{ width: '100%' }}/>
+              </Form.Item>
+            </Col>
+            <Col span={8}>
+              <Form.Item name="zoom" label={t('zoom')}>
+                <InputNumber min={0} max={18} style={{ width: '100%' }}/>
+              </Form.Item>
+            </Col>
+          </Row>
+
+          <Row gutter={8}>
+            <Col span={12}>
+              <Form.Item name="width" label={t('width')}>
+                <Input/>
+              </Form.Item>
+            </Col>
+            <Col span={12}>
+              <Form.Item name="height" label={t('height')}>
+                <Input/>
+              </Form.Item>
+            </Col>
+          </Row>
+        </Form>
+
+        <Divider>{t('snippet')}</Divider>
+
+        <TextArea
+          readOnly
+          autoSize
+          value={embedSnippet}
+        />
+        <Button
+          block
+          icon={<CopyOutlined/>}
+          onClick={() => navigator.clipboard.writeText(embedSnippet)}
+          style={{ marginTop: 8 }}
+        >
+          {t('copy')}
+        </Button>
+      </Col>
+
+      <Col xs={24} lg={16}>
+        {
+          origin && (
+            <iframe
+              src={embedUrl}
+              width="100%"
+              height={height}
+              style={{ border: 0 }}
+              title={t('preview')}
+            />
+          )
+        }
+      </Col>
+    </Row>
+  )
+}
+
+
+export default EmbedBuilder
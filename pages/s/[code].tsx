@@ -0,0 +1,32 @@
+import { FC } from 'react'
+import { GetServerSideProps } from 'next'
+import toString from 'lodash/toString'
+import getShortLink from '../../db/queries/get-short-link'
+import { isShortLinkCode } from '../../utils/shortLink'
+
+
+// the page never renders, the visitors are sent on to the view
+const ShortLinkPage: FC = () => null
+
+
+export const getServerSideProps: GetServerSideProps = async (ctx) => {
+  const code = toString(ctx.params.code)
+  if (!isShortLinkCode(code)) {
+    return { notFound: true }
+  }
+
+  const shortLink = await getShortLink(code)
+  if (shortLink === null) {
+    return { notFound: true }
+  }
+
+  return {
+    redirect: {
+      destination: shortLink.path,
+      permanent: false,
+    },
+  }
+}
+
+
+export default ShortLinkPage
@@ -1,5 +1,9 @@
+import { Fragment } from 'react'
 import { useRouter } from 'next/router'
-import { Alert } from 'antd'
+import * as qs from 'qs'
+import useTranslation from 'next-translate/useTranslation'
+import { Alert, Button, Space } from 'antd'
+import { CalendarOutlined, DownloadOutlined } from '@ant-design/icons'
 import useRequest from '../../api/useRequest'
 import API_ENDPOINTS from '../../api/endpoints'
 import Table from './components/Table'
@@ -7,12 +11,22 @@ import { SearchEventsRequest as SearchEventsRequestDTO } from '../../dtos/Search
 import { Events } from '../../dtos/Event'
 import { GetServerSideProps } from 'next'
 import { convertQueryToEventRequest } from '../../adaptors'
+import { convertUrlToWebcal } from '../../utils/ical'
+
+
+const getEventsICalUrl = (searchEventsRequestDTO: SearchEventsRequestDTO): string => {
+  const queryString = qs.stringify(searchEventsRequestDTO, { indices: false })
+
+  return `${API_ENDPOINTS.searchEventsICal()}?${queryString}`
+}
 
 
 const IFrameTable = () => {
   const router = useRouter()
   const { query } = router
 
+  const { t } = useTranslation('tables')
+
   const searchEventsRequestDTO: SearchEventsRequestDTO = convertQueryToEventRequest(query)
 
   const { data, error } = useRequest<Events>({
@@ -31,8 +45,29 @@ const IFrameTable = () => {
     )
   }
 
+  // the calendar gets the same events as the table
+  const eventsICalUrl = getEventsICalUrl(searchEventsRequestDTO)
+
   return (
-    <Table dataSource={data}/>
+    <Fragment>
+      <Space style={{ marginBottom: 8 }}>
+        <Button
+          type="primary"
+          icon={<CalendarOutlined/>}
+          href={convertUrlToWebcal(eventsICalUrl)}
+        >
+          {t('subscribe')}
+        </Button>
+        <Button
+          icon={<DownloadOutlined/>}
+          href={eventsICalUrl}
+        >
+          {t('download')}
+        </Button>
+      </Space>
+
+      <Table dataSource={data}/>
+    </Fragment>
   )
 }
 
@@ -8,17 +8,23 @@ import grequests
 import time
 
 from loguru import logger
-from typing import NamedTuple, List, Optional, Generator
+from typing import NamedTuple, List, Optional, Generator, Dict, Tuple
+from collections import Counter
+from itertools import permutations
 from dotenv import dotenv_values
 from math import ceil
 from pathlib import PurePath, Path
-from sqlalchemy import String, Integer, Column
+from sqlalchemy import String, Integer, Column, delete
 from sqlalchemy.ext.asyncio import create_async_engine, AsyncSession
 from sqlalchemy.orm import declarative_base, sessionmaker
 
 # TODO: move to args
 MAX_NUMBER_OF_TAGS_TO_REQUEST = 1000
 DB_CHUNK_SIZE = 200
+# the search returns at most this many entries, the areas that reach it are split into quarters
+SEARCH_LIMIT = 2000
+MAX_BBOX_SPLIT_DEPTH = 8
+WORLD_BBOX = (-90.0, -180.0, 90.0, 180.0)
 
 parser = argparse.ArgumentParser()
 parser.add_argument('--dev', action='store_true')
@@ -77,6 +83,21 @@ class TagFrequency(Base):
     frequency = Column(Integer)
 
 
+class TagCooccurrenceDTO(NamedTuple):
+    tag: str
+    related_tag: str
+    frequency: int
+
+
+# the table is created by the migrations of the app, see db/migrations
+class TagCooccurrence(Base):
+    __tablename__ = 'tag_cooccurrence'
+
+    tag = Column(String, primary_key=True)
+    related_tag = Column(String, primary_key=True)
+    frequency = Column(Integer, nullable=False)
+
+
 def request_exception_handler(_request, exception):
     raise exception
 
@@ -177,6 +198,103 @@ async def fetch_and_store_tags_frequencies():
     await update_or_insert_tags_frequencies(tags_frequencies)
 
 
+BBox = Tuple[float, float, float, float]
+
+
+def split_bbox(bbox: BBox) -> List[BBox]:
+    south, west, north, east = bbox
+    middle_lat = (south + north) / 2
+    middle_lng = (west + east) / 2
+
+    return [
+        (south, west, middle_lat, middle_lng),
+        (south, middle_lng, middle_lat, east),
+        (middle_lat, west, north, middle_lng),
+        (middle_lat, middle_lng, north, east),
+    ]
+
+
+def search_entries_tags(bbox: BBox, depth: int = 0) -> Dict[str, List[str]]:
+    search_url = f"{config['NEXT_PUBLIC_BASICS_API']}/{urls.SEARCH}"
+    bbox_param = ','.join(map(str, bbox))
+    request = grequests.get(search_url, params={'bbox': bbox_param, 'limit': SEARCH_LIMIT})
+    responses = grequests.map((request,), exception_handler=request_exception_handler)
+    entries = responses[0].json()['visible']
+
+    if len(entries) >= SEARCH_LIMIT and depth < MAX_BBOX_SPLIT_DEPTH:
+        entries_tags: Dict[str, List[str]] = {}
+        for quarter in split_bbox(bbox):
+            entries_tags.update(search_entries_tags(quarter, depth + 1))
+
+        return entries_tags
+
+    # the entries on the borders of the areas are found twice, they are keyed by their ids
+    return {entry['id']: entry['tags'] for entry in entries}
+
+
+def count_tag_cooccurrences(entries_tags: Dict[str, List[str]]) -> List[TagCooccurrenceDTO]:
+    cooccurrences = Counter()
+    for tags in entries_tags.values():
+        cooccurrences.update(permutations(sorted(set(tags)), 2))
+
+    return [
+        TagCooccurrenceDTO(tag, related_tag, frequency)
+        for (tag, related_tag), frequency in cooccurrences.items()
+    ]
+
+
+def fetch_tag_cooccurrences() -> Optional[List[TagCooccurrenceDTO]]:
+    try:
+        logger.info("start fetching the tags of the entries")
+
+        entries_tags = search_entries_tags(WORLD_BBOX)
+
+        logger.success(f"fetching the tags of the entries completed: {len(entries_tags)}")
+
+    except Exception as e:
+        logger.error(f"api failed: {e}")
+        return None
+
+    return count_tag_cooccurrences(entries_tags)
+
+
+# the pairs that are not used anymore should disappear, so the table is replaced as a whole
+async def replace_tag_cooccurrences(tag_cooccurrences: List[TagCooccurrenceDTO]):
+    logger.info(f"start replacing tag co-occurrences: {len(tag_cooccurrences)}")
+
+    try:
+        async with async_session() as session:
+            async with session.begin():
+                await session.execute(delete(TagCooccurrence))
+                session.add_all([
+                    TagCooccurrence(
+                        tag=tag_cooccurrence.tag,
+                        related_tag=tag_cooccurrence.related_tag,
+                        frequency=tag_cooccurrence.frequency,
+                    )
+                    for tag_cooccurrence in tag_cooccurrences
+                ])
+
+        logger.success("replacing tag co-occurrences completed")
+
+    except Exception as e:
+        logger.error(f"DB failed: {e}")
+
+
+async def fetch_and_store_tag_cooccurrences():
+    tag_cooccurrences = fetch_tag_cooccurrences()
+    # a failed request should not wipe the suggestions
+    if tag_cooccurrences is None:
+        return
+
+    await replace_tag_cooccurrences(tag_cooccurrences)
+
+
+async def sync_tags():
+    await fetch_and_store_tags_frequencies()
+    await fetch_and_store_tag_cooccurrences()
+
+
 async def initialize_db():
     global async_session
 
@@ -190,7 +308,7 @@ async def initialize_db():
 
 async def async_main():
     await initialize_db()
-    await fetch_and_store_tags_frequencies()
+    await sync_tags()
 
     if args.sync_once:
         return
@@ -198,7 +316,7 @@ async def async_main():
     schedule\
         .every(int(config["CRON_INTERVAL_TO_SYNC_POPULAR_TAGS_IN_MINUTES"]))\
         .minutes\
-        .do(fetch_and_store_tags_frequencies)
+        .do(sync_tags)
 
     loop = asyncio.get_event_loop()
     while True:
@@ -1,3 +1,4 @@
 # TODO: make it consistant with the web APIs, there should be only one single source of truth
 COUNT_TAGS = '/count/tags'
 MOST_POPULAR_TAGS = '/entries/most-popular-tags'
+SEARCH = '/search'
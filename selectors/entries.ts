@@ -1,6 +1,11 @@
 import { RootState } from '../slices'
 
 
-const entriesSelector = (state: RootState) => (state.entries)
+const entriesSelector = (state: RootState) => (state.entries.visible)
 
-export default entriesSelector
\ No newline at end of file
+// the entries that match the search but are located just outside of the bbox
+export const invisibleEntriesSelector = (state: RootState) => (state.entries.invisible)
+
+export const entriesOpeningHoursSelector = (state: RootState) => (state.entries.openingHours)
+
+export default entriesSelector
@@ -4,7 +4,7 @@ import Event, { CompactEvent } from '../dtos/Event'
 import Category from '../dtos/Categories'
 
 
-const eventsSelector = (state: RootState) => (state.events)
+const eventsSelector = (state: RootState) => (state.events.items)
 
 // creates a view of entries to be shown on the map and the result list
 export const compactEventsSelector = createSelector(
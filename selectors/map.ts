@@ -0,0 +1,17 @@
+import { RootState } from '../slices'
+
+
+const mapSelector = (state: RootState) => (state.map)
+
+export const mapCenterSelector = (state: RootState) => (state.map.center)
+
+export const mapZoomSelector = (state: RootState) => (state.map.zoom)
+
+export const mapBBoxSelector = (state: RootState) => (state.map.bbox)
+
+export const pinnedLocationSelector = (state: RootState) => (state.map.pinnedLocation)
+
+export const selectedEntitySelector = (state: RootState) => (state.map.selectedEntity)
+
+
+export default mapSelector
@@ -1,4 +1,5 @@
 import { createSelector } from '@reduxjs/toolkit'
+import { RootState } from '../slices'
 import entriesSelector from './entries'
 import { compactEventsSelector } from './events'
 import { CompactEvents } from '../dtos/Event'
@@ -10,5 +11,13 @@ const searchResultSelector = createSelector(
   compactEventsSelector,
   (entries: SearchEntries, events: CompactEvents) => ([...entries, ...events]))
 
+export const isSearchLoadingSelector = (state: RootState): boolean => (
+  state.entries.isLoading || state.events.isLoading
+)
 
-export default searchResultSelector
\ No newline at end of file
+export const hasSearchErrorSelector = (state: RootState): boolean => (
+  state.entries.error !== null || state.events.error !== null
+)
+
+
+export default searchResultSelector
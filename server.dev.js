@@ -6,6 +6,8 @@ dotenv.config()
 process.env.HOSTNAME = process.env.HOSTNAME || 'localhost'
 process.env.PORT = process.env.PORT || '3000'
 process.env.NEXT_PUBLIC_SELF_API = `http://${process.env.HOSTNAME}:${process.env.PORT}/api/v0`
+// the absolute urls of the sitemaps, the cards and the feeds, never taken from the requests
+process.env.PUBLIC_ORIGIN = process.env.PUBLIC_ORIGIN || `http://${process.env.HOSTNAME}:${process.env.PORT}`
 
 
 cli.nextDev(
@@ -5,6 +5,8 @@ process.env.HOSTNAME = process.env.HOSTNAME || 'localhost'
 process.env.PORT = process.env.PORT || '3000'
 process.env.DB_NAME = 'kartevonmorgen.development.sqlite'
 process.env.NEXT_PUBLIC_SELF_API = `https://ssr.kartevonmorgen.org/api/v0`
+// the absolute urls of the sitemaps, the cards and the feeds, never taken from the requests
+process.env.PUBLIC_ORIGIN = process.env.PUBLIC_ORIGIN || `http://${process.env.HOSTNAME}:${process.env.PORT}`
 
 
 cli.nextStart(
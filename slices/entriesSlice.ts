@@ -1,31 +1,76 @@
 import { createSlice, PayloadAction } from '@reduxjs/toolkit'
 
 import { AppThunk } from '../store'
-import { AxiosInstance } from '../api'
+import { AxiosInstance, createSupersedingRequest, isCancelledRequest } from '../api'
 import API_ENDPOINTS from '../api/endpoints'
-import SearchEntry, { SearchEntries } from '../dtos/SearchEntry'
+import SearchEntry, { SearchEntries, SearchEntryID } from '../dtos/SearchEntry'
 import SearchEntriesResponseDTO from '../dtos/SearchEntriesResponse'
 import { SearchEntriesRequest as SearchEntriesRequestDTO } from '../dtos/SearchEntriesRequest'
+import { fetchEntries as fetchEntriesDetails } from '../utils/entities'
+import { EntryOpeningHours } from '../utils/openingHours'
+import { OPEN_FILTER } from '../consts/openingHours'
+
+
+// the search api returns the entries inside the bbox as visible
+// and some of the ones just outside of it as invisible
+export interface EntriesState {
+  visible: SearchEntries
+  invisible: SearchEntries
+  isLoading: boolean
+  error: string | null
+  // only fetched for the open filter, they outlive the searches so moving the map does not fetch them again
+  openingHours: Record<string, EntryOpeningHours>
+}
+
+const initialState: EntriesState = {
+  visible: [],
+  invisible: [],
+  isLoading: false,
+  error: null,
+  openingHours: {},
+}
 
 
 const entriesSlice = createSlice({
   name: 'entries',
-  initialState: [] as SearchEntries,
+  initialState: initialState,
   reducers: {
     setEntries: (state, action: PayloadAction<SearchEntries>) => {
       // clear the store
-      state.splice(0, state.length)
+      state.visible.splice(0, state.visible.length)
+      action.payload.forEach((searchEntry: SearchEntry) => {
+        state.visible.push(searchEntry)
+      })
+    },
+
+    setInvisibleEntries: (state, action: PayloadAction<SearchEntries>) => {
+      state.invisible.splice(0, state.invisible.length)
       action.payload.forEach((searchEntry: SearchEntry) => {
-        state.push(searchEntry)
+        state.invisible.push(searchEntry)
       })
     },
 
     emptyEntries: (state, _action: PayloadAction) => {
-      state.splice(0, state.length)
+      state.visible.splice(0, state.visible.length)
+      state.invisible.splice(0, state.invisible.length)
+      state.isLoading = false
+      state.error = null
     },
 
     prependEntry: (state, action: PayloadAction<SearchEntry>) => {
-      state.splice(0, 0, action.payload)
+      state.visible.splice(0, 0, action.payload)
+    },
+
+    setEntriesLoading: (state, action: PayloadAction<boolean>) => {
+      state.isLoading = action.payload
+    },
+
+    setEntriesError: (state, action: PayloadAction<string | null>) => {
+      state.error = action.payload
+    },
+
+    addOpeningHours: (state, action: PayloadAction<Record<string, EntryOpeningHours>>) => {
+      Object.assign(state.openingHours, action.payload)
     },
 
   },
@@ -34,8 +79,12 @@ const entriesSlice = createSlice({
 
 export const {
   setEntries,
+  setInvisibleEntries,
   emptyEntries,
   prependEntry,
+  setEntriesLoading,
+  setEntriesError,
+  addOpeningHours,
 } = entriesSlice.actions
 
 export const { actions } = entriesSlice
@@ -45,22 +94,98 @@ export const { actions } = entriesSlice
 // Thunks
 // todo: maybe createAsyncThunk is a better idea
 
+// every new search supersedes the previous one
+const searchEntriesRequest = createSupersedingRequest()
+let lastSearchEntriesRequestDTO: SearchEntriesRequestDTO | null = null
+
 export const fetchEntries = (
   searchEntriesRequestDTO: SearchEntriesRequestDTO,
 ): AppThunk => async dispatch => {
+  lastSearchEntriesRequestDTO = searchEntriesRequestDTO
+  const cancelTokenSource = searchEntriesRequest.start()
+
+  dispatch(setEntriesLoading(true))
+  dispatch(setEntriesError(null))
+
+  try {
+    const searchEntriesReq = await AxiosInstance.GetRequest<SearchEntriesResponseDTO>(
+      API_ENDPOINTS.searchEntries(),
+      {
+        params: searchEntriesRequestDTO,
+        cancelToken: cancelTokenSource.token,
+      },
+    )
+
+    if (!searchEntriesRequest.isLatest(cancelTokenSource)) {
+      return
+    }
+
+    const searchEntries = AxiosInstance.GetSuccessData(searchEntriesReq)
+
+    dispatch(setEntries(searchEntries.visible))
+    dispatch(setInvisibleEntries(searchEntries.invisible))
+  } catch (e) {
+    // the newer request takes care of the state
+    if (isCancelledRequest(e) || !searchEntriesRequest.isLatest(cancelTokenSource)) {
+      return
+    }
+
+    dispatch(setEntriesError(AxiosInstance.GetFailureData(e).errorMessage || e.message))
+  }
+
+  dispatch(setEntriesLoading(false))
+}
 
-  const searchEntriesReq = await AxiosInstance.GetRequest<SearchEntriesResponseDTO>(
-    API_ENDPOINTS.searchEntries(),
-    {
-      params: searchEntriesRequestDTO,
-    },
-  )
+export const refetchEntries = (): AppThunk => async dispatch => {
+  if (lastSearchEntriesRequestDTO === null) {
+    return
+  }
+
+  dispatch(fetchEntries(lastSearchEntriesRequestDTO))
+}
 
-  const searchEntries = AxiosInstance.GetSuccessData(searchEntriesReq)
+// cancels the running search as well, otherwise it would fill the entries again
+export const clearEntries = (): AppThunk => async dispatch => {
+  searchEntriesRequest.cancel()
+  lastSearchEntriesRequestDTO = null
+
+  dispatch(emptyEntries())
+}
 
-  dispatch(setEntries(searchEntries.visible))
+// the ids that are being fetched, so the following searches do not ask for them again
+const openingHoursRequests = new Set<string>()
+
+export const fetchOpeningHours = (
+  ids: SearchEntryID[],
+): AppThunk => async (dispatch, getState) => {
+  const { openingHours } = getState().entries
+  const idsToFetch = ids.filter(id => openingHours[id] === undefined && !openingHoursRequests.has(id))
+  if (idsToFetch.length === 0) {
+    return
+  }
+
+  idsToFetch.forEach(id => openingHoursRequests.add(id))
+
+  try {
+    const entries = await fetchEntriesDetails(idsToFetch, OPEN_FILTER.entriesPerRequest)
+
+    // the unknown ids are stored as well, otherwise they would be requested again and again
+    const fetchedOpeningHours: Record<string, EntryOpeningHours> = {}
+    idsToFetch.forEach(id => {
+      fetchedOpeningHours[id] = { opening_hours: null, state: null }
+    })
+    entries.forEach(entry => {
+      fetchedOpeningHours[entry.id] = { opening_hours: entry.opening_hours || null, state: entry.state || null }
+    })
+
+    dispatch(addOpeningHours(fetchedOpeningHours))
+  } catch (e) {
+    // the entries stay unknown and are tried again with the next search
+  }
+
+  idsToFetch.forEach(id => openingHoursRequests.delete(id))
 }
 
 ///////////////////////////////
 
-export default entriesSlice.reducer
\ No newline at end of file
+export default entriesSlice.reducer
@@ -2,26 +2,49 @@ import { createSlice, PayloadAction } from '@reduxjs/toolkit'
 import Event, { Events } from '../dtos/Event'
 import { SearchEventsRequest as SearchEventsRequestDTO } from '../dtos/SearchEventsRequest'
 import { AppThunk } from '../store'
-import { AxiosInstance } from '../api'
+import { AxiosInstance, createSupersedingRequest, isCancelledRequest } from '../api'
 import API_ENDPOINTS from '../api/endpoints'
 
 
+export interface EventsState {
+  items: Events
+  isLoading: boolean
+  error: string | null
+}
+
+const initialState: EventsState = {
+  items: [],
+  isLoading: false,
+  error: null,
+}
+
+
 const eventsSlice = createSlice({
   name: 'events',
-  initialState: [] as Events,
+  initialState: initialState,
   reducers: {
     setEvents: (state, action: PayloadAction<Events>) => {
-      state.splice(0, state.length)
+      state.items.splice(0, state.items.length)
       action.payload.forEach((event: Event) => {
-        state.push(event)
+        state.items.push(event)
       })
     },
     emptyEvents: (state, _action: PayloadAction) => {
-      state.splice(0, state.length)
+      state.items.splice(0, state.items.length)
+      state.isLoading = false
+      state.error = null
     },
 
     prependEvent: (state, action: PayloadAction<Event>) => {
-      state.splice(0, 0, action.payload)
+      state.items.splice(0, 0, action.payload)
+    },
+
+    setEventsLoading: (state, action: PayloadAction<boolean>) => {
+      state.isLoading = action.payload
+    },
+
+    setEventsError: (state, action: PayloadAction<string | null>) => {
+      state.error = action.payload
     },
 
   },
@@ -32,6 +55,8 @@ export const {
   setEvents,
   emptyEvents,
   prependEvent,
+  setEventsLoading,
+  setEventsError,
 } = eventsSlice.actions
 
 
@@ -41,22 +66,63 @@ export const { actions } = eventsSlice
 // Thunks
 // todo: maybe createAsyncThunk is a better idea
 
+// every new search supersedes the previous one
+const searchEventsRequest = createSupersedingRequest()
+let lastSearchEventsRequestDTO: SearchEventsRequestDTO | null = null
+
 export const fetchEvents = (
   searchEventsRequestDTO: SearchEventsRequestDTO,
 ): AppThunk => async dispatch => {
+  lastSearchEventsRequestDTO = searchEventsRequestDTO
+  const cancelTokenSource = searchEventsRequest.start()
 
-  const searchEventsReq = await AxiosInstance.GetRequest<Events>(
-    API_ENDPOINTS.searchEvents(),
-    {
-      params: searchEventsRequestDTO,
-    },
-  )
+  dispatch(setEventsLoading(true))
+  dispatch(setEventsError(null))
+
+  try {
+    const searchEventsReq = await AxiosInstance.GetRequest<Events>(
+      API_ENDPOINTS.searchEvents(),
+      {
+        params: searchEventsRequestDTO,
+        cancelToken: cancelTokenSource.token,
+      },
+    )
+
+    if (!searchEventsRequest.isLatest(cancelTokenSource)) {
+      return
+    }
+
+    const searchEvents = AxiosInstance.GetSuccessData(searchEventsReq)
+
+    dispatch(setEvents(searchEvents))
+  } catch (e) {
+    // the newer request takes care of the state
+    if (isCancelledRequest(e) || !searchEventsRequest.isLatest(cancelTokenSource)) {
+      return
+    }
+
+    dispatch(setEventsError(AxiosInstance.GetFailureData(e).errorMessage || e.message))
+  }
+
+  dispatch(setEventsLoading(false))
+}
+
+export const refetchEvents = (): AppThunk => async dispatch => {
+  if (lastSearchEventsRequestDTO === null) {
+    return
+  }
+
+  dispatch(fetchEvents(lastSearchEventsRequestDTO))
+}
 
-  const searchEvents = AxiosInstance.GetSuccessData(searchEventsReq)
+// cancels the running search as well, otherwise it would fill the events again
+export const clearEvents = (): AppThunk => async dispatch => {
+  searchEventsRequest.cancel()
+  lastSearchEventsRequestDTO = null
 
-  dispatch(setEvents(searchEvents))
+  dispatch(emptyEvents())
 }
 
 ///////////////////////////////
 
-export default eventsSlice.reducer
\ No newline at end of file
+export default eventsSlice.reducer
@@ -2,22 +2,26 @@ import { combineReducers } from '@reduxjs/toolkit'
 
 import eventReducer, { actions as eventsActions } from './eventsSlice'
 import entriesReducer, { actions as entriesActions } from './entriesSlice'
+import mapReducer, { actions as mapActions } from './mapSlice'
 
 export { actions as eventsActions } from './eventsSlice'
 export { actions as entriesActions } from './entriesSlice'
+export { actions as mapActions } from './mapSlice'
 
 
 const rootReducer = combineReducers({
   events: eventReducer,
   entries: entriesReducer,
+  map: mapReducer,
 })
 
 
 export const actions = {
   ...eventsActions,
   ...entriesActions,
+  ...mapActions,
 }
 
 export type RootState = ReturnType<typeof rootReducer>
 
-export default rootReducer
\ No newline at end of file
+export default rootReducer
@@ -1 +1,149 @@
-export default {}
\ No newline at end of file
+import { createSlice, PayloadAction } from '@reduxjs/toolkit'
+import { BoundingBox } from '../dtos/BoundingBox'
+import { SlugId, SlugVerb } from '../utils/types'
+import { convertStringToFloat } from '../utils/utils'
+import mapConsts from '../consts/map'
+
+
+export interface MapCenter {
+  lat: number
+  lng: number
+}
+
+// the entity that is shown or edited in the sidebar, as described by the slug
+export interface SelectedEntity {
+  entity: string
+  id: SlugId
+  verb: SlugVerb
+}
+
+// the map should fly only if the viewport is changed by something else than the map itself,
+// otherwise moving the map would result in endless flyTo calls
+export enum ViewportChangeSource {
+  MAP = 'map',
+  URL = 'url',
+  APP = 'app',
+}
+
+export interface MapState {
+  center: MapCenter
+  zoom: number
+  bbox: BoundingBox | null
+  pinnedLocation: MapCenter | null
+  selectedEntity: SelectedEntity | null
+  viewportChangedBy: ViewportChangeSource
+  // becomes true after the first sync with the url, before it the viewport holds only the defaults
+  isInitialized: boolean
+}
+
+export interface Viewport {
+  center: MapCenter
+  zoom: number
+  bbox?: BoundingBox
+}
+
+export interface MapStateFromUrl {
+  center: MapCenter
+  zoom: number
+  pinnedLocation: MapCenter | null
+  selectedEntity: SelectedEntity | null
+}
+
+
+// the values are kept in the same precision as in the url
+// so comparing the url with the state does not result in false changes
+export const roundCenter = (center: MapCenter): MapCenter => ({
+  lat: convertStringToFloat(center.lat.toString(), mapConsts.urlPrecisions.lat),
+  lng: convertStringToFloat(center.lng.toString(), mapConsts.urlPrecisions.lng),
+})
+
+export const roundZoom = (zoom: number): number => (
+  convertStringToFloat(zoom.toString(), mapConsts.urlPrecisions.zoom)
+)
+
+
+const initialState: MapState = {
+  center: {
+    lat: 50.826,
+    lng: 10.92,
+  },
+  zoom: 7,
+  bbox: null,
+  pinnedLocation: null,
+  selectedEntity: null,
+  viewportChangedBy: ViewportChangeSource.APP,
+  isInitialized: false,
+}
+
+
+const mapSlice = createSlice({
+  name: 'map',
+  initialState: initialState,
+  reducers: {
+    // only the map itself should dispatch it, e.g. after moving or zooming
+    setViewportFromMap: (state, action: PayloadAction<Viewport>) => {
+      const { center, zoom, bbox } = action.payload
+
+      state.center = roundCenter(center)
+      state.zoom = roundZoom(zoom)
+      if (bbox !== undefined) {
+        state.bbox = bbox
+      }
+      state.viewportChangedBy = ViewportChangeSource.MAP
+    },
+
+    setCenter: (state, action: PayloadAction<MapCenter>) => {
+      state.center = roundCenter(action.payload)
+      state.viewportChangedBy = ViewportChangeSource.APP
+    },
+
+    // e.g. for the host pages of the embedded maps
+    setViewport: (state, action: PayloadAction<Viewport>) => {
+      const { center, zoom } = action.payload
+
+      state.center = roundCenter(center)
+      state.zoom = roundZoom(zoom)
+      state.viewportChangedBy = ViewportChangeSource.APP
+    },
+
+    setBBox: (state, action: PayloadAction<BoundingBox>) => {
+      state.bbox = action.payload
+    },
+
+    setPinnedLocation: (state, action: PayloadAction<MapCenter | null>) => {
+      state.pinnedLocation = action.payload
+    },
+
+    setSelectedEntity: (state, action: PayloadAction<SelectedEntity | null>) => {
+      state.selectedEntity = action.payload
+    },
+
+    syncMapStateFromUrl: (state, action: PayloadAction<MapStateFromUrl>) => {
+      const { center, zoom, pinnedLocation, selectedEntity } = action.payload
+
+      state.center = roundCenter(center)
+      state.zoom = roundZoom(zoom)
+      state.pinnedLocation = pinnedLocation
+      state.selectedEntity = selectedEntity
+      state.viewportChangedBy = ViewportChangeSource.URL
+      state.isInitialized = true
+    },
+
+  },
+})
+
+
+export const {
+  setViewportFromMap,
+  setCenter,
+  setViewport,
+  setBBox,
+  setPinnedLocation,
+  setSelectedEntity,
+  syncMapStateFromUrl,
+} = mapSlice.actions
+
+export const { actions } = mapSlice
+
+
+export default mapSlice.reducer
@@ -2,14 +2,16 @@ import { configureStore, Action } from '@reduxjs/toolkit'
 import { ThunkAction } from 'redux-thunk'
 
 import rootReducer, {RootState} from './slices'
+import mapUrlSyncMiddleware from './middlewares/mapUrlSync'
 
 
 const store = configureStore({
-  reducer: rootReducer
+  reducer: rootReducer,
+  middleware: getDefaultMiddleware => getDefaultMiddleware().concat(mapUrlSyncMiddleware),
 })
 
 export type AppDispatch = typeof store.dispatch
 
 export type AppThunk = ThunkAction<void, RootState, unknown, Action<string>>
 
-export default store
\ No newline at end of file
+export default store
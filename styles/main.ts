@@ -0,0 +1,9 @@
+export const PRIMARY_COLOR = '#666'
+export const PRIMARY_BORDER_COLOR = '#555'
+export const PRIMARY_HOVER_COLOR = '#777'
+export const PRIMARY_HOVER_BORDER_COLOR = '#666'
+
+export const INITIATIVE_COLOR = '#a4c93e'
+export const COMPANY_COLOR = '#31a1b6'
+export const EVENT_COLOR = '#eb80a9'
+export const UNKNOWN_COLOR = '#999'
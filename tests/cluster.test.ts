@@ -0,0 +1,103 @@
+import {
+  createSearchResultsIndex,
+  getCategoryCountOfSearchResult,
+  getSpiderfyOffsets,
+  isClusterFeature,
+  SearchResultClusterFeature,
+} from '../utils/cluster'
+import { SearchResult } from '../dtos/SearchResult'
+import Category from '../dtos/Categories'
+import { MAP_CLUSTER } from '../consts/map'
+
+
+const createSearchResult = (id: string, categories: string[], lat: number = 48.1374, lng: number = 11.5755): SearchResult => (
+  { id, title: id, lat, lng, categories } as SearchResult
+)
+
+const getDistance = ([x, y]: [number, number]): number => Math.sqrt(x * x + y * y)
+
+
+describe('count the categories of the clusters', () => {
+  test('counts a search result by its first category', () => {
+    expect(getCategoryCountOfSearchResult(createSearchResult('a', [Category.COMPANY, Category.INITIATIVE]))).toEqual({
+      [Category.INITIATIVE]: 0,
+      [Category.COMPANY]: 1,
+      [Category.EVENT]: 0,
+      [Category.UNKNOWN]: 0,
+    })
+  })
+
+  test('counts the unknown categories as unknown', () => {
+    expect(getCategoryCountOfSearchResult(createSearchResult('a', ['somethingElse']))[Category.UNKNOWN]).toEqual(1)
+    expect(getCategoryCountOfSearchResult(createSearchResult('b', []))[Category.UNKNOWN]).toEqual(1)
+  })
+
+  test('sums up the categories of the clustered search results', () => {
+    const index = createSearchResultsIndex(
+      [
+        createSearchResult('a', [Category.INITIATIVE]),
+        createSearchResult('b', [Category.INITIATIVE]),
+        createSearchResult('c', [Category.COMPANY]),
+        createSearchResult('d', [Category.EVENT]),
+        // far away, it stays a single point
+        createSearchResult('e', [Category.EVENT], 52.52, 13.405),
+      ],
+      MAP_CLUSTER,
+    )
+
+    const features = index.getClusters([-180, -85, 180, 85], 10)
+    const clusters = features.filter(isClusterFeature) as SearchResultClusterFeature[]
+
+    expect(features).toHaveLength(2)
+    expect(clusters).toHaveLength(1)
+    expect(clusters[0].properties.point_count).toEqual(4)
+    expect(clusters[0].properties.categoryCount).toEqual({
+      [Category.INITIATIVE]: 2,
+      [Category.COMPANY]: 1,
+      [Category.EVENT]: 1,
+      [Category.UNKNOWN]: 0,
+    })
+  })
+
+  test('keeps the search results in the leaves of the clusters', () => {
+    const searchResults = [createSearchResult('a', [Category.INITIATIVE]), createSearchResult('b', [Category.COMPANY])]
+    const index = createSearchResultsIndex(searchResults, MAP_CLUSTER)
+
+    const [cluster] = index.getClusters([-180, -85, 180, 85], MAP_CLUSTER.maxZoom)
+    const leaves = index.getLeaves(cluster.properties['cluster_id'], Infinity)
+
+    expect(leaves.map(leaf => leaf.properties.searchResult.id).sort()).toEqual(['a', 'b'])
+  })
+})
+
+
+describe('spiderfy the clusters that can not be expanded', () => {
+  test('places the small groups on a circle', () => {
+    const offsets = getSpiderfyOffsets(4, MAP_CLUSTER.spiderfyRadius)
+
+    expect(offsets).toHaveLength(4)
+    offsets.forEach(offset => expect(getDistance(offset)).toBeCloseTo(MAP_CLUSTER.spiderfyRadius))
+    expect(offsets[0][0]).toBeCloseTo(MAP_CLUSTER.spiderfyRadius)
+    expect(offsets[0][1]).toBeCloseTo(0)
+    expect(offsets[2][0]).toBeCloseTo(-MAP_CLUSTER.spiderfyRadius)
+    expect(offsets[2][1]).toBeCloseTo(0)
+  })
+
+  test('places the bigger groups on a growing spiral', () => {
+    const offsets = getSpiderfyOffsets(20, MAP_CLUSTER.spiderfyRadius)
+    const distances = offsets.map(getDistance)
+
+    expect(offsets).toHaveLength(20)
+    distances.slice(1).forEach((distance, i) => expect(distance).toBeGreaterThan(distances[i]))
+  })
+
+  test('does not put two markers on top of each other', () => {
+    [2, 8, 9, 50].forEach(count => {
+      const offsets = getSpiderfyOffsets(count, MAP_CLUSTER.spiderfyRadius)
+
+      offsets.forEach((a, i) => offsets.slice(i + 1).forEach(b => {
+        expect(getDistance([a[0] - b[0], a[1] - b[1]])).toBeGreaterThan(MAP_CLUSTER.spiderfyRadius / 2)
+      }))
+    })
+  })
+})
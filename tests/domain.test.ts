@@ -0,0 +1,31 @@
+import { isValidLink } from '../utils/domain'
+import { getTagDetailFromLink } from '../utils/tags/domainToTagDetailMapper'
+
+
+describe('check the custom links', () => {
+  test.each([
+    ['https://www.kartevonmorgen.org', true],
+    ['http://example.com/path?query=1', true],
+    ['mailto:info@example.com', false],
+    ['javascript:alert(1)', false],
+    ['www.example.com', false],
+    ['', false],
+  ])(
+    'tells if %s is a valid link',
+    (link: string, isValid: boolean) => {
+      expect(isValidLink(link)).toEqual(isValid)
+    })
+
+  test('finds the icon of the known domains without the www', () => {
+    expect(getTagDetailFromLink('https://www.nachhaltiger-warenkorb.de/').name).toEqual('renn')
+  })
+
+  test.each([
+    'https://example.com',
+    'not a link yet',
+  ])(
+    'gives %s the default icon',
+    (link: string) => {
+      expect(getTagDetailFromLink(link).name).toEqual('link')
+    })
+})
@@ -0,0 +1,95 @@
+import moment from 'moment'
+import { deserializeDraft, discardDraft, DraftStorage, getDraftKey, loadDraft, saveDraft, serializeDraft } from '../utils/drafts'
+import { EntrySlugEntity, RootSlugEntity, SlugVerb } from '../utils/types'
+import { DRAFTS } from '../consts/drafts'
+
+
+const createStorage = (): DraftStorage => {
+  const items = new Map<string, string>()
+
+  return {
+    getItem: (key: string) => (items.has(key) ? items.get(key) : null),
+    setItem: (key: string, value: string) => {
+      items.set(key, value)
+    },
+    removeItem: (key: string) => {
+      items.delete(key)
+    },
+  }
+}
+
+const now = moment('2021-05-18T10:30:00Z').unix()
+
+
+describe('keep the drafts of the forms', () => {
+  test('keys the drafts by the slug action and the entity', () => {
+    expect(getDraftKey(RootSlugEntity.ENTRY, SlugVerb.EDIT, 'a1b2')).toEqual('draft/entry/edit/a1b2')
+    expect(getDraftKey(RootSlugEntity.EVENT, SlugVerb.CREATE, null)).toEqual('draft/event/create/new')
+    expect(getDraftKey(EntrySlugEntity.RATING, SlugVerb.CREATE, 'a1b2')).toEqual('draft/rating/create/a1b2')
+  })
+
+  test('keeps the dates of the events as moments', () => {
+    const duration = [moment.unix(now), moment.unix(now).add(2, 'hours')]
+    const draft = deserializeDraft(serializeDraft({ values: { title: 'Repair Café', duration }, savedAt: now }))
+
+    expect(draft.savedAt).toEqual(now)
+    expect(draft.values['title']).toEqual('Repair Café')
+    expect(moment.isMoment(draft.values['duration'][0])).toBe(true)
+    expect(draft.values['duration'].map(date => date.unix())).toEqual(duration.map(date => date.unix()))
+  })
+
+  test('restores the saved draft until it is discarded', () => {
+    const storage = createStorage()
+    const key = getDraftKey(RootSlugEntity.ENTRY, SlugVerb.CREATE, 'company')
+
+    saveDraft(storage, key, { title: 'Unverpackt', tags: ['zero-waste'] }, now)
+    expect(loadDraft(storage, key, now)).toEqual({ values: { title: 'Unverpackt', tags: ['zero-waste'] }, savedAt: now })
+
+    discardDraft(storage, key)
+    expect(loadDraft(storage, key, now)).toBeNull()
+  })
+
+  test('does not keep the empty forms', () => {
+    const storage = createStorage()
+
+    saveDraft(storage, 'draft/event/create/new', { title: '', tags: [], homepage: undefined }, now)
+
+    expect(storage.getItem('draft/event/create/new')).toBeNull()
+  })
+
+  test('leaves the place of the new entries to the pin', () => {
+    const storage = createStorage()
+    const key = getDraftKey(RootSlugEntity.ENTRY, SlugVerb.CREATE, 'company')
+    const location = { lat: 48.1, lng: 11.5, city: 'München', street: 'Marienplatz 1', zip: '80331' }
+
+    saveDraft(storage, key, location, now, DRAFTS.locationFields)
+    expect(storage.getItem(key)).toBeNull()
+
+    saveDraft(storage, key, { title: 'Unverpackt', ...location }, now, DRAFTS.locationFields)
+    expect(loadDraft(storage, key, now)).toEqual({ values: { title: 'Unverpackt' }, savedAt: now })
+
+    // e.g. the drafts saved before the place was left out
+    saveDraft(storage, key, { title: 'Unverpackt', ...location }, now)
+    expect(loadDraft(storage, key, now, DRAFTS.locationFields)).toEqual({ values: { title: 'Unverpackt' }, savedAt: now })
+  })
+
+  test('leaves the version of the edited entries to the backend', () => {
+    const storage = createStorage()
+    const key = getDraftKey(RootSlugEntity.ENTRY, SlugVerb.EDIT, 'a1b2')
+
+    saveDraft(storage, key, { id: 'a1b2', version: 3, title: 'Unverpackt' }, now, DRAFTS.versionFields)
+    expect(loadDraft(storage, key, now, DRAFTS.versionFields)).toEqual({ values: { title: 'Unverpackt' }, savedAt: now })
+  })
+
+  test('removes the old drafts and the ones that can not be read', () => {
+    const storage = createStorage()
+
+    saveDraft(storage, 'old', { title: 'Unverpackt' }, moment.unix(now).subtract(31, 'days').unix())
+    storage.setItem('broken', '{"values":')
+
+    expect(loadDraft(storage, 'old', now)).toBeNull()
+    expect(loadDraft(storage, 'broken', now)).toBeNull()
+    expect(storage.getItem('old')).toBeNull()
+    expect(storage.getItem('broken')).toBeNull()
+  })
+})
@@ -0,0 +1,102 @@
+import {
+  DuplicateCandidate,
+  DuplicateReason,
+  findDuplicates,
+  getBBoxAroundPoint,
+  getDistance,
+  getTitleSimilarity,
+  normalizeHomepage,
+  normalizeTitle,
+  scoreDuplicate,
+} from '../utils/duplicates'
+
+
+const entry: DuplicateCandidate = {
+  title: 'Bioladen am Markt',
+  lat: 48.1374,
+  lng: 11.5755,
+  homepage: 'https://www.bioladen-markt.de/',
+  email: 'info@bioladen-markt.de',
+}
+
+
+describe('normalize the values', () => {
+  test('folds the titles', () => {
+    expect(normalizeTitle('Café Müller & Söhne')).toEqual('cafemuellersoehne')
+  })
+
+  test.each([
+    ['https://www.example.org/shop/', 'example.org/shop'],
+    ['http://example.org?utm_source=kvm', 'example.org'],
+    ['EXAMPLE.org', 'example.org'],
+    [null, ''],
+  ])(
+    'reads the homepage %s as %s',
+    (homepage: string | null, normalizedHomepage: string) => {
+      expect(normalizeHomepage(homepage)).toEqual(normalizedHomepage)
+    })
+})
+
+
+describe('compare the entries', () => {
+  test('scores the similar titles', () => {
+    expect(getTitleSimilarity('Bioladen am Markt', 'bioladen am markt!')).toEqual(1)
+    expect(getTitleSimilarity('Bioladen am Markt', 'Bio-Laden am Marktplatz')).toBeGreaterThan(0.6)
+    expect(getTitleSimilarity('Bioladen am Markt', 'Repair Café')).toEqual(0)
+  })
+
+  test('measures the distance in meters', () => {
+    // one thousandth of a degree of latitude is about 111 meters
+    expect(getDistance(48, 11, 48.001, 11)).toBeCloseTo(111.2, 0)
+  })
+
+  test('surrounds the point with the radius', () => {
+    const [south, west, north, east] = getBBoxAroundPoint(48, 11, 1000)
+
+    expect(getDistance(48, 11, north, 11)).toBeCloseTo(1000, 0)
+    expect(getDistance(48, 11, south, 11)).toBeCloseTo(1000, 0)
+    expect(getDistance(48, 11, 48, east)).toBeCloseTo(1000, -1)
+    expect(getDistance(48, 11, 48, west)).toBeCloseTo(1000, -1)
+  })
+
+  test('names the reasons', () => {
+    const { reasons, score } = scoreDuplicate(entry, {
+      title: 'Bio Laden am Markt',
+      lat: 48.1375,
+      lng: 11.5755,
+      homepage: 'bioladen-markt.de',
+      email: 'INFO@bioladen-markt.de ',
+    })
+
+    expect(reasons).toEqual([
+      DuplicateReason.TITLE,
+      DuplicateReason.HOMEPAGE,
+      DuplicateReason.EMAIL,
+      DuplicateReason.LOCATION,
+    ])
+    expect(score).toEqual(1)
+  })
+})
+
+
+describe('find the duplicates', () => {
+  const candidates: DuplicateCandidate[] = [
+    // the neighbour in the same building
+    { id: 'neighbour', title: 'Repair Café', lat: 48.1374, lng: 11.5756 },
+    // the same shop a bit further down the street
+    { id: 'sameTitle', title: 'Bio-Laden am Markt', lat: 48.1384, lng: 11.5755 },
+    // the new branch of the same shop
+    { id: 'sameHomepage', title: 'Naturkost Ost', lat: 48.14, lng: 11.6, homepage: 'bioladen-markt.de' },
+    { id: 'sameAddress', title: 'Bioladen', lat: 48.1374, lng: 11.5755, email: 'info@bioladen-markt.de' },
+  ]
+
+  test('sorts the likely duplicates first and leaves out the others', () => {
+    expect(findDuplicates(entry, candidates).map(duplicate => duplicate.candidate.id))
+      .toEqual(['sameAddress', 'sameTitle', 'sameHomepage'])
+  })
+
+  test('does not find the entry itself', () => {
+    expect(findDuplicates({ ...entry, id: 'sameTitle' }, candidates).map(duplicate => duplicate.candidate.id))
+      .not.toContain('sameTitle')
+  })
+})
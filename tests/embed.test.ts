@@ -0,0 +1,98 @@
+import {
+  createEmbedSnippet,
+  createEmbedUrl,
+  createSelectEvent,
+  EmbedCommandType,
+  EmbedEventType,
+  EmbedOptions,
+  parseEmbedCommand,
+} from '../utils/embed'
+import { getMapBasePath, isEmbedPathname } from '../utils/router'
+import { RootSlugEntity, SlugVerb } from '../utils/types'
+
+
+const options: EmbedOptions = {
+  fixedTags: [],
+  orgTag: '',
+  allowedCategories: [],
+  showSidebar: true,
+}
+
+
+describe('parse the commands of the host page', () => {
+  test.each([
+    [{ type: 'kvm:setCenter', lat: 50.8, lng: 10.9, zoom: 9 }, { type: EmbedCommandType.SET_CENTER, lat: 50.8, lng: 10.9, zoom: 9 }],
+    [{ type: 'kvm:setCenter', lat: 50.8, lng: 10.9 }, { type: EmbedCommandType.SET_CENTER, lat: 50.8, lng: 10.9, zoom: undefined }],
+    [{ type: 'kvm:setTags', tags: ['repair'] }, { type: EmbedCommandType.SET_TAGS, tags: ['repair'] }],
+    [{ type: 'kvm:setSearch', text: 'cafe' }, { type: EmbedCommandType.SET_SEARCH, text: 'cafe' }],
+  ])('reads %j', (data, command) => {
+    expect(parseEmbedCommand(data)).toEqual(command)
+  })
+
+  test.each([
+    ['a string'],
+    [null],
+    [{ type: 'unknown' }],
+    [{ type: 'kvm:setCenter', lat: '50.8', lng: 10.9 }],
+    [{ type: 'kvm:setTags', tags: [1] }],
+    [{ type: 'kvm:setSearch' }],
+  ])('ignores %j', (data) => {
+    expect(parseEmbedCommand(data)).toBeNull()
+  })
+})
+
+
+describe('emit the selection to the host page', () => {
+  test('sends the selected entity', () => {
+    expect(createSelectEvent({ entity: RootSlugEntity.ENTRY, id: 'entryId', verb: SlugVerb.SHOW })).toEqual({
+      type: EmbedEventType.SELECT,
+      entity: { entity: RootSlugEntity.ENTRY, id: 'entryId' },
+    })
+  })
+
+  test('sends null when nothing is selected', () => {
+    expect(createSelectEvent(null)).toEqual({ type: EmbedEventType.SELECT, entity: null })
+  })
+})
+
+
+describe('build the iframe', () => {
+  test('leaves the defaults out of the url', () => {
+    expect(createEmbedUrl('https://example.org', 'main', options)).toEqual('https://example.org/embed/main')
+  })
+
+  test('adds the filters and the view to the url', () => {
+    const url = createEmbedUrl('https://example.org', 'main', {
+      fixedTags: ['repair', 'diy'],
+      orgTag: 'org',
+      allowedCategories: ['initiative', 'event'],
+      showSidebar: false,
+      lat: 50.8,
+      lng: 10.9,
+      zoom: 9,
+    })
+
+    expect(url).toEqual(
+      'https://example.org/embed/main?fixedTags=repair%2Cdiy&orgTag=org' +
+      '&allowedCategories=initiative%2Cevent&sidebar=false&lat=50.8&lng=10.9&zoom=9',
+    )
+  })
+
+  test('escapes the attributes of the snippet', () => {
+    const snippet = createEmbedSnippet('https://example.org/embed/main?a=1&b="2"', { width: '100%', height: '600' })
+
+    expect(snippet).toEqual(
+      '<iframe src="https://example.org/embed/main?a=1&amp;b=&quot;2&quot;" width="100%" height="600" ' +
+      'style="border: 0" allow="geolocation" loading="lazy"></iframe>',
+    )
+  })
+
+  test.each([
+    ['/embed/[...slug]', true, '/embed'],
+    ['/maps/[...slug]', false, '/maps'],
+    ['/embedded', false, '/maps'],
+  ])('knows whether %s is embedded', (pathname: string, isEmbedded: boolean, basePath: string) => {
+    expect(isEmbedPathname(pathname)).toBe(isEmbedded)
+    expect(getMapBasePath(pathname)).toEqual(basePath)
+  })
+})
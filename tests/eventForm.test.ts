@@ -0,0 +1,45 @@
+import moment from 'moment'
+import { EventFormProblem, EventFormValues, getEventFormProblems } from '../utils/eventForm'
+
+
+const start = moment('2021-05-18T18:00:00Z')
+
+const formValues: EventFormValues = {
+  title: 'Repair Café',
+  description: 'Bring your broken toasters and bikes',
+  duration: [start, start.clone().add(2, 'hours')],
+  lat: 48.7758,
+  lng: 9.1829,
+  telephone: '+49711123456',
+  email: 'repair@example.com',
+}
+
+
+describe('check the imported events with the rules of the event form', () => {
+  test('sends the complete events', () => {
+    expect(getEventFormProblems(formValues)).toEqual([])
+  })
+
+  test('finds every problem of an event', () => {
+    expect(getEventFormProblems({
+      title: 'RC',
+      description: 'x'.repeat(251),
+      duration: undefined,
+      lat: undefined,
+      lng: 9.1829,
+      telephone: undefined,
+      email: 'not an email',
+    })).toEqual([
+      EventFormProblem.TITLE,
+      EventFormProblem.DURATION,
+      EventFormProblem.DESCRIPTION,
+      EventFormProblem.LOCATION,
+      EventFormProblem.TELEPHONE,
+      EventFormProblem.EMAIL,
+    ])
+  })
+
+  test('requires the coordinates of the calendars without geo', () => {
+    expect(getEventFormProblems({ ...formValues, lat: '', lng: '' })).toEqual([EventFormProblem.LOCATION])
+  })
+})
@@ -0,0 +1,173 @@
+import {
+  convertEventToFeedItem,
+  createAtomFeed,
+  createFeedUrl,
+  createRssFeed,
+  Feed,
+  FeedFormat,
+  FeedKind,
+  getFeedCacheKey,
+  getFeedLocale,
+  getNewEntriesOfView,
+  isEntryInFeedView,
+  parseFeedFormat,
+  sortEntriesByCreation,
+  sortEventsByStart,
+} from '../utils/feed'
+import { getSearchRequests } from '../utils/search'
+import { Entry } from '../dtos/Entry'
+import Event from '../dtos/Event'
+import Category from '../dtos/Categories'
+
+
+// 2021-05-21 13:30:00 utc
+const now = 1621603800
+
+const feed: Feed = {
+  title: 'Munich: new entries',
+  selfLink: 'https://kartevonmorgen.org/api/v0/entries/feed?project=main',
+  link: 'https://kartevonmorgen.org/maps/main',
+  items: [
+    {
+      title: 'Bio & Laden',
+      link: 'https://kartevonmorgen.org/maps/main/entries/entryId',
+      summary: 'Organic <food>',
+      updated: now - 60,
+      categories: ['organic'],
+    },
+  ],
+}
+
+
+describe('build the feed urls of the view', () => {
+  test('takes the search of the map without its limit and empty values', () => {
+    const { entries, events } = getSearchRequests(
+      { search: 'cafe', type: [Category.INITIATIVE, Category.EVENT], tag: 'repair', limit: '20' },
+      '47,10,49,12',
+      { fixedTags: [], orgTag: null, categories: [] },
+    )
+
+    expect(createFeedUrl('/api/v0/entries/feed', 'main', { ...entries }, FeedFormat.ATOM)).toEqual(
+      '/api/v0/entries/feed?project=main&bbox=47%2C10%2C49%2C12&text=cafe&categories=2cd00bebec0c48ba9db761da48678134&tags=repair&format=atom',
+    )
+    expect(createFeedUrl('/api/v0/events/feed', 'main', { ...events }, FeedFormat.RSS)).toEqual(
+      '/api/v0/events/feed?project=main&bbox=47%2C10%2C49%2C12&text=cafe&tag=repair&format=rss',
+    )
+  })
+
+  test('falls back to atom', () => {
+    expect(parseFeedFormat('rss')).toEqual(FeedFormat.RSS)
+    expect(parseFeedFormat('')).toEqual(FeedFormat.ATOM)
+  })
+
+  test('keeps the language of the map', () => {
+    expect(createFeedUrl('/api/v0/events/feed', 'main', { tag: 'repair' }, FeedFormat.RSS, 'es')).toEqual(
+      '/api/v0/events/feed?project=main&tag=repair&format=rss&locale=es',
+    )
+    expect(getFeedLocale('es')).toEqual('es')
+    expect(getFeedLocale('fr')).toEqual('de')
+    expect(getFeedLocale(undefined)).toEqual('de')
+  })
+})
+
+
+describe('cache the feeds per view', () => {
+  test('ignores the order of the params, the empty values and the limit', () => {
+    expect(getFeedCacheKey(FeedKind.ENTRIES, 'main', 'en', { bbox: '47,10,49,12', text: 'cafe' })).toEqual(
+      getFeedCacheKey(FeedKind.ENTRIES, 'main', 'en', { text: 'cafe', tags: '', limit: 20, bbox: '47,10,49,12' }),
+    )
+  })
+
+  test('separates the kinds, the projects and the languages', () => {
+    const keys = [
+      getFeedCacheKey(FeedKind.ENTRIES, 'main', 'en', { text: 'cafe' }),
+      getFeedCacheKey(FeedKind.EVENTS, 'main', 'en', { text: 'cafe' }),
+      getFeedCacheKey(FeedKind.ENTRIES, 'other', 'en', { text: 'cafe' }),
+      getFeedCacheKey(FeedKind.ENTRIES, 'main', 'de', { text: 'cafe' }),
+      getFeedCacheKey(FeedKind.ENTRIES, 'main', 'en', { text: 'repair' }),
+    ]
+
+    expect(new Set(keys).size).toEqual(keys.length)
+  })
+})
+
+
+describe('pick the new entries of the view', () => {
+  const entry = {
+    id: 'a',
+    title: 'Repair Café',
+    description: 'Bring your broken things',
+    lat: 48.1,
+    lng: 11.5,
+    categories: [Category.INITIATIVE],
+    tags: ['repair', 'kvm'],
+    created: now,
+  } as Entry
+
+  test('keeps the entries of the area', () => {
+    expect(isEntryInFeedView(entry, { bbox: '47,10,49,12' })).toBe(true)
+    expect(isEntryInFeedView(entry, { bbox: '52,13,53,14' })).toBe(false)
+  })
+
+  test('applies the categories, the tags and the text of the search', () => {
+    const bbox = '47,10,49,12'
+
+    expect(isEntryInFeedView(entry, { bbox, categories: `${Category.COMPANY},${Category.INITIATIVE}` })).toBe(true)
+    expect(isEntryInFeedView(entry, { bbox, categories: Category.COMPANY })).toBe(false)
+    expect(isEntryInFeedView(entry, { bbox, tags: 'Repair', org_tag: 'kvm' })).toBe(true)
+    expect(isEntryInFeedView(entry, { bbox, tags: 'repair,bike' })).toBe(false)
+    expect(isEntryInFeedView(entry, { bbox, text: 'broken #repair' })).toBe(true)
+    expect(isEntryInFeedView(entry, { bbox, text: 'bakery' })).toBe(false)
+  })
+
+  test('leaves out the entries that were only changed', () => {
+    const changedEntry = { ...entry, id: 'b', created: now - 60 * 24 * 60 * 60 }
+
+    expect(getNewEntriesOfView([entry, changedEntry], { bbox: '47,10,49,12' }, now - 60).map(({ id }) => id))
+      .toEqual(['a'])
+  })
+})
+
+
+describe('order the items', () => {
+  test('puts the newest entries first', () => {
+    const entries = [{ id: 'a', created: 1 }, { id: 'b', created: 3 }, { id: 'c' }] as Entry[]
+
+    expect(sortEntriesByCreation(entries).map(entry => entry.id)).toEqual(['b', 'a', 'c'])
+  })
+
+  test('puts the next events first', () => {
+    const events = [{ id: 'a', start: 3 }, { id: 'b', start: 1 }] as Event[]
+
+    expect(sortEventsByStart(events).map(event => event.id)).toEqual(['b', 'a'])
+  })
+
+  test('shows the start of the events in the summary', () => {
+    const event = { title: 'Repair café', description: 'Bring things', start: now, created_at: now - 60 } as Event
+
+    expect(convertEventToFeedItem(event, 'https://kartevonmorgen.org/maps/main/events/eventId').summary)
+      .toEqual('2021-05-21 13:30 UTC\n\nBring things')
+  })
+})
+
+
+describe('write the feeds', () => {
+  test('writes atom', () => {
+    const atom = createAtomFeed(feed, now)
+
+    expect(atom).toContain('<feed xmlns="http://www.w3.org/2005/Atom">')
+    expect(atom).toContain('<updated>2021-05-21T13:29:00Z</updated>')
+    expect(atom).toContain(
+      '<entry><id>https://kartevonmorgen.org/maps/main/entries/entryId</id><title>Bio &amp; Laden</title>',
+    )
+    expect(atom).toContain('<summary>Organic &lt;food&gt;</summary><category term="organic"/></entry>')
+  })
+
+  test('writes rss 2.0', () => {
+    const rss = createRssFeed({ ...feed, items: [] }, now)
+
+    expect(rss).toContain('<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom">')
+    expect(rss).toContain('<lastBuildDate>Fri, 21 May 2021 13:30:00 +0000</lastBuildDate>')
+    expect(rss).not.toContain('<item>')
+  })
+})
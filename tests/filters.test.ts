@@ -0,0 +1,57 @@
+import {
+  addEnforcedTags,
+  filterAllowedCategories,
+  getAllowedCategories,
+  getEnforcedFilters,
+  getSearchTags,
+} from '../utils/filters'
+import Category from '../dtos/Categories'
+
+
+describe('enforced filters', () => {
+  test('has no filters without a config and url params', () => {
+    const filters = getEnforcedFilters({})
+
+    expect(filters).toEqual({ fixedTags: [], orgTag: null, categories: [] })
+    expect(getAllowedCategories(filters)).toEqual([Category.INITIATIVE, Category.COMPANY, Category.EVENT])
+  })
+
+  test('merges the project config with the iframe params', () => {
+    const filters = getEnforcedFilters(
+      { fixedTags: 'repair, diy', 'org-tag': 'city', allowedCategories: ['event,company'] },
+      { fixedTags: ['repair', 'city'], categories: ['initiative', 'event'] },
+    )
+
+    expect(filters.fixedTags).toEqual(['repair', 'city', 'diy'])
+    expect(filters.orgTag).toEqual('city')
+    expect(filters.categories).toEqual([Category.EVENT])
+  })
+
+  test('keeps the org tag and the categories of the project', () => {
+    const filters = getEnforcedFilters(
+      { orgTag: 'other', allowedCategories: 'company' },
+      { orgTag: 'city', categories: ['initiative'] },
+    )
+
+    expect(filters.orgTag).toEqual('city')
+    expect(filters.categories).toEqual([Category.INITIATIVE])
+  })
+})
+
+
+describe('apply the enforced filters', () => {
+  const filters = getEnforcedFilters({}, { fixedTags: ['repair'], orgTag: 'city', categories: ['initiative'] })
+
+  test('adds the fixed tags to the searches', () => {
+    expect(getSearchTags(['diy'], filters)).toEqual(['repair', 'diy'])
+  })
+
+  test('searches only the allowed categories', () => {
+    expect(filterAllowedCategories([Category.INITIATIVE, Category.EVENT], filters)).toEqual([Category.INITIATIVE])
+  })
+
+  test('tags the new entities', () => {
+    expect(addEnforcedTags(undefined, filters)).toEqual(['repair', 'city'])
+    expect(addEnforcedTags(['repair', 'diy'], filters)).toEqual(['repair', 'diy', 'city'])
+  })
+})
@@ -0,0 +1,200 @@
+import {
+  convertEventToVEvent,
+  convertUrlToWebcal,
+  createICalendar,
+  escapeICalText,
+  foldICalLine,
+  formatICalDate,
+  ICalEvent,
+  parseICalDate,
+  parseICalendar,
+  parseICalLocation,
+  unescapeICalText,
+} from '../utils/ical'
+
+
+// 2021-05-21 13:30:00 utc
+const start = 1621603800
+const now = 1621000000
+
+const event: ICalEvent = {
+  id: 'eventId',
+  title: 'Repair café',
+  description: 'Bring your broken things;\nwe fix them, together',
+  start,
+  end: start + 2 * 60 * 60,
+  lat: 48.1,
+  lng: 11.5,
+  tags: ['repair', 'diy'],
+  street: 'Hauptstraße 1',
+  zip: '80331',
+  city: 'München',
+  country: 'Germany',
+  organizer: 'Jo',
+  email: 'jo@example.org',
+  homepage: 'https://example.org',
+}
+
+
+describe('ical values', () => {
+  test('escapes the text', () => {
+    expect(escapeICalText('a,b;c\\d\ne')).toEqual('a\\,b\\;c\\\\d\\ne')
+  })
+
+  test('formats the dates in utc', () => {
+    expect(formatICalDate(start)).toEqual('20210521T133000Z')
+  })
+
+  test('converts the urls to webcal', () => {
+    expect(convertUrlToWebcal('https://example.org/api/v0/events/ical?tag=a'))
+      .toEqual('webcal://example.org/api/v0/events/ical?tag=a')
+  })
+})
+
+
+describe('fold the long lines', () => {
+  test('keeps the short lines', () => {
+    expect(foldICalLine('SUMMARY:short')).toEqual('SUMMARY:short')
+  })
+
+  test('limits every line to 75 octets', () => {
+    const folded = foldICalLine(`DESCRIPTION:${'ä'.repeat(100)}`)
+    const lines = folded.split('\r\n')
+
+    expect(lines.length).toBeGreaterThan(1)
+    lines.forEach((line: string, i: number) => {
+      expect(Buffer.byteLength(line, 'utf8')).toBeLessThanOrEqual(75)
+      if (i !== 0) {
+        expect(line.startsWith(' ')).toBe(true)
+      }
+    })
+    expect(lines.map((line: string, i: number) => (i === 0 ? line : line.slice(1))).join(''))
+      .toEqual(`DESCRIPTION:${'ä'.repeat(100)}`)
+  })
+})
+
+
+describe('create the calendar', () => {
+  const calendar = createICalendar([event], { name: 'Munich', now })
+  const lines = calendar.split('\r\n')
+
+  test('wraps the events in a calendar', () => {
+    expect(lines[0]).toEqual('BEGIN:VCALENDAR')
+    expect(lines).toContain('VERSION:2.0')
+    expect(lines).toContain('X-WR-CALNAME:Munich')
+    expect(calendar.endsWith('END:VCALENDAR\r\n')).toBe(true)
+  })
+
+  test('describes the event', () => {
+    expect(lines).toEqual(expect.arrayContaining([
+      'BEGIN:VEVENT',
+      'UID:eventId@kartevonmorgen.org',
+      'DTSTAMP:20210514T134640Z',
+      'DTSTART:20210521T133000Z',
+      'DTEND:20210521T153000Z',
+      'SUMMARY:Repair café',
+      'DESCRIPTION:Bring your broken things\\;\\nwe fix them\\, together',
+      'LOCATION:Hauptstraße 1\\, 80331 München\\, Germany',
+      'GEO:48.1;11.5',
+      'ORGANIZER;CN="Jo":mailto:jo@example.org',
+      'URL:https://example.org',
+      'CATEGORIES:repair,diy',
+      'END:VEVENT',
+    ]))
+  })
+
+  test('keeps the free texts on their own lines', () => {
+    const injectedLines = convertEventToVEvent({
+      id: 'id',
+      title: 'title\rATTACH:https://evil.example',
+      start,
+      end: start,
+      organizer: 'Jo"\r\nATTENDEE:mailto:a@evil.example',
+      email: 'jo@example.org\r\nATTACH:https://evil.example',
+      homepage: 'https://example.org\nATTACH:https://evil.example',
+    }, now)
+
+    expect(injectedLines).toEqual(expect.arrayContaining([
+      'SUMMARY:titleATTACH:https://evil.example',
+      'ORGANIZER;CN="Jo\'ATTENDEE:mailto:a@evil.example":mailto:jo@example.orgATTACH:https://evil.example',
+      'URL:https://example.orgATTACH:https://evil.example',
+    ]))
+    injectedLines.forEach(line => expect(line).not.toMatch(/[\r\n]/))
+  })
+
+  test('skips the missing details of the compact events', () => {
+    const compactCalendar = createICalendar([{ id: 'id', title: 'title', start, end: start }], { now })
+
+    expect(compactCalendar).not.toContain('LOCATION')
+    expect(compactCalendar).not.toContain('ORGANIZER')
+    expect(compactCalendar).toContain('X-WR-CALNAME:Karte von morgen')
+  })
+})
+
+
+describe('parse the calendar', () => {
+  test('reads the exported calendar back', () => {
+    const [parsedEvent] = parseICalendar(createICalendar([event], { now }))
+
+    expect(parsedEvent).toEqual({
+      ...event,
+      id: 'eventId@kartevonmorgen.org',
+    })
+  })
+
+  test('reads the folded lines, the nested components and the durations', () => {
+    const calendar = [
+      'BEGIN:VCALENDAR',
+      'BEGIN:VEVENT',
+      'UID:1',
+      'SUMMARY:A very long title that was folded by the',
+      '  calendar app',
+      'DTSTART:20210521T133000Z',
+      'DURATION:PT1H30M',
+      'ORGANIZER;CN="Jo: the organizer":mailto:jo@example.org',
+      'CATEGORIES:Repair,DIY\\,tools',
+      'BEGIN:VALARM',
+      'DESCRIPTION:the alarm should not override the event',
+      'END:VALARM',
+      'END:VEVENT',
+      'BEGIN:VEVENT',
+      'SUMMARY:without a start',
+      'END:VEVENT',
+      'END:VCALENDAR',
+    ].join('\r\n')
+
+    expect(parseICalendar(calendar)).toEqual([
+      {
+        id: '1',
+        title: 'A very long title that was folded by the calendar app',
+        start,
+        end: start + 90 * 60,
+        organizer: 'Jo: the organizer',
+        email: 'jo@example.org',
+        tags: ['repair', 'diy,tools'],
+      },
+    ])
+  })
+
+  test('unescapes the text', () => {
+    expect(unescapeICalText('a\\,b\\;c\\\\d\\ne\\Nf')).toEqual('a,b;c\\d\ne\nf')
+  })
+
+  test('reads the dates', () => {
+    expect(parseICalDate('20210521T133000Z')).toEqual(start)
+    expect(parseICalDate('20210521')).not.toBeNull()
+    expect(parseICalDate('invalid')).toBeNull()
+  })
+
+  test.each([
+    ['Hauptstraße 1, 80331 München, Germany', { street: 'Hauptstraße 1', zip: '80331', city: 'München', country: 'Germany' }],
+    ['Café, Hauptstraße 1, 80331 München', { street: 'Café, Hauptstraße 1', zip: '80331', city: 'München', country: '' }],
+    ['Hauptstraße 1, München', { street: 'Hauptstraße 1', zip: '', city: 'München', country: '' }],
+    ['Online', { street: 'Online', zip: '', city: '', country: '' }],
+  ])(
+    'reads the address of %s',
+    (location: string, address) => {
+      expect(parseICalLocation(location)).toEqual(address)
+    })
+})
+
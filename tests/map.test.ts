@@ -0,0 +1,79 @@
+import reducer, { MapState, setViewportFromMap, syncMapStateFromUrl, ViewportChangeSource } from '../slices/mapSlice'
+import { convertMapStateToQueryParams, convertQueryToMapState, isMapStateInSyncWithUrl } from '../utils/map'
+import { RootSlugEntity, SlugVerb } from '../utils/types'
+
+
+const initialState: MapState = reducer(undefined, { type: 'init' })
+
+
+describe('keep the viewport in the precision of the url', () => {
+  test('rounds the viewport of the map', () => {
+    const state = reducer(initialState, setViewportFromMap({
+      center: { lat: 48.7758459, lng: 9.1829321 },
+      zoom: 12.3456,
+      bbox: '48.7,9.1,48.8,9.3',
+    }))
+
+    expect(state.center).toEqual({ lat: 48.7758, lng: 9.1829 })
+    expect(state.zoom).toEqual(12.35)
+    expect(state.bbox).toEqual('48.7,9.1,48.8,9.3')
+    expect(state.viewportChangedBy).toEqual(ViewportChangeSource.MAP)
+  })
+
+  test('keeps the bbox when the map does not send one', () => {
+    const stateWithBBox = { ...initialState, bbox: '48.7,9.1,48.8,9.3' }
+    const state = reducer(stateWithBBox, setViewportFromMap({ center: { lat: 48, lng: 9 }, zoom: 10 }))
+
+    expect(state.bbox).toEqual('48.7,9.1,48.8,9.3')
+  })
+})
+
+
+describe('sync the map with the url', () => {
+  const query = {
+    slug: ['main', 'entries', 'entryId'],
+    lat: '48.77584',
+    lng: '9.18293',
+    zoom: '12.345',
+    pinLat: '48.7',
+    pinLng: '9.1',
+  }
+
+  test('reads the map state from the query', () => {
+    expect(convertQueryToMapState(query)).toEqual({
+      center: { lat: 48.7758, lng: 9.1829 },
+      zoom: 12.35,
+      pinnedLocation: { lat: 48.7, lng: 9.1 },
+      selectedEntity: { entity: RootSlugEntity.ENTRY, id: 'entryId', verb: SlugVerb.SHOW },
+    })
+  })
+
+  test('has no pin without both of its coordinates', () => {
+    expect(convertQueryToMapState({ ...query, pinLng: '' }).pinnedLocation).toBeNull()
+  })
+
+  test('writes the same query it reads', () => {
+    const state = reducer(initialState, syncMapStateFromUrl(convertQueryToMapState(query)))
+
+    expect(state.isInitialized).toBe(true)
+    expect(state.viewportChangedBy).toEqual(ViewportChangeSource.URL)
+    expect(convertMapStateToQueryParams(state)).toEqual({
+      lat: '48.7758',
+      lng: '9.1829',
+      zoom: '12.35',
+      pinLat: '48.7',
+      pinLng: '9.1',
+    })
+
+    const queryFromState = { slug: query.slug, ...convertMapStateToQueryParams(state) }
+    expect(isMapStateInSyncWithUrl(state, convertQueryToMapState(queryFromState))).toBe(true)
+  })
+
+  test('is out of sync after the map moved', () => {
+    const state = reducer(initialState, syncMapStateFromUrl(convertQueryToMapState(query)))
+    const movedState = reducer(state, setViewportFromMap({ center: { lat: 48.8, lng: 9.2 }, zoom: 12.35 }))
+
+    expect(isMapStateInSyncWithUrl(movedState, convertQueryToMapState(query))).toBe(false)
+    expect(isMapStateInSyncWithUrl(initialState, convertQueryToMapState(query))).toBe(false)
+  })
+})
@@ -0,0 +1,102 @@
+import sqlite3, { Database } from 'sqlite3'
+import { getPendingMigrations, migrate } from '../db/migrate'
+import { all, enqueue, run, transaction } from '../db/query'
+import { Migration } from '../db/migrations/types'
+import migrations from '../db/migrations'
+import { foldTag } from '../utils/tagSearch'
+
+
+const createMigration = (id: number): Migration => ({
+  id,
+  name: `migration-${id}`,
+  up: [],
+})
+
+
+describe('pick the pending migrations', () => {
+  test('runs the missing ones in the order of their ids', () => {
+    const pendingMigrations = getPendingMigrations(
+      [createMigration(3), createMigration(1), createMigration(2)],
+      [1],
+    )
+
+    expect(pendingMigrations.map(migration => migration.id)).toEqual([2, 3])
+  })
+
+  test('refuses the reused ids', () => {
+    expect(() => getPendingMigrations([createMigration(1), createMigration(1)], []))
+      .toThrow('duplicate migration ids')
+  })
+
+  test('keeps the ids of the migrations of the app unique and ordered', () => {
+    expect(migrations.map(migration => migration.id))
+      .toEqual(getPendingMigrations(migrations, []).map(migration => migration.id))
+  })
+})
+
+
+
+describe('share one connection between the requests', () => {
+  let database: Database
+
+  const wait = (milliseconds: number) => new Promise(resolve => setTimeout(resolve, milliseconds))
+
+  const getTags = async (): Promise<string[]> => (
+    (await all<{ tag: string }>(database, 'SELECT tag FROM tag_frequency ORDER BY tag')).map(({ tag }) => tag)
+  )
+
+  beforeEach(async () => {
+    database = new sqlite3.Database(':memory:')
+    jest.spyOn(console, 'log').mockImplementation(() => undefined)
+    await migrate(database, migrations)
+  })
+
+  afterEach(async () => {
+    jest.restoreAllMocks()
+    await new Promise(resolve => database.close(resolve))
+  })
+
+  test('applies the migrations only once', async () => {
+    expect(await migrate(database, migrations)).toEqual([])
+  })
+
+  // a change of TAG_FOLDINGS needs a new migration of the index
+  test('folds the tags of the index like the search terms', async () => {
+    const tags = ['Gemüse', 'fair-trade', 'Straße', 'Repair Café']
+    for (const tag of tags) {
+      await run(database, 'INSERT INTO tag_frequency (tag, frequency) VALUES (?,?)', [tag, 1])
+    }
+    await run(database, 'UPDATE tag_frequency SET tag = ? WHERE tag = ?', ['Öko_Laden', 'Straße'])
+    await run(database, 'DELETE FROM tag_frequency WHERE tag = ?', ['fair-trade'])
+
+    const rows = await all<{ tag: string, folded: string }>(
+      database,
+      'SELECT f.tag, s.folded FROM tag_search s JOIN tag_frequency f ON f.rowid = s.rowid ORDER BY f.tag',
+    )
+
+    expect(rows).toEqual(['Gemüse', 'Repair Café', 'Öko_Laden'].map(tag => ({ tag, folded: foldTag(tag) })))
+    expect(await all(database, 'SELECT rowid FROM tag_search')).toHaveLength(3)
+  })
+
+  test('runs the overlapping transactions one after another', async () => {
+    const insertQuery = 'INSERT INTO tag_frequency (tag, frequency) VALUES (?,?)'
+
+    const failingTransaction = transaction(database, async (queries) => {
+      await queries.run(insertQuery, ['rolled-back', 1])
+      await wait(20)
+
+      throw new Error('the batch is invalid')
+    })
+    const committedTransaction = transaction(database, async (queries) => {
+      await queries.run(insertQuery, ['committed', 1])
+    })
+    // a single statement of another request waits for the open transaction as well
+    const singleStatement = enqueue(database, () => run(database, insertQuery, ['single', 1]))
+
+    await expect(failingTransaction).rejects.toThrow('the batch is invalid')
+    await expect(committedTransaction).resolves.toBeUndefined()
+    await singleStatement
+
+    expect(await getTags()).toEqual(['committed', 'single'])
+  })
+})
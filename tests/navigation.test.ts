@@ -0,0 +1,163 @@
+import { ParsedUrlQuery } from 'querystring'
+import {
+  getQueryToCreateEntity,
+  getQueryToEditCurrentEntity,
+  getQueryToGoBack,
+  getQueryToOpenEntity,
+  getQueryToOpenRatingCommentForm,
+  getQueryToOpenRatingForm,
+  getQueryWithFilters,
+  getQueryWithSidebarState,
+  isCreatingOrEditing,
+} from '../utils/navigation'
+import { RootSlugEntity } from '../utils/types'
+import Category from '../dtos/Categories'
+
+
+const queryFromPath = (path: string, params: ParsedUrlQuery = {}): ParsedUrlQuery => ({
+  ...params,
+  slug: path.split('/'),
+})
+
+
+interface BackCase {
+  from: string
+  to: string
+}
+
+const backCases: BackCase[] = [
+  { from: 'main', to: 'main' },
+  { from: 'main/entries/entryId', to: 'main' },
+  { from: 'main/events/eventId', to: 'main' },
+  { from: 'main/entries/create', to: 'main' },
+  { from: 'main/entries/entryId/edit', to: 'main/entries/entryId' },
+  { from: 'main/events/eventId/edit', to: 'main/events/eventId' },
+  { from: 'main/entries/entryId/ratings/create', to: 'main/entries/entryId' },
+  { from: 'main/entries/entryId/ratings/ratingId/edit', to: 'main/entries/entryId' },
+  { from: 'main/entries/entryId/ratings/ratingId/comments/create', to: 'main/entries/entryId' },
+]
+
+describe('go back', () => {
+  test.each(backCases)(
+    '$from -> $to',
+    ({ from, to }) => {
+      expect(getQueryToGoBack(queryFromPath(from)).slug).toEqual(to.split('/'))
+    })
+
+  test('removes the pin when leaving a form', () => {
+    const query = queryFromPath('main/entries/create', { pinLat: '1', pinLng: '2', zoom: '7' })
+
+    expect(getQueryToGoBack(query)).toEqual({ slug: ['main'], zoom: '7' })
+  })
+})
+
+
+describe('open entities', () => {
+  test('replaces the open entity and opens the sidebar', () => {
+    const query = queryFromPath('main/entries/entryId/ratings/create', { isSidebarOpen: 'false' })
+
+    expect(getQueryToOpenEntity(query, Category.EVENT, 'eventId')).toEqual({
+      slug: ['main', 'events', 'eventId'],
+      isSidebarOpen: 'true',
+    })
+  })
+
+  test('maps both entry categories to entries', () => {
+    expect(getQueryToOpenEntity(queryFromPath('main'), Category.COMPANY, 'entryId').slug)
+      .toEqual(['main', 'entries', 'entryId'])
+    expect(getQueryToOpenEntity(queryFromPath('main'), Category.INITIATIVE, 'entryId').slug)
+      .toEqual(['main', 'entries', 'entryId'])
+  })
+
+  test('keeps the project', () => {
+    expect(getQueryToOpenEntity(queryFromPath('fromhome'), Category.EVENT, 'eventId').slug)
+      .toEqual(['fromhome', 'events', 'eventId'])
+  })
+
+  test('falls back to the default project', () => {
+    expect(getQueryToOpenEntity({}, Category.EVENT, 'eventId').slug)
+      .toEqual(['main', 'events', 'eventId'])
+  })
+
+  test('removes the pin of the form', () => {
+    const query = queryFromPath('main/entries/create', { pinLat: '1', pinLng: '2' })
+
+    expect(getQueryToOpenEntity(query, Category.INITIATIVE, 'entryId')).toEqual({
+      slug: ['main', 'entries', 'entryId'],
+      isSidebarOpen: 'true',
+    })
+  })
+})
+
+
+describe('forms', () => {
+  test('creates an entry', () => {
+    const query = queryFromPath('main', { pinLat: '1', pinLng: '2' })
+
+    expect(getQueryToCreateEntity(query, RootSlugEntity.ENTRY)).toEqual({
+      slug: ['main', 'entries', 'create'],
+      pinLat: '1',
+      pinLng: '2',
+    })
+  })
+
+  test('edits the open entity', () => {
+    expect(getQueryToEditCurrentEntity(queryFromPath('main/events/eventId')).slug)
+      .toEqual(['main', 'events', 'eventId', 'edit'])
+  })
+
+  test('does nothing without an open entity', () => {
+    const query = queryFromPath('main')
+
+    expect(getQueryToEditCurrentEntity(query)).toBe(query)
+  })
+
+  test('opens the rating form of an entry', () => {
+    expect(getQueryToOpenRatingForm(queryFromPath('main/entries/entryId'), 'entryId').slug)
+      .toEqual(['main', 'entries', 'entryId', 'ratings', 'create'])
+  })
+
+  test('opens the comment form of a rating', () => {
+    expect(getQueryToOpenRatingCommentForm(queryFromPath('main/entries/entryId'), 'entryId', 'ratingId').slug)
+      .toEqual(['main', 'entries', 'entryId', 'ratings', 'ratingId', 'comments', 'create'])
+  })
+
+  test.each([
+    ['main', false],
+    ['main/entries/entryId', false],
+    ['main/entries/create', true],
+    ['main/events/eventId/edit', true],
+    ['main/entries/entryId/ratings/create', true],
+  ])(
+    '%s is a form: %s',
+    (path: string, expected: boolean) => {
+      expect(isCreatingOrEditing(queryFromPath(path))).toBe(expected)
+    })
+})
+
+
+describe('filters', () => {
+  test('sets the given filters and keeps the others', () => {
+    const query = queryFromPath('main/entries/entryId', { search: 'bio', tag: ['food'] })
+
+    expect(getQueryWithFilters(query, { type: [Category.EVENT], start_min: 1620000000 })).toEqual({
+      slug: ['main', 'entries', 'entryId'],
+      search: 'bio',
+      tag: ['food'],
+      type: [Category.EVENT],
+      start_min: '1620000000',
+    })
+  })
+
+  test('removes the empty filters', () => {
+    const query = queryFromPath('main', { search: 'bio', tag: ['food'], type: ['2'] })
+
+    expect(getQueryWithFilters(query, { search: '', tag: [], type: null })).toEqual({
+      slug: ['main'],
+    })
+  })
+
+  test('toggles the sidebar', () => {
+    expect(getQueryWithSidebarState(queryFromPath('main'), false).isSidebarOpen).toEqual('false')
+  })
+})
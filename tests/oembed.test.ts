@@ -0,0 +1,80 @@
+import {
+  createOEmbedResponse,
+  getCardPath,
+  getOEmbedDiscoveryUrl,
+  getOEmbedSize,
+  isOEmbedSizeSupported,
+  parseOEmbedUrl,
+} from '../utils/oembed'
+import { RootSlugEntity } from '../utils/types'
+import { OEMBED } from '../consts/oembed'
+
+
+describe('resolve the shared links', () => {
+  test.each([
+    ['https://kartevonmorgen.org/maps/main/entries/entryId', { project: 'main', entity: RootSlugEntity.ENTRY, id: 'entryId' }],
+    ['https://kartevonmorgen.org/maps/city/events/eventId?zoom=9', { project: 'city', entity: RootSlugEntity.EVENT, id: 'eventId' }],
+  ])('resolves %s', (url: string, oEmbedEntity) => {
+    expect(parseOEmbedUrl(url, 'https://kartevonmorgen.org')).toEqual(oEmbedEntity)
+  })
+
+  test.each([
+    ['not a url'],
+    ['https://kartevonmorgen.org/maps/main'],
+    ['https://kartevonmorgen.org/maps/main/entries/create'],
+    ['https://kartevonmorgen.org/maps/main/entries/entryId/edit'],
+    ['https://kartevonmorgen.org/tables/main/entries/entryId'],
+    ['https://evil.example/maps/main/entries/entryId'],
+    ['http://kartevonmorgen.org/maps/main/entries/entryId'],
+  ])('ignores %s', (url: string) => {
+    expect(parseOEmbedUrl(url, 'https://kartevonmorgen.org')).toBeNull()
+  })
+
+  test('points to the card of the entity', () => {
+    expect(getCardPath({ project: 'main', entity: RootSlugEntity.EVENT, id: 'eventId' }))
+      .toEqual('/cards/main/events/eventId')
+  })
+
+  test('announces the endpoint', () => {
+    expect(getOEmbedDiscoveryUrl('https://kartevonmorgen.org', 'https://kartevonmorgen.org/maps/main/entries/entryId'))
+      .toEqual(
+        'https://kartevonmorgen.org/api/v0/oembed' +
+        '?url=https%3A%2F%2Fkartevonmorgen.org%2Fmaps%2Fmain%2Fentries%2FentryId&format=json',
+      )
+  })
+})
+
+
+describe('answer the consumers', () => {
+  test('keeps the card within the maximum size', () => {
+    expect(getOEmbedSize(null, null)).toEqual({ width: OEMBED.defaultWidth, height: OEMBED.defaultHeight })
+    expect(getOEmbedSize(300, 10000)).toEqual({ width: 300, height: OEMBED.defaultHeight })
+  })
+
+  test('does not shrink the card below its minimum size', () => {
+    expect(isOEmbedSizeSupported(null, null)).toBe(true)
+    expect(isOEmbedSizeSupported(OEMBED.minWidth, OEMBED.minHeight)).toBe(true)
+    expect(isOEmbedSizeSupported(10, null)).toBe(false)
+    expect(isOEmbedSizeSupported(null, OEMBED.minHeight - 1)).toBe(false)
+  })
+
+  test('embeds the card as a rich type', () => {
+    const response = createOEmbedResponse(
+      'https://kartevonmorgen.org',
+      'Bio Laden',
+      'https://kartevonmorgen.org/cards/main/entries/entryId',
+      { width: 300, height: 400 },
+    )
+
+    expect(response).toMatchObject({
+      version: '1.0',
+      type: 'rich',
+      title: 'Bio Laden',
+      provider_url: 'https://kartevonmorgen.org',
+      width: 300,
+      height: 400,
+    })
+    expect(response.html).toContain('src="https://kartevonmorgen.org/cards/main/entries/entryId"')
+    expect(response.html).toContain('width="300" height="400"')
+  })
+})
@@ -0,0 +1,158 @@
+import {
+  createEmptyWeeklyOpeningHours,
+  createOpeningHours,
+  filterClosedResults,
+  formatWeekdays,
+  getOpenFilterDate,
+  getOpenState,
+  getOpenStates,
+  OpenState,
+  parseOpeningHours,
+  PublicHolidaysMode,
+  Weekday,
+  WeeklyOpeningHours,
+} from '../utils/openingHours'
+
+
+const officeHours = [{ start: '09:00', end: '12:00' }, { start: '14:00', end: '18:00' }]
+
+const week: WeeklyOpeningHours = {
+  ...createEmptyWeeklyOpeningHours(),
+  days: {
+    [Weekday.MO]: officeHours,
+    [Weekday.TU]: officeHours,
+    [Weekday.WE]: officeHours,
+    [Weekday.TH]: [],
+    [Weekday.FR]: officeHours,
+    [Weekday.SA]: [{ start: '10:00', end: '14:00' }],
+    [Weekday.SU]: [],
+  },
+  publicHolidays: { mode: PublicHolidaysMode.CLOSED, spans: [] },
+}
+
+
+describe('write the opening hours', () => {
+  test.each([
+    [[Weekday.MO], 'Mo'],
+    [[Weekday.MO, Weekday.TU], 'Mo,Tu'],
+    [[Weekday.FR, Weekday.MO, Weekday.TU, Weekday.WE], 'Mo-We,Fr'],
+    [[Weekday.MO, Weekday.WE, Weekday.SA, Weekday.SU], 'Mo,We,Sa,Su'],
+  ])(
+    'writes the days %j as %s',
+    (days: Weekday[], selector: string) => {
+      expect(formatWeekdays(days)).toEqual(selector)
+    })
+
+  test('groups the days with the same shifts', () => {
+    expect(createOpeningHours(week)).toEqual('Mo-We,Fr 09:00-12:00,14:00-18:00; Sa 10:00-14:00; PH off')
+  })
+
+  test('adds the comments', () => {
+    expect(createOpeningHours({ ...week, comment: 'seasonal', fallbackComment: 'by "appointment"' })).toEqual(
+      'Mo-We,Fr 09:00-12:00,14:00-18:00 open "seasonal"; Sa 10:00-14:00 open "seasonal"; PH off' +
+      ' || "by \'appointment\'"',
+    )
+    expect(createOpeningHours({ ...createEmptyWeeklyOpeningHours(), fallbackComment: 'by appointment' }))
+      .toEqual('"by appointment"')
+  })
+
+  test('writes nothing for a closed week', () => {
+    expect(createOpeningHours(createEmptyWeeklyOpeningHours())).toEqual('')
+  })
+})
+
+
+describe('read the opening hours', () => {
+  test('reads back what it writes', () => {
+    const weekWithComments = { ...week, comment: 'seasonal', fallbackComment: 'by appointment' }
+
+    expect(parseOpeningHours(createOpeningHours(weekWithComments))).toEqual(weekWithComments)
+  })
+
+  test.each([
+    ['mo-fr 9-18; sa 10-14; ph closed', 'Mo-Fr 09:00-18:00; Sa 10:00-14:00; PH off'],
+    ['Mo-Sa 09:00-18:00; Sa off', 'Mo-Fr 09:00-18:00'],
+    ['Mo 09:00-12:00, Mo 14:00-18:00', 'Mo 09:00-12:00,14:00-18:00'],
+    ['Fr-Mo 10:00-12:00', 'Mo,Fr-Su 10:00-12:00'],
+    ['Sa,Su,PH 10:00-14:00', 'Sa,Su 10:00-14:00; PH 10:00-14:00'],
+    ['24/7', 'Mo-Su 00:00-24:00'],
+    ['Mo 22:00-02:00', 'Mo 22:00-02:00'],
+    ['', ''],
+  ])(
+    'reads %s as %s',
+    (openingHours: string, recreatedOpeningHours: string) => {
+      expect(createOpeningHours(parseOpeningHours(openingHours))).toEqual(recreatedOpeningHours)
+    })
+
+  test.each([
+    'Apr-Oct: Mo-Fr 09:00-18:00',
+    'Mo-Fr 09:00+',
+    'Mo-Fr 09:00-18:00 "unknown unless called"',
+    'Mo-Fr 09:00-18:00; "closed for renovation"',
+    'not a valid value',
+  ])(
+    'leaves %s to the text input',
+    (openingHours: string) => {
+      expect(parseOpeningHours(openingHours)).toBeNull()
+    })
+})
+
+
+
+describe('filter the entries by the opening hours', () => {
+  // a tuesday in the local time
+  const tuesdayMorning = new Date(2021, 4, 18, 10, 30)
+  const tuesdayNight = new Date(2021, 4, 18, 22, 0)
+
+  test.each([
+    ['Mo-Fr 09:00-18:00', tuesdayMorning, OpenState.OPEN],
+    ['Mo-Fr 09:00-18:00', tuesdayNight, OpenState.CLOSED],
+    ['Mo-Fr 09:00-18:00 open "until the last customer"', tuesdayMorning, OpenState.OPEN],
+    ['Mo-Fr 09:00-18:00 "by appointment"', tuesdayMorning, OpenState.UNKNOWN],
+    ['Mo-Fr 09:00+', tuesdayNight, OpenState.UNKNOWN],
+    ['', tuesdayMorning, OpenState.UNKNOWN],
+    [null, tuesdayMorning, OpenState.UNKNOWN],
+    ['not a valid value', tuesdayMorning, OpenState.UNKNOWN],
+  ])(
+    'tells if %s is open at %s',
+    (openingHours: string | null, date: Date, openState: OpenState) => {
+      expect(getOpenState(openingHours, date)).toEqual(openState)
+    })
+
+  test('reads the filter from the url', () => {
+    const now = new Date()
+
+    expect(getOpenFilterDate('now', now)).toBe(now)
+    expect(getOpenFilterDate('1621326600', now)).toEqual(new Date(1621326600 * 1000))
+    expect(getOpenFilterDate('', now)).toBeNull()
+    expect(getOpenFilterDate('soon', now)).toBeNull()
+  })
+
+  test('keeps the open entries and the ones without known opening hours', () => {
+    const results = [
+      { id: 'open', lat: 48.77, lng: 9.18 },
+      { id: 'closed', lat: 48.77, lng: 9.18 },
+      { id: 'not-fetched', lat: 48.77, lng: 9.18 },
+      { id: 'without-opening-hours', lat: 48.77, lng: 9.18 },
+    ]
+    const openStates = getOpenStates(
+      results,
+      {
+        open: { opening_hours: 'Mo-Fr 09:00-18:00', state: 'BW' },
+        closed: { opening_hours: 'Sa-Su 10:00-14:00', state: 'BW' },
+        'without-opening-hours': { opening_hours: null, state: null },
+      },
+      tuesdayMorning,
+    )
+
+    expect(openStates).toEqual({
+      open: OpenState.OPEN,
+      closed: OpenState.CLOSED,
+      'not-fetched': OpenState.UNKNOWN,
+      'without-opening-hours': OpenState.UNKNOWN,
+    })
+    expect(filterClosedResults(results, openStates).map(result => result.id)).toEqual(
+      ['open', 'not-fetched', 'without-opening-hours'],
+    )
+  })
+})
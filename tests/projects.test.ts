@@ -0,0 +1,98 @@
+import { Schema, validateSchema } from '../utils/schema'
+import {
+  getProjectSummaries,
+  isExistingProject,
+  loadBurgerMenu,
+  loadProjectConfigs,
+  mapPageConfigsSchema,
+} from '../utils/projects'
+import { getAccentColor, getPinUrl, getProjectTheme } from '../utils/theme'
+import { DEFAULT_THEME } from '../consts/theme'
+import Category from '../dtos/Categories'
+
+
+describe('validate the schema', () => {
+  const schema: Schema = {
+    type: 'object',
+    properties: {
+      name: { type: 'string' },
+      zoom: { type: 'number', optional: true },
+      policy: { type: 'enum', values: ['self', 'newTab'] },
+      tags: { type: 'array', items: { type: 'string' } },
+    },
+  }
+
+  test('accepts the valid values', () => {
+    expect(validateSchema(schema, { name: 'main', policy: 'self', tags: ['a'] })).toEqual([])
+  })
+
+  test('lists the problems with their path', () => {
+    expect(validateSchema(schema, { zoom: '7', policy: 'other', tags: ['a', 1] })).toEqual([
+      '$.name is required',
+      '$.zoom should be a number',
+      '$.policy should be one of self, newTab',
+      '$.tags[1] should be a string',
+    ])
+  })
+
+  test('finds the broken project configs', () => {
+    expect(validateSchema(mapPageConfigsSchema, { map: { location: { lat: 50, lng: 10 } }, popularTags: {} }))
+      .toEqual(['$.map.location.zoom is required'])
+  })
+})
+
+
+describe('load the projects', () => {
+  test('loads the default project', () => {
+    expect(loadProjectConfigs('main').map.location.zoom).toEqual(expect.any(Number))
+    expect(loadBurgerMenu('main').length).toBeGreaterThan(0)
+  })
+
+  test('does not find the unknown projects', () => {
+    expect(isExistingProject('unknown')).toBe(false)
+    expect(isExistingProject('../main')).toBe(false)
+    expect(loadProjectConfigs('unknown')).toBeNull()
+    expect(loadBurgerMenu('unknown')).toBeNull()
+  })
+
+  test('lists the projects with their metadata', () => {
+    expect(getProjectSummaries()).toContainEqual(expect.objectContaining({
+      name: 'main',
+      title: 'Karte von morgen',
+    }))
+  })
+})
+
+
+describe('theme the projects', () => {
+  const mainConfigs = loadProjectConfigs('main')
+
+  test('uses the default theme for the projects without one', () => {
+    expect(getProjectTheme(mainConfigs)).toEqual(DEFAULT_THEME)
+    expect(getProjectTheme(null)).toEqual(DEFAULT_THEME)
+  })
+
+  test('overrides only the themed values', () => {
+    const theme = getProjectTheme({
+      ...mainConfigs,
+      theme: {
+        primaryColor: '#004494',
+        pins: { event: '/projects/city/pins/event.svg' },
+        accentColors: { initiative: '#00a651' },
+      },
+    })
+
+    expect(theme.primaryColor).toEqual('#004494')
+    expect(theme.primaryBorderColor).toEqual('#004494')
+    expect(theme.primaryHoverColor).toEqual(DEFAULT_THEME.primaryHoverColor)
+    expect(theme.primaryHoverBorderColor).toEqual(DEFAULT_THEME.primaryHoverBorderColor)
+    expect(getPinUrl(theme, [Category.EVENT])).toEqual('/projects/city/pins/event.svg')
+    expect(getPinUrl(theme, [Category.COMPANY])).toEqual(DEFAULT_THEME.pins.company)
+    expect(getAccentColor(theme, Category.INITIATIVE)).toEqual('#00a651')
+  })
+
+  test('finds the broken themes', () => {
+    expect(validateSchema(mapPageConfigsSchema, { ...mainConfigs, theme: { pins: { event: 1 } } }))
+      .toEqual(['$.theme.pins.event should be a string'])
+  })
+})
@@ -0,0 +1,122 @@
+import {
+  convertOpeningHoursToSchema,
+  getEntryJsonLd,
+  getEntryMeta,
+  getEventJsonLd,
+  parsePublicOrigin,
+} from '../utils/seo'
+import { Entry } from '../dtos/Entry'
+import Event from '../dtos/Event'
+import Category from '../dtos/Categories'
+
+
+const url = 'https://kartevonmorgen.org/maps/main/entries/entryId'
+
+const entry: Entry = {
+  id: 'entryId',
+  title: 'Bio Laden',
+  description: 'Organic food from the region',
+  lat: 48.1,
+  lng: 11.5,
+  street: 'Hauptstraße 1',
+  zip: '80331',
+  city: 'München',
+  country: 'Germany',
+  telephone: '',
+  opening_hours: 'Mo-Fr 09:00-18:00; Sa 10:00-14:00',
+  categories: [Category.COMPANY],
+  tags: ['organic', 'food'],
+  license: 'CC0-1.0',
+}
+
+
+describe('entry', () => {
+  test('companies are local businesses with opening hours', () => {
+    expect(getEntryJsonLd(entry, url)).toEqual({
+      '@context': 'https://schema.org',
+      '@type': 'LocalBusiness',
+      '@id': url,
+      name: 'Bio Laden',
+      description: 'Organic food from the region',
+      address: {
+        '@type': 'PostalAddress',
+        streetAddress: 'Hauptstraße 1',
+        postalCode: '80331',
+        addressLocality: 'München',
+        addressCountry: 'Germany',
+      },
+      geo: {
+        '@type': 'GeoCoordinates',
+        latitude: 48.1,
+        longitude: 11.5,
+      },
+      openingHours: ['Mo-Fr 09:00-18:00', 'Sa 10:00-14:00'],
+      keywords: 'organic,food',
+    })
+  })
+
+  test('initiatives are organizations with a location', () => {
+    const jsonLd = getEntryJsonLd({ ...entry, categories: [Category.INITIATIVE] }, url)
+
+    expect(jsonLd['@type']).toEqual('Organization')
+    expect(jsonLd).not.toHaveProperty('openingHours')
+    expect(jsonLd).not.toHaveProperty('geo')
+    expect(jsonLd).toHaveProperty('location.geo.latitude', 48.1)
+  })
+
+  test('truncates the description and skips the missing image', () => {
+    const meta = getEntryMeta({ ...entry, description: 'word '.repeat(100) }, url)
+
+    expect(meta.description.length).toBeLessThanOrEqual(150)
+    expect(meta.imageUrl).toBeNull()
+  })
+})
+
+
+describe('event', () => {
+  test('has the dates in iso format and the organizer', () => {
+    const event = {
+      id: 'eventId',
+      title: 'Repair café',
+      description: 'Bring your broken things',
+      start: 1621603800,
+      end: 1621611000,
+      lat: 48.1,
+      lng: 11.5,
+      city: 'München',
+      organizer: 'Jo',
+      email: 'jo@example.org',
+      tags: [],
+    } as Event
+
+    const jsonLd = getEventJsonLd(event, url)
+
+    expect(jsonLd).toMatchObject({
+      '@type': 'Event',
+      startDate: '2021-05-21T13:30:00Z',
+      endDate: '2021-05-21T15:30:00Z',
+      location: {
+        '@type': 'Place',
+        name: 'München',
+        address: { '@type': 'PostalAddress', addressLocality: 'München' },
+      },
+      organizer: { '@type': 'Organization', name: 'Jo', email: 'jo@example.org' },
+    })
+    expect(jsonLd).not.toHaveProperty('keywords')
+  })
+})
+
+
+test('opening hours', () => {
+  expect(convertOpeningHoursToSchema(undefined)).toEqual([])
+  expect(convertOpeningHoursToSchema('24/7')).toEqual(['24/7'])
+})
+
+
+test('public origin', () => {
+  expect(parsePublicOrigin('https://kartevonmorgen.org/')).toEqual('https://kartevonmorgen.org')
+  expect(parsePublicOrigin('http://localhost:3000')).toEqual('http://localhost:3000')
+  expect(parsePublicOrigin(undefined)).toBeNull()
+  expect(parsePublicOrigin('kartevonmorgen.org')).toBeNull()
+  expect(parsePublicOrigin('ftp://kartevonmorgen.org')).toBeNull()
+})
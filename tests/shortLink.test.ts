@@ -0,0 +1,70 @@
+import {
+  createShortLinkCode,
+  getShortLinkPath,
+  isShortLinkCode,
+  normalizeViewPath,
+} from '../utils/shortLink'
+import { addSavedSearch, removeSavedSearch, SavedSearch } from '../utils/savedSearches'
+
+
+describe('normalize the views', () => {
+  test('sorts the params and their values and drops the others', () => {
+    expect(normalizeViewPath('/maps/main/entries/entryId?zoom=9&tag=b&tag=a&pinLat=1&lat=50.8&search='))
+      .toEqual('/maps/main/entries/entryId?lat=50.8&tag=a&tag=b&zoom=9')
+  })
+
+  test('gives the same path to the same view', () => {
+    expect(normalizeViewPath('/maps/main/?lng=10.9&lat=50.8'))
+      .toEqual(normalizeViewPath('/maps/main?lat=50.8&lng=10.9&unknown=1'))
+  })
+
+  test('keeps the redirects on the same host', () => {
+    expect(normalizeViewPath('//example.org/maps/main?zoom=9')).toEqual('/maps/main?zoom=9')
+  })
+
+  test.each([
+    ['/embed/main?lat=50.8'],
+    ['/maps/'],
+    ['/maps/../api/v0/maps'],
+  ])('refuses %s', (path: string) => {
+    expect(normalizeViewPath(path)).toBeNull()
+  })
+})
+
+
+describe('create the codes', () => {
+  test('maps every byte to a url safe character', () => {
+    const code = createShortLinkCode(new Uint8Array([0, 10, 36, 62, 63, 64, 255, 1]))
+
+    expect(code).toEqual('0Aa-_0_')
+    expect(isShortLinkCode(code)).toBe(true)
+    expect(getShortLinkPath(code)).toEqual('/s/0Aa-_0_')
+  })
+
+  test.each([
+    ['short'],
+    ['toolong1'],
+    ['abc/def'],
+  ])('refuses %s', (code: string) => {
+    expect(isShortLinkCode(code)).toBe(false)
+  })
+})
+
+
+describe('keep the saved searches', () => {
+  const savedSearches: SavedSearch[] = [
+    { name: 'Repair', path: '/maps/main?tag=repair', savedAt: 1 },
+    { name: 'Food', path: '/maps/main?tag=food', savedAt: 2 },
+  ]
+
+  test('puts the new search first and replaces the one with the same name', () => {
+    expect(addSavedSearch(savedSearches, ' Food ', '/maps/main?tag=organic', 3)).toEqual([
+      { name: 'Food', path: '/maps/main?tag=organic', savedAt: 3 },
+      { name: 'Repair', path: '/maps/main?tag=repair', savedAt: 1 },
+    ])
+  })
+
+  test('deletes a search', () => {
+    expect(removeSavedSearch(savedSearches, 1)).toEqual([savedSearches[1]])
+  })
+})
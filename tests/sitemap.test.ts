@@ -0,0 +1,69 @@
+import {
+  createSitemap,
+  createSitemapIndex,
+  escapeXml,
+  getEntityPath,
+  getLatestLastmod,
+  parseBBox,
+  splitBBox,
+} from '../utils/sitemap'
+import { RootSlugEntity } from '../utils/types'
+
+
+// 2021-05-21 13:30:00 utc
+const lastmod = 1621603800
+
+
+describe('create the sitemaps', () => {
+  test('escapes the urls', () => {
+    expect(escapeXml('https://example.org/?a=1&b=<2>')).toEqual('https://example.org/?a=1&amp;b=&lt;2&gt;')
+  })
+
+  test('lists the urls with their last modification', () => {
+    const sitemap = createSitemap([
+      { loc: 'https://example.org/maps/main/entries/a', lastmod },
+      { loc: 'https://example.org/maps/main/events/b' },
+    ])
+
+    expect(sitemap.split('\n')).toEqual([
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      '<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">',
+      '<url><loc>https://example.org/maps/main/entries/a</loc><lastmod>2021-05-21T13:30:00Z</lastmod></url>',
+      '<url><loc>https://example.org/maps/main/events/b</loc></url>',
+      '</urlset>',
+      '',
+    ])
+  })
+
+  test('lists the sitemaps in the index', () => {
+    const sitemapIndex = createSitemapIndex([{ loc: 'https://example.org/sitemaps/1.xml', lastmod }])
+
+    expect(sitemapIndex).toContain('<sitemapindex xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">')
+    expect(sitemapIndex).toContain(
+      '<sitemap><loc>https://example.org/sitemaps/1.xml</loc><lastmod>2021-05-21T13:30:00Z</lastmod></sitemap>',
+    )
+  })
+
+  test('finds the latest modification', () => {
+    expect(getLatestLastmod([{ loc: 'a', lastmod }, { loc: 'b' }, { loc: 'c', lastmod: lastmod - 1 }]))
+      .toEqual(lastmod)
+    expect(getLatestLastmod([{ loc: 'a' }])).toBeUndefined()
+  })
+
+  test('uses the slug urls of the map', () => {
+    expect(getEntityPath('main', RootSlugEntity.ENTRY, 'entryId')).toEqual('/maps/main/entries/entryId')
+    expect(getEntityPath('main', RootSlugEntity.EVENT, 'eventId')).toEqual('/maps/main/events/eventId')
+  })
+})
+
+
+describe('split the bbox', () => {
+  test('splits into quarters that cover the bbox', () => {
+    expect(splitBBox(parseBBox('0,0,10,20'))).toEqual([
+      [0, 0, 5, 10],
+      [0, 10, 5, 20],
+      [5, 0, 10, 10],
+      [5, 10, 10, 20],
+    ])
+  })
+})
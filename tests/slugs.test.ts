@@ -1,4 +1,9 @@
 import { EntrySlugEntity, RatingSlugEntity, RootSlugEntity, SlugAction, SlugVerb } from '../utils/types'
+import {
+  convertSlugActionToSlugSteps,
+  convertSlugStepsToSlugArray,
+  getRootSlugActionFromQuery,
+} from '../utils/slug'
 
 
 interface Case {
@@ -411,4 +416,38 @@ describe('convert query slugs to slug actions', () => {
   //   ({ path, input, output }) => {
   //     expect(getRootSlugActionFromQuery({ slug: input })).toEqual(output)
   //   })
-})
\ No newline at end of file
+})
+
+
+// the valid paths should survive a round trip from the slug to the slug actions and back
+const validPaths: string[] = [
+  'main',
+  'main/entries',
+  'main/entries/create',
+  'main/entries/entryId',
+  'main/entries/entryId/edit',
+  'main/events/eventId',
+  'main/events/eventId/edit',
+  'main/entries/entryId/ratings/create',
+  'main/entries/entryId/ratings/ratingId',
+  'main/entries/entryId/ratings/ratingId/comments/create',
+  'main/entries/entryId/ratings/ratingId/comments/commentId/edit',
+]
+
+describe('convert slug actions back to slugs', () => {
+  test.each(validPaths)(
+    '%s',
+    (path: string) => {
+      const rootSlugAction = getRootSlugActionFromQuery({ slug: path.split('/') })
+      const slugSteps = convertSlugActionToSlugSteps(rootSlugAction)
+
+      expect(convertSlugStepsToSlugArray('main', slugSteps).join('/')).toEqual(path)
+    })
+
+  test('drops the invalid parts of the slug', () => {
+    const rootSlugAction = getRootSlugActionFromQuery({ slug: 'main/entries/create/invalidEntryId'.split('/') })
+    const slugSteps = convertSlugActionToSlugSteps(rootSlugAction)
+
+    expect(convertSlugStepsToSlugArray('main', slugSteps)).toEqual(['main', 'entries', 'create'])
+  })
+})
@@ -0,0 +1,106 @@
+import { readFileSync } from 'fs'
+import { join } from 'path'
+import {
+  countEntriesTags,
+  countTagFrequencies,
+  getTagIngestionFormat,
+  parseTagIngestion,
+  TagIngestionFormat,
+} from '../utils/tagIngestion'
+
+
+const readFixture = (name: string): string => (
+  readFileSync(join(__dirname, '..', 'db', 'fixtures', name), 'utf8')
+)
+
+
+describe('the format of the body', () => {
+  test.each([
+    ['text/csv; charset=utf-8', 'id,tags', TagIngestionFormat.ENTRIES_CSV],
+    ['application/json', [{ tags: ['bio'] }], TagIngestionFormat.ENTRIES_JSON],
+    ['application/json', { tags: [{ tag: 'bio', frequency: 1 }] }, TagIngestionFormat.COUNTS],
+  ])(
+    'reads the %s body',
+    (contentType: string, body: unknown, format: TagIngestionFormat) => {
+      expect(getTagIngestionFormat(contentType, body)).toEqual(format)
+    })
+})
+
+
+describe('count the tags', () => {
+  test('adds up the counts of the same tag', () => {
+    expect(countTagFrequencies([
+      { tag: 'Bio ', frequency: 2 },
+      { tag: 'regional', frequency: 5 },
+      { tag: 'bio', frequency: 4 },
+      { tag: ' ', frequency: 3 },
+    ])).toEqual([
+      { tag: 'bio', frequency: 6 },
+      { tag: 'regional', frequency: 5 },
+    ])
+  })
+
+  test('counts the pairs of the tags in both directions', () => {
+    const { frequencies, cooccurrences } = countEntriesTags([['bio', 'regional'], ['bio'], ['bio', 'regional']])
+
+    expect(frequencies).toEqual([
+      { tag: 'bio', frequency: 3 },
+      { tag: 'regional', frequency: 2 },
+    ])
+    expect(cooccurrences).toEqual([
+      { tag: 'bio', related_tag: 'regional', frequency: 2 },
+      { tag: 'regional', related_tag: 'bio', frequency: 2 },
+    ])
+  })
+})
+
+
+describe('parse the ingestions', () => {
+  test('reads the counts fixture', () => {
+    const { frequencies, cooccurrences } = parseTagIngestion(
+      TagIngestionFormat.COUNTS,
+      JSON.parse(readFixture('tag-frequencies.json')),
+    )
+
+    expect(frequencies[0]).toEqual({ tag: 'bio', frequency: 4210 })
+    expect(frequencies).toHaveLength(10)
+    expect(cooccurrences).toEqual([])
+  })
+
+  test('reads the entries fixture', () => {
+    const { frequencies, cooccurrences } = parseTagIngestion(TagIngestionFormat.ENTRIES_CSV, readFixture('entries.csv'))
+
+    expect(frequencies.slice(0, 3)).toEqual([
+      { tag: 'bio', frequency: 4 },
+      { tag: 'nachbarschaft', frequency: 4 },
+      { tag: 'regional', frequency: 3 },
+    ])
+    expect(cooccurrences).toContainEqual({ tag: 'bio', related_tag: 'regional', frequency: 3 })
+  })
+
+  test('reads the tags of the json entries as arrays or joined with commas', () => {
+    const { frequencies } = parseTagIngestion(TagIngestionFormat.ENTRIES_JSON, [
+      { tags: ['Bio', 'bio', 'regional'] },
+      { tags: 'bio, unverpackt' },
+      { title: 'without tags' },
+    ])
+
+    expect(frequencies).toEqual([
+      { tag: 'bio', frequency: 2 },
+      { tag: 'regional', frequency: 1 },
+      { tag: 'unverpackt', frequency: 1 },
+    ])
+  })
+
+  test.each([
+    [TagIngestionFormat.COUNTS, { tags: [{ tag: 'bio' }] }],
+    [TagIngestionFormat.COUNTS, { tags: [{ tag: 'bio', frequency: 1.5 }] }],
+    [TagIngestionFormat.ENTRIES_JSON, [{ tags: 3 }]],
+    [TagIngestionFormat.ENTRIES_CSV, 'id,title\n1,Repair Café'],
+    [TagIngestionFormat.ENTRIES_CSV, { tags: [] }],
+  ])(
+    'refuses the invalid %s',
+    (format: TagIngestionFormat, body: unknown) => {
+      expect(() => parseTagIngestion(format, body)).toThrow()
+    })
+})
@@ -0,0 +1,54 @@
+import {
+  createTrigramMatchQuery,
+  foldTag,
+  getTrigrams,
+  rankTagMatches,
+} from '../utils/tagSearch'
+
+
+describe('fold the tags', () => {
+  test.each([
+    ['Gemüse', 'gemuese'],
+    ['gemuese', 'gemuese'],
+    ['fair-trade', 'fairtrade'],
+    ['Straße', 'strasse'],
+    ['Repair Café', 'repaircafé'],
+  ])('folds %s', (tag: string, foldedTag: string) => {
+    expect(foldTag(tag)).toEqual(foldedTag)
+  })
+})
+
+
+describe('match the trigrams', () => {
+  test('splits the terms', () => {
+    expect(getTrigrams('bioo')).toEqual(['bio', 'ioo'])
+    expect(getTrigrams('bi')).toEqual([])
+  })
+
+  test('matches any of the trigrams', () => {
+    expect(createTrigramMatchQuery('bioo')).toEqual('"bio" OR "ioo"')
+    expect(createTrigramMatchQuery('a"bc')).toEqual('"a""b" OR """bc"')
+    expect(createTrigramMatchQuery('bi')).toBeNull()
+  })
+})
+
+
+describe('rank the matches', () => {
+  const candidates = [
+    { tag: 'gemeinschaftsgarten', frequency: 900 },
+    { tag: 'biogemüse', frequency: 50 },
+    { tag: 'gemüse', frequency: 10 },
+    { tag: 'gemüsekiste', frequency: 300 },
+  ]
+
+  test('puts the exact and the prefix matches first', () => {
+    expect(rankTagMatches(candidates, 'gemuese').map(candidate => candidate.tag))
+      .toEqual(['gemüse', 'gemüsekiste', 'biogemüse', 'gemeinschaftsgarten'])
+  })
+
+  test('finds the tags with typos', () => {
+    const [bestMatch] = rankTagMatches(candidates, 'gemüsekste')
+
+    expect(bestMatch.tag).toEqual('gemüsekiste')
+  })
+})
@@ -0,0 +1,129 @@
+import Supercluster, { ClusterFeature, PointFeature } from 'supercluster'
+import { SearchResult, SearchResults } from '../dtos/SearchResult'
+import Category from '../dtos/Categories'
+
+
+export type CategoryCount = Record<Category, number>
+
+export interface SearchResultPointProperties {
+  searchResult: SearchResult
+}
+
+export interface SearchResultClusterProperties {
+  categoryCount: CategoryCount
+}
+
+export type SearchResultPointFeature = PointFeature<SearchResultPointProperties>
+export type SearchResultClusterFeature = ClusterFeature<SearchResultClusterProperties>
+export type SearchResultFeature = SearchResultPointFeature | SearchResultClusterFeature
+
+export type SearchResultsIndex = Supercluster<SearchResultPointProperties, SearchResultClusterProperties>
+
+
+export const newCategoryCount = (): CategoryCount => (
+  {
+    [Category.INITIATIVE]: 0,
+    [Category.COMPANY]: 0,
+    [Category.EVENT]: 0,
+    [Category.UNKNOWN]: 0,
+  }
+)
+
+export const getCategoryCountOfSearchResult = (searchResult: SearchResult): CategoryCount => {
+  const categoryCount = newCategoryCount()
+
+  // like the pins, only the first category decides the color
+  const category = searchResult.categories[0]
+  if (category in categoryCount) {
+    categoryCount[category] += 1
+  } else {
+    categoryCount[Category.UNKNOWN] += 1
+  }
+
+  return categoryCount
+}
+
+export const addCategoryCounts = (a: CategoryCount, b: CategoryCount): CategoryCount => {
+  const categoryCount = newCategoryCount()
+  Object.keys(categoryCount).forEach((category: Category) => {
+    categoryCount[category] = a[category] + b[category]
+  })
+
+  return categoryCount
+}
+
+export const convertSearchResultToPointFeature = (searchResult: SearchResult): SearchResultPointFeature => (
+  {
+    type: 'Feature',
+    properties: {
+      searchResult,
+    },
+    geometry: {
+      type: 'Point',
+      // GeoJSON expects the longitude first
+      coordinates: [searchResult.lng, searchResult.lat],
+    },
+  }
+)
+
+export const isClusterFeature = (feature: SearchResultFeature): feature is SearchResultClusterFeature => {
+  return (feature as SearchResultClusterFeature).properties.cluster === true
+}
+
+export interface SearchResultsIndexOptions {
+  radius: number
+  maxZoom: number
+}
+
+export const createSearchResultsIndex = (
+  searchResults: SearchResults,
+  options: SearchResultsIndexOptions,
+): SearchResultsIndex => {
+  const index: SearchResultsIndex = new Supercluster({
+    radius: options.radius,
+    maxZoom: options.maxZoom,
+    map: (properties: SearchResultPointProperties) => ({
+      categoryCount: getCategoryCountOfSearchResult(properties.searchResult),
+    }),
+    // the clusters of a zoom merge their children of the next higher zoom. the accumulated properties are
+    // a shallow copy of the first child, its count is replaced so the child keeps its own
+    reduce: (accumulated, properties) => {
+      accumulated.categoryCount = addCategoryCounts(accumulated.categoryCount, properties.categoryCount)
+    },
+  })
+
+  index.load(searchResults.map(convertSearchResultToPointFeature))
+
+  return index
+}
+
+// pixel offsets around the center of a cluster that can not be expanded anymore,
+// e.g. several shops in the same building.
+// small groups are placed on a circle and bigger ones on a spiral to prevent overlaps
+export const getSpiderfyOffsets = (
+  count: number,
+  circleRadius: number,
+  maxCircleCount: number = 8,
+): [number, number][] => {
+  const offsets: [number, number][] = []
+
+  if (count <= maxCircleCount) {
+    const angleStep = (2 * Math.PI) / count
+    for (let i = 0; i < count; i++) {
+      const angle = i * angleStep
+      offsets.push([circleRadius * Math.cos(angle), circleRadius * Math.sin(angle)])
+    }
+
+    return offsets
+  }
+
+  let legLength = circleRadius
+  let angle = 0
+  for (let i = 0; i < count; i++) {
+    angle += circleRadius / legLength + i * 0.0005
+    offsets.push([legLength * Math.cos(angle), legLength * Math.sin(angle)])
+    legLength += (2 * Math.PI * circleRadius / 3) / angle
+  }
+
+  return offsets
+}
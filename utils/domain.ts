@@ -3,4 +3,16 @@ export const getDomainFromLink = (link: string): string => {
   const domain = hostname.replace(/^(www\.)/, '')
 
   return domain
-}
\ No newline at end of file
+}
+
+
+// the links of the entries are opened in a new tab, so only the web addresses are accepted
+export const isValidLink = (link: string): boolean => {
+  try {
+    const { protocol } = new URL(link)
+
+    return protocol === 'http:' || protocol === 'https:'
+  } catch (e) {
+    return false
+  }
+}
@@ -0,0 +1,120 @@
+import moment from 'moment'
+import omit from 'lodash/omit'
+import { SingularEntityName, SlugVerb } from './types'
+import { DRAFTS } from '../consts/drafts'
+
+
+// the values of the long forms are kept in the browser until they are sent,
+// so clicking on a pin or a failing request does not lose them
+
+export interface Draft {
+  values: object
+  // unix timestamp
+  savedAt: number
+}
+
+// the subset of the web storage the drafts need, so they can be kept in memory as well
+export type DraftStorage = Pick<Storage, 'getItem' | 'setItem' | 'removeItem'>
+
+// the dates of the forms are moment objects, json would turn them into strings
+const MOMENT_KEY = '__moment'
+
+
+// e.g. draft/entry/edit/<entry id> or draft/rating/create/<entry id>
+export const getDraftKey = (entity: SingularEntityName, verb: SlugVerb, id: string | null): string => (
+  [DRAFTS.keyPrefix, entity, verb, id || 'new'].join('/')
+)
+
+// the browsers may forbid the storage, e.g. in the private mode or in the iframes
+export const getDraftStorage = (): DraftStorage | null => {
+  try {
+    return typeof window !== 'undefined' ? window.localStorage : null
+  } catch (e) {
+    return null
+  }
+}
+
+export const serializeDraft = (draft: Draft): string => (
+  JSON.stringify(draft, function (key: string, value: unknown) {
+    // the value is already converted by toJSON, the holder still has the original one
+    const originalValue = this[key]
+
+    return moment.isMoment(originalValue) ? { [MOMENT_KEY]: originalValue.unix() } : value
+  })
+)
+
+export const deserializeDraft = (serializedDraft: string): Draft => (
+  JSON.parse(serializedDraft, (_key: string, value: unknown) => (
+    value !== null && typeof value === 'object' && MOMENT_KEY in value ?
+      moment.unix(value[MOMENT_KEY] as number) :
+      value
+  ))
+)
+
+const isExpired = (draft: Draft, now: number): boolean => (
+  moment.unix(draft.savedAt).add(DRAFTS.maxAgeInDays, 'days').unix() < now
+)
+
+
+const isFilled = (value: unknown): boolean => (
+  value !== undefined && value !== null && value !== '' && !(Array.isArray(value) && value.length === 0)
+)
+
+// the empty forms are not worth a draft, the omitted fields are filled by the form itself
+export const saveDraft = (
+  storage: DraftStorage,
+  key: string,
+  allValues: object,
+  now: number,
+  omittedFields: string[] = [],
+) => {
+  try {
+    const values = omit(allValues, omittedFields)
+    if (!Object.values(values).some(isFilled)) {
+      storage.removeItem(key)
+
+      return
+    }
+
+    storage.setItem(key, serializeDraft({ values, savedAt: now }))
+  } catch (e) {
+    // e.g. the storage is full, the form still works without the draft
+  }
+}
+
+export const discardDraft = (storage: DraftStorage, key: string) => {
+  try {
+    storage.removeItem(key)
+  } catch (e) {
+    // the draft is gone one way or another
+  }
+}
+
+// the drafts that can not be read or are too old are removed.
+// the omitted fields are dropped from the drafts that were saved with them
+export const loadDraft = (
+  storage: DraftStorage,
+  key: string,
+  now: number,
+  omittedFields: string[] = [],
+): Draft | null => {
+  try {
+    const serializedDraft = storage.getItem(key)
+    if (serializedDraft === null) {
+      return null
+    }
+
+    const draft = deserializeDraft(serializedDraft)
+    if (typeof draft.savedAt !== 'number' || typeof draft.values !== 'object' || isExpired(draft, now)) {
+      discardDraft(storage, key)
+
+      return null
+    }
+
+    return { ...draft, values: omit(draft.values, omittedFields) }
+  } catch (e) {
+    discardDraft(storage, key)
+
+    return null
+  }
+}
@@ -0,0 +1,146 @@
+import isEmpty from 'lodash/isEmpty'
+import { foldTag, getTrigrams } from './tagSearch'
+import { BBoxTuple } from './sitemap'
+import { DUPLICATES } from '../consts/duplicates'
+
+
+// the checks that tell if a new entry is already on the map,
+// they only compare plain values so they can run on the form and on the bulk imports alike
+
+export interface DuplicateCandidate {
+  id?: string
+  title: string
+  lat: number
+  lng: number
+  homepage?: string | null
+  email?: string | null
+}
+
+export enum DuplicateReason {
+  TITLE = 'title',
+  HOMEPAGE = 'homepage',
+  EMAIL = 'email',
+  LOCATION = 'location',
+}
+
+export interface Duplicate<T extends DuplicateCandidate> {
+  candidate: T
+  score: number
+  reasons: DuplicateReason[]
+}
+
+
+const EARTH_RADIUS = 6371000
+
+const toRadians = (degrees: number): number => degrees * Math.PI / 180
+
+// the haversine distance in meters
+export const getDistance = (lat1: number, lng1: number, lat2: number, lng2: number): number => {
+  const dLat = toRadians(lat2 - lat1)
+  const dLng = toRadians(lng2 - lng1)
+  const a = Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(lat1)) * Math.cos(toRadians(lat2)) * Math.sin(dLng / 2) ** 2
+
+  return 2 * EARTH_RADIUS * Math.asin(Math.min(1, Math.sqrt(a)))
+}
+
+// the box around the pin to search the candidates in, e.g. for the bbox param of the search
+export const getBBoxAroundPoint = (lat: number, lng: number, radius: number): BBoxTuple => {
+  const dLat = radius / EARTH_RADIUS * 180 / Math.PI
+  const dLng = dLat / Math.max(Math.cos(toRadians(lat)), 0.01)
+
+  return [lat - dLat, lng - dLng, lat + dLat, lng + dLng]
+}
+
+// e.g. 'Café Müller & Söhne' -> 'cafemuellersoehne'
+export const normalizeTitle = (title: string): string => (
+  foldTag(title || '')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9]/g, '')
+)
+
+// the dice coefficient of the trigrams, 1 means the same title
+export const getTitleSimilarity = (title1: string, title2: string): number => {
+  const normalizedTitle1 = normalizeTitle(title1)
+  const normalizedTitle2 = normalizeTitle(title2)
+  if (normalizedTitle1.length === 0 || normalizedTitle2.length === 0) {
+    return 0
+  }
+
+  if (normalizedTitle1 === normalizedTitle2) {
+    return 1
+  }
+
+  const trigrams1 = getTrigrams(normalizedTitle1)
+  const trigrams2 = getTrigrams(normalizedTitle2)
+  if (trigrams1.length === 0 || trigrams2.length === 0) {
+    return 0
+  }
+
+  const sharedTrigrams = trigrams1.filter(trigram => trigrams2.includes(trigram))
+
+  return 2 * sharedTrigrams.length / (trigrams1.length + trigrams2.length)
+}
+
+// e.g. 'https://www.example.org/shop/' -> 'example.org/shop'
+export const normalizeHomepage = (homepage: string | null | undefined): string => (
+  (homepage || '')
+    .trim()
+    .toLowerCase()
+    .replace(/^[a-z]+:\/\//, '')
+    .replace(/^www\./, '')
+    .replace(/[?#].*$/, '')
+    .replace(/\/+$/, '')
+)
+
+export const normalizeEmail = (email: string | null | undefined): string => (
+  (email || '').trim().toLowerCase()
+)
+
+const isSameValue = (value1: string, value2: string): boolean => (
+  !isEmpty(value1) && value1 === value2
+)
+
+
+export const scoreDuplicate = <T extends DuplicateCandidate>(entry: DuplicateCandidate, candidate: T): Duplicate<T> => {
+  const { weights } = DUPLICATES
+  const reasons: DuplicateReason[] = []
+  let score = 0
+
+  const titleSimilarity = getTitleSimilarity(entry.title, candidate.title)
+  if (titleSimilarity >= DUPLICATES.minTitleSimilarity) {
+    reasons.push(DuplicateReason.TITLE)
+    score += weights.title * titleSimilarity
+  }
+
+  if (isSameValue(normalizeHomepage(entry.homepage), normalizeHomepage(candidate.homepage))) {
+    reasons.push(DuplicateReason.HOMEPAGE)
+    score += weights.homepage
+  }
+
+  if (isSameValue(normalizeEmail(entry.email), normalizeEmail(candidate.email))) {
+    reasons.push(DuplicateReason.EMAIL)
+    score += weights.email
+  }
+
+  if (getDistance(entry.lat, entry.lng, candidate.lat, candidate.lng) <= DUPLICATES.closeDistance) {
+    reasons.push(DuplicateReason.LOCATION)
+    score += weights.location
+  }
+
+  return {
+    candidate,
+    score: Math.min(1, score),
+    reasons,
+  }
+}
+
+// the likely duplicates first, an entry is never the duplicate of itself
+export const findDuplicates = <T extends DuplicateCandidate>(entry: DuplicateCandidate, candidates: T[]): Duplicate<T>[] => (
+  candidates
+    .filter(candidate => entry.id === undefined || candidate.id !== entry.id)
+    .map(candidate => scoreDuplicate(entry, candidate))
+    .filter(duplicate => duplicate.score >= DUPLICATES.minScore)
+    .sort((a, b) => b.score - a.score)
+)
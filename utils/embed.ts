@@ -0,0 +1,138 @@
+import qs from 'qs'
+import isPlainObject from 'lodash/isPlainObject'
+import isString from 'lodash/isString'
+import isFinite from 'lodash/isFinite'
+import { SelectedEntity } from '../slices/mapSlice'
+import { CategoryName } from '../dtos/ProjectTheme'
+
+
+// the messages between the embedded map and its host page, all of them are prefixed
+// so they do not collide with the messages of other scripts on the host page
+//
+// host -> map:  { type: 'kvm:setCenter', lat: 50.8, lng: 10.9, zoom: 9 }
+//               { type: 'kvm:setTags', tags: ['repair'] }
+//               { type: 'kvm:setSearch', text: 'cafe' }
+// map -> host:  { type: 'kvm:ready' }
+//               { type: 'kvm:select', entity: { entity: 'entry', id: '...' } | null }
+
+export enum EmbedCommandType {
+  SET_CENTER = 'kvm:setCenter',
+  SET_TAGS = 'kvm:setTags',
+  SET_SEARCH = 'kvm:setSearch',
+}
+
+export enum EmbedEventType {
+  READY = 'kvm:ready',
+  SELECT = 'kvm:select',
+}
+
+export type EmbedCommand =
+  { type: EmbedCommandType.SET_CENTER, lat: number, lng: number, zoom?: number } |
+  { type: EmbedCommandType.SET_TAGS, tags: string[] } |
+  { type: EmbedCommandType.SET_SEARCH, text: string }
+
+export interface EmbedSelectedEntity {
+  entity: string
+  id: string
+}
+
+export type EmbedEvent =
+  { type: EmbedEventType.READY } |
+  { type: EmbedEventType.SELECT, entity: EmbedSelectedEntity | null }
+
+// what the builder can choose, the filters end up as the enforced filters of the map
+export interface EmbedOptions {
+  fixedTags: string[]
+  orgTag: string
+  allowedCategories: CategoryName[]
+  showSidebar: boolean
+  lat?: number
+  lng?: number
+  zoom?: number
+}
+
+export interface EmbedSize {
+  width: string
+  height: string
+}
+
+
+// anything can be posted to the map, only the well formed commands are taken
+export const parseEmbedCommand = (data: unknown): EmbedCommand | null => {
+  if (!isPlainObject(data)) {
+    return null
+  }
+
+  const message = data as Record<string, unknown>
+
+  switch (message.type) {
+    case EmbedCommandType.SET_CENTER:
+      if (!isFinite(message.lat) || !isFinite(message.lng)) {
+        return null
+      }
+
+      return {
+        type: EmbedCommandType.SET_CENTER,
+        lat: message.lat as number,
+        lng: message.lng as number,
+        zoom: isFinite(message.zoom) ? message.zoom as number : undefined,
+      }
+
+    case EmbedCommandType.SET_TAGS:
+      if (!Array.isArray(message.tags) || !message.tags.every(isString)) {
+        return null
+      }
+
+      return { type: EmbedCommandType.SET_TAGS, tags: message.tags }
+
+    case EmbedCommandType.SET_SEARCH:
+      if (!isString(message.text)) {
+        return null
+      }
+
+      return { type: EmbedCommandType.SET_SEARCH, text: message.text }
+
+    default:
+      return null
+  }
+}
+
+export const createSelectEvent = (selectedEntity: SelectedEntity | null): EmbedEvent => ({
+  type: EmbedEventType.SELECT,
+  entity: selectedEntity !== null && selectedEntity.id !== null ?
+    { entity: selectedEntity.entity, id: selectedEntity.id } :
+    null,
+})
+
+
+export const createEmbedUrl = (origin: string, project: string, options: EmbedOptions): string => {
+  const { fixedTags, orgTag, allowedCategories, showSidebar, lat, lng, zoom } = options
+
+  const query = qs.stringify(
+    {
+      fixedTags: fixedTags.length !== 0 ? fixedTags.join(',') : undefined,
+      orgTag: orgTag || undefined,
+      allowedCategories: allowedCategories.length !== 0 ? allowedCategories.join(',') : undefined,
+      sidebar: showSidebar ? undefined : false,
+      lat,
+      lng,
+      zoom,
+    },
+    { addQueryPrefix: true },
+  )
+
+  return `${origin}/embed/${project}${query}`
+}
+
+const escapeHtmlAttribute = (value: string): string => (
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/"/g, '&quot;')
+    .replace(/</g, '&lt;')
+)
+
+export const createEmbedSnippet = (url: string, size: EmbedSize): string => (
+  `<iframe src="${escapeHtmlAttribute(url)}" ` +
+  `width="${escapeHtmlAttribute(size.width)}" height="${escapeHtmlAttribute(size.height)}" ` +
+  'style="border: 0" allow="geolocation" loading="lazy"></iframe>'
+)
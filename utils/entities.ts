@@ -0,0 +1,49 @@
+import chunk from 'lodash/chunk'
+import { AxiosInstance } from '../api'
+import API_ENDPOINTS from '../api/endpoints'
+import { EntityCard, getEntryCard, getEventCard, OEmbedEntity } from './oembed'
+import { RootSlugEntity } from './types'
+import { Entries as EntriesDTO, Entry } from '../dtos/Entry'
+import EventDTO from '../dtos/Event'
+
+
+// the single entities for the pages that are rendered on the server
+
+// the backend answers the unknown ids of the entries with an empty list
+export const fetchEntry = async (id: string): Promise<Entry | null> => {
+  const entriesReq = await AxiosInstance.GetRequest<EntriesDTO>(`${API_ENDPOINTS.getEntries()}/${id}`)
+  const [entry] = AxiosInstance.GetSuccessData(entriesReq)
+
+  return entry || null
+}
+
+// the backend takes a list of ids, the long lists are split so the urls stay short
+export const fetchEntries = async (ids: string[], idsPerRequest: number): Promise<Entry[]> => {
+  let entries: Entry[] = []
+  for (const idsChunk of chunk(ids, idsPerRequest)) {
+    const entriesResponse = await AxiosInstance.GetRequest<EntriesDTO>(
+      `${API_ENDPOINTS.getEntries()}/${idsChunk.join(',')}`,
+    )
+    entries = entries.concat(AxiosInstance.GetSuccessData(entriesResponse))
+  }
+
+  return entries
+}
+
+export const fetchEvent = async (id: string): Promise<EventDTO> => {
+  const eventReq = await AxiosInstance.GetRequest<EventDTO>(`${API_ENDPOINTS.getEvent()}/${id}`)
+
+  return AxiosInstance.GetSuccessData(eventReq)
+}
+
+export const fetchEntityCard = async (oEmbedEntity: OEmbedEntity, url: string): Promise<EntityCard | null> => {
+  const { entity, id } = oEmbedEntity
+
+  if (entity === RootSlugEntity.ENTRY) {
+    const entry = await fetchEntry(id)
+
+    return entry !== null ? getEntryCard(entry, url) : null
+  }
+
+  return getEventCard(await fetchEvent(id), url)
+}
@@ -0,0 +1,69 @@
+import { Moment } from 'moment'
+import isFinite from 'lodash/isFinite'
+import toNumber from 'lodash/toNumber'
+import { isValidPhoneNumber } from 'libphonenumber-js'
+import { validate as isValidEmail } from 'isemail'
+import { EVENT_FORM } from '../consts/eventForm'
+
+
+export enum EventFormProblem {
+  TITLE = 'title',
+  DURATION = 'duration',
+  DESCRIPTION = 'description',
+  LOCATION = 'location',
+  TELEPHONE = 'telephone',
+  EMAIL = 'email',
+}
+
+// the values as the event form holds them, before onSendAdapter
+export interface EventFormValues {
+  title?: string
+  description?: string
+  duration?: [Moment, Moment]
+  lat?: number | string
+  lng?: number | string
+  telephone?: string
+  email?: string
+}
+
+
+const hasLength = (text: string | undefined, min: number, max: number = Infinity): boolean => (
+  typeof text === 'string' && text.length >= min && text.length <= max
+)
+
+const isCoordinate = (value: number | string | undefined): boolean => (
+  value !== undefined && value !== null && value !== '' && isFinite(toNumber(value))
+)
+
+// the same checks as the rules of the fields of EventForm, an empty list if the event can be sent
+export const getEventFormProblems = (formValues: EventFormValues): EventFormProblem[] => {
+  const { title, description, duration, lat, lng, telephone, email } = formValues
+  const problems: EventFormProblem[] = []
+
+  if (!hasLength(title, EVENT_FORM.titleMinLength)) {
+    problems.push(EventFormProblem.TITLE)
+  }
+
+  if (!Array.isArray(duration) || duration.length !== 2 || !duration[0] || !duration[1]) {
+    problems.push(EventFormProblem.DURATION)
+  }
+
+  if (!hasLength(description, EVENT_FORM.descriptionMinLength, EVENT_FORM.descriptionMaxLength)) {
+    problems.push(EventFormProblem.DESCRIPTION)
+  }
+
+  // the calendars without a geo property only have the address as text
+  if (!isCoordinate(lat) || !isCoordinate(lng)) {
+    problems.push(EventFormProblem.LOCATION)
+  }
+
+  if (typeof telephone !== 'string' || !isValidPhoneNumber(telephone)) {
+    problems.push(EventFormProblem.TELEPHONE)
+  }
+
+  if (typeof email !== 'string' || !isValidEmail(email)) {
+    problems.push(EventFormProblem.EMAIL)
+  }
+
+  return problems
+}
@@ -0,0 +1,236 @@
+import qs from 'qs'
+import moment from 'moment'
+import isEmpty from 'lodash/isEmpty'
+import isFinite from 'lodash/isFinite'
+import isNumber from 'lodash/isNumber'
+import { escapeXml, parseBBox } from './sitemap'
+import { Entry } from '../dtos/Entry'
+import { SearchEntriesRequest } from '../dtos/SearchEntriesRequest'
+import Event from '../dtos/Event'
+import i18n from '../i18n.json'
+
+
+// the feeds of the new entries and the upcoming events of an area, for the feed readers of the regional groups
+
+export enum FeedFormat {
+  ATOM = 'atom',
+  RSS = 'rss',
+}
+
+export enum FeedKind {
+  ENTRIES = 'entries',
+  EVENTS = 'events',
+}
+
+export interface FeedItem {
+  title: string
+  // the slug url of the entity, it is also the id of the item
+  link: string
+  summary: string
+  updated: number
+  categories: string[]
+}
+
+export interface Feed {
+  title: string
+  // the feed itself and the map that shows the same view
+  selfLink: string
+  link: string
+  items: FeedItem[]
+}
+
+type FeedRequest = Record<string, string | number | undefined>
+
+
+export const parseFeedFormat = (format: string): FeedFormat => (
+  format === FeedFormat.RSS ? FeedFormat.RSS : FeedFormat.ATOM
+)
+
+export const getFeedContentType = (format: FeedFormat): string => (
+  format === FeedFormat.RSS ?
+    'application/rss+xml; charset=utf-8' :
+    'application/atom+xml; charset=utf-8'
+)
+
+// the titles of the feeds are in the language of the map they were subscribed on
+export const getFeedLocale = (locale: string): string => (
+  i18n.locales.includes(locale) ? locale : i18n.defaultLocale
+)
+
+// the search requests of the map carry empty values and the limit of the map, the feed decides its own limit
+const removeEmptyParams = (request: FeedRequest): FeedRequest => (
+  Object.keys(request).reduce((feedParams: FeedRequest, key: string) => {
+    const value = request[key]
+    if (key === 'limit' || value === undefined || value === null || value === '' || (isNumber(value) && !isFinite(value))) {
+      return feedParams
+    }
+
+    feedParams[key] = value
+
+    return feedParams
+  }, {})
+)
+
+export const createFeedUrl = (
+  endpoint: string,
+  project: string,
+  request: FeedRequest,
+  format: FeedFormat,
+  locale?: string,
+): string => (
+  `${endpoint}${qs.stringify({ project, ...removeEmptyParams(request), format, locale }, { addQueryPrefix: true })}`
+)
+
+// the same view is cached once, whatever the order of the params is. the format is left out, the feed is rendered per request
+export const getFeedCacheKey = (kind: FeedKind, project: string, locale: string, request: FeedRequest): string => (
+  [
+    kind,
+    project,
+    locale,
+    qs.stringify(removeEmptyParams(request), { sort: (a: string, b: string) => a.localeCompare(b) }),
+  ].join('|')
+)
+
+
+const splitList = (list: string | undefined): string[] => (
+  (list || '')
+    .split(',')
+    .map(item => item.trim().toLowerCase())
+    .filter(item => item.length !== 0)
+)
+
+// the same filters as the search of the backend, the recently changed entries come from all the maps.
+// every word of the text has to be found in the title, the description or the tags
+export const isEntryInFeedView = (entry: Entry, request: SearchEntriesRequest): boolean => {
+  const [south, west, north, east] = parseBBox(request.bbox)
+  if (entry.lat < south || entry.lat > north || entry.lng < west || entry.lng > east) {
+    return false
+  }
+
+  const categories = splitList(request.categories)
+  if (categories.length !== 0 && !(entry.categories || []).some(category => categories.includes(category))) {
+    return false
+  }
+
+  const entryTags = (entry.tags || []).map(tag => tag.toLowerCase())
+  const tags = [...splitList(request.tags), ...splitList(request.org_tag)]
+  if (!tags.every(tag => entryTags.includes(tag))) {
+    return false
+  }
+
+  const text = [entry.title, entry.description, ...entryTags].join(' ').toLowerCase()
+  const words = (request.text || '')
+    .toLowerCase()
+    .split(/\s+/)
+    .map(word => word.replace(/^#/, ''))
+    .filter(word => word.length !== 0)
+
+  return words.every(word => text.includes(word))
+}
+
+// the changed entries that were created in the given time are new
+export const getNewEntriesOfView = (entries: Entry[], request: SearchEntriesRequest, since: number): Entry[] => (
+  entries.filter(entry => (entry.created || 0) >= since && isEntryInFeedView(entry, request))
+)
+
+export const sortEntriesByCreation = (entries: Entry[]): Entry[] => (
+  [...entries].sort((a, b) => (b.created || 0) - (a.created || 0))
+)
+
+export const sortEventsByStart = (events: Event[]): Event[] => (
+  [...events].sort((a, b) => a.start - b.start)
+)
+
+export const convertEntryToFeedItem = (entry: Entry, link: string): FeedItem => ({
+  title: entry.title,
+  link,
+  summary: entry.description || '',
+  updated: entry.created || 0,
+  categories: entry.tags || [],
+})
+
+// the readers show the date of publishing, so the start of the event goes into the summary
+export const convertEventToFeedItem = (event: Event, link: string): FeedItem => ({
+  title: event.title,
+  link,
+  summary: [
+    moment.unix(event.start).utc().format('YYYY-MM-DD HH:mm [UTC]'),
+    event.description,
+  ].filter(text => !isEmpty(text)).join('\n\n'),
+  updated: event.created_at || 0,
+  categories: event.tags || [],
+})
+
+
+const getFeedUpdated = (feed: Feed, now: number): number => (
+  feed.items.length !== 0 ? Math.max(...feed.items.map(item => item.updated)) : now
+)
+
+const formatAtomDate = (timestamp: number): string => (
+  moment.unix(timestamp).utc().format()
+)
+
+// rfc 822, the names of the days and months should not be translated
+const formatRssDate = (timestamp: number): string => (
+  moment.unix(timestamp).utc().locale('en').format('ddd, DD MMM YYYY HH:mm:ss [+0000]')
+)
+
+const convertFeedItemToAtom = (item: FeedItem): string => (
+  [
+    '<entry>',
+    `<id>${escapeXml(item.link)}</id>`,
+    `<title>${escapeXml(item.title)}</title>`,
+    `<link href="${escapeXml(item.link)}"/>`,
+    `<updated>${formatAtomDate(item.updated)}</updated>`,
+    `<summary>${escapeXml(item.summary)}</summary>`,
+    ...item.categories.map(category => `<category term="${escapeXml(category)}"/>`),
+    '</entry>',
+  ].join('')
+)
+
+const convertFeedItemToRss = (item: FeedItem): string => (
+  [
+    '<item>',
+    `<guid isPermaLink="true">${escapeXml(item.link)}</guid>`,
+    `<title>${escapeXml(item.title)}</title>`,
+    `<link>${escapeXml(item.link)}</link>`,
+    `<pubDate>${formatRssDate(item.updated)}</pubDate>`,
+    `<description>${escapeXml(item.summary)}</description>`,
+    ...item.categories.map(category => `<category>${escapeXml(category)}</category>`),
+    '</item>',
+  ].join('')
+)
+
+export const createAtomFeed = (feed: Feed, now: number = moment().unix()): string => (
+  [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<feed xmlns="http://www.w3.org/2005/Atom">',
+    `<id>${escapeXml(feed.selfLink)}</id>`,
+    `<title>${escapeXml(feed.title)}</title>`,
+    `<link rel="self" href="${escapeXml(feed.selfLink)}"/>`,
+    `<link rel="alternate" type="text/html" href="${escapeXml(feed.link)}"/>`,
+    `<updated>${formatAtomDate(getFeedUpdated(feed, now))}</updated>`,
+    ...feed.items.map(convertFeedItemToAtom),
+    '</feed>',
+  ].join('\n')
+)
+
+export const createRssFeed = (feed: Feed, now: number = moment().unix()): string => (
+  [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom">',
+    '<channel>',
+    `<title>${escapeXml(feed.title)}</title>`,
+    `<link>${escapeXml(feed.link)}</link>`,
+    `<description>${escapeXml(feed.title)}</description>`,
+    `<atom:link rel="self" type="application/rss+xml" href="${escapeXml(feed.selfLink)}"/>`,
+    `<lastBuildDate>${formatRssDate(getFeedUpdated(feed, now))}</lastBuildDate>`,
+    ...feed.items.map(convertFeedItemToRss),
+    '</channel>',
+    '</rss>',
+  ].join('\n')
+)
+
+export const createFeed = (feed: Feed, format: FeedFormat): string => (
+  format === FeedFormat.RSS ? createRssFeed(feed) : createAtomFeed(feed)
+)
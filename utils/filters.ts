@@ -0,0 +1,81 @@
+import { ParsedUrlQuery } from 'querystring'
+import union from 'lodash/union'
+import intersection from 'lodash/intersection'
+import isEmpty from 'lodash/isEmpty'
+import Category, { CategoryToNameMapper } from '../dtos/Categories'
+import { ProjectFiltersConfig } from '../dtos/ProjectFilters'
+import { convertQueryParamToArray, convertQueryParamToString } from './utils'
+
+
+// the filters that the users can not remove, they come from the project config and the iframe urls
+// e.g. /maps/main?fixedTags=repair,diy&orgTag=city&allowedCategories=initiative,event
+export interface EnforcedFilters {
+  fixedTags: string[]
+  orgTag: string | null
+  // all the categories are allowed if empty
+  categories: Category[]
+}
+
+const SEP = ','
+
+const searchableCategories = [Category.INITIATIVE, Category.COMPANY, Category.EVENT]
+
+
+// the legacy iframes send the lists comma separated
+const convertQueryParamToList = (param: string | string[] | undefined): string[] => (
+  convertQueryParamToArray(param)
+    .flatMap(value => value.split(SEP))
+    .map(value => value.trim())
+    .filter(value => value.length !== 0)
+)
+
+const convertCategoryNamesToCategories = (names: string[]): Category[] => (
+  searchableCategories.filter(category => names.includes(CategoryToNameMapper[category]))
+)
+
+// the url can only narrow the categories of the project, never widen them
+const mergeCategories = (projectCategories: Category[], urlCategories: Category[]): Category[] => {
+  if (isEmpty(projectCategories)) {
+    return urlCategories
+  }
+
+  const mergedCategories = intersection(projectCategories, urlCategories)
+
+  return isEmpty(mergedCategories) ? projectCategories : mergedCategories
+}
+
+export const getEnforcedFilters = (
+  query: ParsedUrlQuery,
+  projectFilters: ProjectFiltersConfig = {},
+): EnforcedFilters => {
+  // the old forms of the entries used org-tag
+  const urlOrgTag = convertQueryParamToString(query.orgTag) || convertQueryParamToString(query['org-tag'])
+
+  return {
+    fixedTags: union(projectFilters.fixedTags || [], convertQueryParamToList(query.fixedTags)),
+    orgTag: projectFilters.orgTag || urlOrgTag || null,
+    categories: mergeCategories(
+      convertCategoryNamesToCategories(projectFilters.categories || []),
+      convertCategoryNamesToCategories(convertQueryParamToList(query.allowedCategories)),
+    ),
+  }
+}
+
+
+export const getAllowedCategories = (filters: EnforcedFilters): Category[] => (
+  isEmpty(filters.categories) ? searchableCategories : filters.categories
+)
+
+export const filterAllowedCategories = (categories: Category[], filters: EnforcedFilters): Category[] => (
+  intersection(categories, getAllowedCategories(filters))
+)
+
+// the tags that every result of the search should have
+export const getSearchTags = (tags: string[], filters: EnforcedFilters): string[] => (
+  union(filters.fixedTags, tags)
+)
+
+// the new entities should show up in the searches of the project they are created in
+export const addEnforcedTags = (tags: string[] | undefined, filters: EnforcedFilters): string[] => (
+  union(tags || [], filters.fixedTags, filters.orgTag ? [filters.orgTag] : [])
+)
@@ -0,0 +1,391 @@
+import moment from 'moment'
+import isEmpty from 'lodash/isEmpty'
+import Event from '../dtos/Event'
+import { ICAL } from '../consts/ical'
+
+
+const CRLF = '\r\n'
+
+
+// the search returns the events without some of the details, so everything else than the compact event is optional
+export type ICalEvent = Pick<Event, 'id' | 'title' | 'start' | 'end'> & Partial<Event>
+
+export interface ICalendarOptions {
+  name?: string
+  // only for the tests, the stamp should be the time of creating the calendar
+  now?: number
+}
+
+
+// a line break in a free text would start a property of its own, the other control characters are not allowed either
+export const removeICalControlChars = (value: string): string => (
+  value.replace(/[\x00-\x1f\x7f]/g, '')
+)
+
+export const escapeICalText = (text: string): string => (
+  removeICalControlChars(
+    text
+      .replace(/\\/g, '\\\\')
+      .replace(/;/g, '\\;')
+      .replace(/,/g, '\\,')
+      .replace(/\r?\n/g, '\\n'),
+  )
+)
+
+// the quoted params can not contain quotes, the uris can not be escaped at all
+const escapeICalParam = (param: string): string => removeICalControlChars(param).replace(/"/g, '\'')
+
+// the date-time in utc form, e.g. 20210521T133000Z
+export const formatICalDate = (unixTimestamp: number): string => (
+  moment.unix(unixTimestamp).utc().format('YYYYMMDD[T]HHmmss[Z]')
+)
+
+// long lines are split into several ones, each continuing line starts with a space.
+// the limit is in octets, so we should be careful not to split the multi-byte characters
+export const foldICalLine = (line: string): string => {
+  const foldedLines: string[] = []
+
+  let currentLine = ''
+  let currentLineLength = 0
+  Array.from(line).forEach((char: string) => {
+    const charLength = Buffer.byteLength(char, 'utf8')
+    // the continuing lines lose one octet for the leading space
+    const maxLineLength = foldedLines.length === 0 ? ICAL.maxLineLength : ICAL.maxLineLength - 1
+
+    if (currentLineLength + charLength > maxLineLength) {
+      foldedLines.push(currentLine)
+      currentLine = ''
+      currentLineLength = 0
+    }
+
+    currentLine += char
+    currentLineLength += charLength
+  })
+  foldedLines.push(currentLine)
+
+  return foldedLines.join(`${CRLF} `)
+}
+
+const getEventLocation = (event: ICalEvent): string => {
+  const cityWithZip = [event.zip, event.city].filter(part => !isEmpty(part)).join(' ')
+
+  return [event.street, cityWithZip, event.country]
+    .filter(part => !isEmpty(part))
+    .join(', ')
+}
+
+const getEventOrganizer = (event: ICalEvent): string | null => {
+  // the organizer is a calendar address, without an email the name has no place to go
+  if (isEmpty(event.email)) {
+    return null
+  }
+
+  const commonName = isEmpty(event.organizer) ? '' : `;CN="${escapeICalParam(event.organizer)}"`
+
+  return `ORGANIZER${commonName}:mailto:${removeICalControlChars(event.email)}`
+}
+
+export const convertEventToVEvent = (event: ICalEvent, now: number): string[] => {
+  const lines: string[] = [
+    'BEGIN:VEVENT',
+    `UID:${event.id}@${ICAL.uidDomain}`,
+    `DTSTAMP:${formatICalDate(now)}`,
+    `DTSTART:${formatICalDate(event.start)}`,
+    `DTEND:${formatICalDate(event.end)}`,
+    `SUMMARY:${escapeICalText(event.title)}`,
+  ]
+
+  if (event.created_at) {
+    lines.push(`CREATED:${formatICalDate(event.created_at)}`)
+  }
+
+  if (!isEmpty(event.description)) {
+    lines.push(`DESCRIPTION:${escapeICalText(event.description)}`)
+  }
+
+  const location = getEventLocation(event)
+  if (!isEmpty(location)) {
+    lines.push(`LOCATION:${escapeICalText(location)}`)
+  }
+
+  if (event.lat !== undefined && event.lng !== undefined) {
+    lines.push(`GEO:${event.lat};${event.lng}`)
+  }
+
+  const organizer = getEventOrganizer(event)
+  if (organizer !== null) {
+    lines.push(organizer)
+  }
+
+  if (!isEmpty(event.homepage)) {
+    lines.push(`URL:${removeICalControlChars(event.homepage)}`)
+  }
+
+  if (!isEmpty(event.tags)) {
+    lines.push(`CATEGORIES:${event.tags.map(escapeICalText).join(',')}`)
+  }
+
+  lines.push('END:VEVENT')
+
+  return lines
+}
+
+export const createICalendar = (events: ICalEvent[], options: ICalendarOptions = {}): string => {
+  const {
+    name = ICAL.defaultCalendarName,
+    now = moment().unix(),
+  } = options
+
+  const lines: string[] = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${ICAL.productId}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeICalText(name)}`,
+  ]
+
+  events.forEach((event: ICalEvent) => {
+    lines.push(...convertEventToVEvent(event, now))
+  })
+
+  lines.push('END:VCALENDAR')
+
+  // the last line should be terminated as well
+  return lines.map(foldICalLine).join(CRLF) + CRLF
+}
+
+// the calendar apps subscribe to the webcal addresses instead of downloading them once
+export const convertUrlToWebcal = (url: string): string => (
+  url.replace(/^https?:\/\//, 'webcal://')
+)
+
+
+///////////////////////////////
+// parsing the calendars, e.g. exported from the calendar apps of the organizers
+
+interface ICalProperty {
+  name: string
+  params: Record<string, string>
+  value: string
+}
+
+export const unescapeICalText = (text: string): string => (
+  text.replace(/\\([\\;,nN])/g, (_match, escapedChar: string) => (
+    escapedChar.toLowerCase() === 'n' ? '\n' : escapedChar
+  ))
+)
+
+// the items are separated by commas, but not by the escaped ones
+const splitICalList = (value: string): string[] => {
+  const items: string[] = ['']
+  for (let i = 0; i < value.length; i++) {
+    if (value[i] === '\\') {
+      items[items.length - 1] += value.slice(i, i + 2)
+      i += 1
+    } else if (value[i] === ',') {
+      items.push('')
+    } else {
+      items[items.length - 1] += value[i]
+    }
+  }
+
+  return items
+}
+
+// the continuing lines start with a space or a tab
+const unfoldICalLines = (text: string): string[] => (
+  text
+    .replace(/\r\n/g, '\n')
+    .replace(/\n[ \t]/g, '')
+    .split('\n')
+    .filter(line => line.length !== 0)
+)
+
+// the params can be quoted and contain colons, e.g. ORGANIZER;CN="Jo: the organizer":mailto:jo@example.org
+const parseICalProperty = (line: string): ICalProperty | null => {
+  let isInQuotes = false
+  let valueStart = -1
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') {
+      isInQuotes = !isInQuotes
+    } else if (line[i] === ':' && !isInQuotes) {
+      valueStart = i
+      break
+    }
+  }
+
+  if (valueStart === -1) {
+    return null
+  }
+
+  const [name, ...rawParams] = line.slice(0, valueStart).split(';')
+  const params = rawParams.reduce((parsedParams: Record<string, string>, rawParam: string) => {
+    const [paramName, ...paramValue] = rawParam.split('=')
+    parsedParams[paramName.toUpperCase()] = paramValue.join('=').replace(/^"|"$/g, '')
+
+    return parsedParams
+  }, {})
+
+  return {
+    name: name.toUpperCase(),
+    params,
+    value: line.slice(valueStart + 1),
+  }
+}
+
+// there is no timezone database in the client, so the times with a TZID are read as local times
+export const parseICalDate = (value: string): number | null => {
+  if (/^\d{8}$/.test(value)) {
+    return moment(value, 'YYYYMMDD').unix()
+  }
+
+  if (/^\d{8}T\d{6}Z$/.test(value)) {
+    return moment.utc(value, 'YYYYMMDD[T]HHmmss[Z]').unix()
+  }
+
+  if (/^\d{8}T\d{6}$/.test(value)) {
+    return moment(value, 'YYYYMMDD[T]HHmmss').unix()
+  }
+
+  return null
+}
+
+// e.g. 'Hauptstraße 1, 80331 München, Germany', the part with the zip code separates the street and the country
+export const parseICalLocation = (location: string): Pick<Event, 'street' | 'zip' | 'city' | 'country'> => {
+  const parts = location.split(',').map(part => part.trim()).filter(part => part.length !== 0)
+  const address = { street: '', zip: '', city: '', country: '' }
+
+  const zipPartIndex = parts.findIndex(part => /^\d{4,5}\s+\S/.test(part))
+  if (zipPartIndex !== -1) {
+    const [, zip, city] = parts[zipPartIndex].match(/^(\d{4,5})\s+(.+)$/)
+    address.street = parts.slice(0, zipPartIndex).join(', ')
+    address.zip = zip
+    address.city = city
+    address.country = parts.slice(zipPartIndex + 1).join(', ')
+
+    return address
+  }
+
+  const [street = '', city = '', ...country] = parts
+  address.street = street
+  address.city = city
+  address.country = country.join(', ')
+
+  return address
+}
+
+const setICalEventProperty = (event: Partial<ICalEvent>, property: ICalProperty, duration: string[]) => {
+  const { name, params, value } = property
+
+  switch (name) {
+    case 'UID':
+      event.id = value
+      break
+    case 'SUMMARY':
+      event.title = unescapeICalText(value)
+      break
+    case 'DESCRIPTION':
+      event.description = unescapeICalText(value)
+      break
+    case 'DTSTART':
+      event.start = parseICalDate(value)
+      break
+    case 'DTEND':
+      event.end = parseICalDate(value)
+      break
+    case 'DURATION':
+      duration.push(value)
+      break
+    case 'LOCATION':
+      Object.assign(event, parseICalLocation(unescapeICalText(value)))
+      break
+    case 'GEO': {
+      const [lat, lng] = value.split(';').map(parseFloat)
+      if (!isNaN(lat) && !isNaN(lng)) {
+        event.lat = lat
+        event.lng = lng
+      }
+      break
+    }
+    case 'URL':
+      event.homepage = value
+      break
+    case 'ORGANIZER':
+      event.organizer = params.CN
+      event.email = value.replace(/^mailto:/i, '')
+      break
+    case 'CATEGORIES':
+      event.tags = [
+        ...(event.tags || []),
+        ...splitICalList(value).map(tag => unescapeICalText(tag).trim().toLowerCase()),
+      ]
+      break
+  }
+}
+
+// the events without a start can not be placed on the map, they are skipped
+export const parseICalendar = (text: string): ICalEvent[] => {
+  const events: ICalEvent[] = []
+
+  let event: Partial<ICalEvent> | null = null
+  let duration: string[] = []
+  // the alarms and other components inside of the events have their own properties
+  let nestedComponentsDepth = 0
+
+  unfoldICalLines(text).forEach((line: string) => {
+    const property = parseICalProperty(line)
+    if (property === null) {
+      return
+    }
+
+    const { name, value } = property
+    const component = value.toUpperCase()
+
+    if (name === 'BEGIN' && component === 'VEVENT') {
+      event = {}
+      duration = []
+      nestedComponentsDepth = 0
+
+      return
+    }
+
+    if (event === null) {
+      return
+    }
+
+    if (name === 'BEGIN') {
+      nestedComponentsDepth += 1
+
+      return
+    }
+
+    if (name === 'END' && component !== 'VEVENT') {
+      nestedComponentsDepth -= 1
+
+      return
+    }
+
+    if (name === 'END') {
+      if (event.start !== undefined && event.start !== null) {
+        if (event.end === undefined || event.end === null) {
+          event.end = duration.length !== 0 ?
+            moment.unix(event.start).add(moment.duration(duration[0])).unix() :
+            event.start
+        }
+
+        events.push({ title: '', ...event } as ICalEvent)
+      }
+
+      event = null
+
+      return
+    }
+
+    if (nestedComponentsDepth === 0) {
+      setICalEventProperty(event, property, duration)
+    }
+  })
+
+  return events
+}
@@ -16,6 +16,7 @@ import {
   faMapMarkerAlt,
   faPhone,
   faRoute,
+  faRss,
   faUser,
   faUserFriends,
   faUsers,
@@ -58,6 +59,7 @@ library.add(
   faUserShield,
   faBars,
   faCompass,
+  faRss,
 )
 
 // free-brands-svg-icons
@@ -0,0 +1,89 @@
+import { ParsedUrlQuery } from 'querystring'
+import isEmpty from 'lodash/isEmpty'
+import toString from 'lodash/toString'
+import { MapCenter, MapState, MapStateFromUrl, roundCenter, roundZoom, SelectedEntity } from '../slices/mapSlice'
+import { convertQueryParamToFloat } from './utils'
+import { getRootSlugActionFromQuery } from './slug'
+import mapConsts from '../consts/map'
+
+
+export const MAP_QUERY_PARAMS = ['lat', 'lng', 'zoom', 'pinLat', 'pinLng']
+
+
+const getPinnedLocationFromQuery = (query: ParsedUrlQuery): MapCenter | null => {
+  const { pinLat, pinLng } = query
+  if (isEmpty(pinLat) || isEmpty(pinLng)) {
+    return null
+  }
+
+  return {
+    lat: convertQueryParamToFloat(pinLat),
+    lng: convertQueryParamToFloat(pinLng),
+  }
+}
+
+const getSelectedEntityFromQuery = (query: ParsedUrlQuery): SelectedEntity | null => {
+  const { subSlugAction } = getRootSlugActionFromQuery(query)
+  if (subSlugAction === null) {
+    return null
+  }
+
+  return {
+    entity: subSlugAction.entity,
+    id: subSlugAction.id,
+    verb: subSlugAction.verb,
+  }
+}
+
+export const convertQueryToMapState = (query: ParsedUrlQuery): MapStateFromUrl => ({
+  center: roundCenter({
+    lat: convertQueryParamToFloat(query.lat),
+    lng: convertQueryParamToFloat(query.lng),
+  }),
+  zoom: roundZoom(convertQueryParamToFloat(query.zoom)),
+  pinnedLocation: getPinnedLocationFromQuery(query),
+  selectedEntity: getSelectedEntityFromQuery(query),
+})
+
+// the pin is removed from the url if it's not set
+export const convertMapStateToQueryParams = (mapState: MapState): ParsedUrlQuery => {
+  const { center, zoom, pinnedLocation } = mapState
+  const { urlPrecisions } = mapConsts
+
+  const queryParams: ParsedUrlQuery = {
+    lat: center.lat.toFixed(urlPrecisions.lat),
+    lng: center.lng.toFixed(urlPrecisions.lng),
+    zoom: zoom.toFixed(urlPrecisions.zoom),
+  }
+
+  if (pinnedLocation !== null) {
+    queryParams.pinLat = toString(pinnedLocation.lat)
+    queryParams.pinLng = toString(pinnedLocation.lng)
+  }
+
+  return queryParams
+}
+
+const areCentersEqual = (first: MapCenter | null, second: MapCenter | null): boolean => {
+  if (first === null || second === null) {
+    return first === second
+  }
+
+  return first.lat === second.lat && first.lng === second.lng
+}
+
+const areSelectedEntitiesEqual = (first: SelectedEntity | null, second: SelectedEntity | null): boolean => {
+  if (first === null || second === null) {
+    return first === second
+  }
+
+  return first.entity === second.entity && first.id === second.id && first.verb === second.verb
+}
+
+export const isMapStateInSyncWithUrl = (mapState: MapState, mapStateFromUrl: MapStateFromUrl): boolean => (
+  mapState.isInitialized &&
+  areCentersEqual(mapState.center, mapStateFromUrl.center) &&
+  mapState.zoom === mapStateFromUrl.zoom &&
+  areCentersEqual(mapState.pinnedLocation, mapStateFromUrl.pinnedLocation) &&
+  areSelectedEntitiesEqual(mapState.selectedEntity, mapStateFromUrl.selectedEntity)
+)
@@ -0,0 +1,106 @@
+import { GetServerSideProps } from 'next'
+import { convertQueryParamToArray } from './utils'
+import { getRootSlugActionFromQuery } from './slug'
+import { RootSlugEntity } from './types'
+import {
+  EntityHeadProps,
+  getEntryJsonLd,
+  getEntryMeta,
+  getEventJsonLd,
+  getEventMeta,
+  getPublicOrigin,
+} from './seo'
+import { loadProjectConfigs } from './projects'
+import { getProjectTheme } from './theme'
+import { getMapBasePath } from './router'
+import { fetchEntry, fetchEvent } from './entities'
+import { getOEmbedDiscoveryUrl } from './oembed'
+import { DEFAULT_PROJECT } from '../consts/projects'
+
+
+// only for the server side, the props of the map pages
+
+// the canonical address of the page, without the viewport and the filters
+const getPageUrl = (path: string[]): string => (
+  `${getPublicOrigin()}/maps/${path.join('/')}`
+)
+
+const getEntityHeadProps = async (path: string[]): Promise<EntityHeadProps | null> => {
+  const { subSlugAction: entitySlugAction } = getRootSlugActionFromQuery({ slug: path })
+  if (entitySlugAction === null || entitySlugAction.id === null) {
+    return null
+  }
+
+  const { entity, id } = entitySlugAction
+
+  // the page should still be rendered if the head of the entity can not be built,
+  // the sidebar will show the error on the client side
+  try {
+    const url = getPageUrl(path)
+    const oEmbedUrl = getOEmbedDiscoveryUrl(getPublicOrigin(), url)
+
+    if (entity === RootSlugEntity.ENTRY) {
+      const entry = await fetchEntry(id)
+      if (entry === null) {
+        return null
+      }
+
+      return {
+        meta: getEntryMeta(entry, url),
+        jsonLd: getEntryJsonLd(entry, url),
+        oEmbedUrl,
+      }
+    }
+
+    if (entity === RootSlugEntity.EVENT) {
+      const event = await fetchEvent(id)
+
+      return {
+        meta: getEventMeta(event, url),
+        jsonLd: getEventJsonLd(event, url),
+        oEmbedUrl,
+      }
+    }
+  } catch (e) {
+    return null
+  }
+
+  return null
+}
+
+
+// the map page and its embedded version share the same props
+export const getMapPageServerSideProps: GetServerSideProps = async (ctx) => {
+  const { slug } = ctx.params
+  const path = convertQueryParamToArray(slug)
+
+  // we expect to have path always not empty with the first element of project name
+  const project = path[0]
+
+  // the unknown projects show the same place on the default map
+  const basePath = getMapBasePath(ctx.resolvedUrl)
+  const pageConfigs = loadProjectConfigs(project)
+  if (pageConfigs === null) {
+    return {
+      redirect: {
+        destination: ctx.resolvedUrl.replace(`${basePath}/${project}`, `${basePath}/${DEFAULT_PROJECT}`),
+        permanent: false,
+      },
+    }
+  }
+
+  const mapLocationProps = pageConfigs.map.location
+  // applied by the layout of the app, the map and its markers take it from there
+  const theme = getProjectTheme(pageConfigs)
+
+  const entityHead = await getEntityHeadProps(path)
+
+  //todo: move the re-validate value to constants
+  return {
+    props: {
+      mapLocationProps,
+      entityHead,
+      theme,
+    },
+  }
+}
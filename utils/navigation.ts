@@ -0,0 +1,241 @@
+import { ParsedUrlQuery } from 'querystring'
+import { NextRouter } from 'next/router'
+import produce from 'immer'
+import isEmpty from 'lodash/isEmpty'
+import toString from 'lodash/toString'
+import {
+  convertSlugActionToSlugSteps,
+  convertSlugStepsToSlugArray,
+  createSlugPathFromQueryAndRemoveSlug,
+  getRootSlugActionFromQuery,
+  SlugStep,
+} from './slug'
+import { convertQueryParamToArray } from './utils'
+import { getMapBasePath } from './router'
+import {
+  EntrySlugEntity,
+  mapPluralEntityNameToSingular,
+  mapTypeIdToPluralEntityName,
+  RatingSlugEntity,
+  RootSlugEntity,
+  SlugVerb,
+} from './types'
+import Category from '../dtos/Categories'
+import { SearchEntryID } from '../dtos/SearchEntry'
+import { EventID } from '../dtos/Event'
+import { RatingID } from '../dtos/Rating'
+import { DEFAULT_PROJECT } from '../consts/projects'
+
+
+// the navigation works on the slug steps and never on the positions in the slug array,
+// every function here takes the current query and returns the next one
+// so they can be tested without a router
+
+// only meaningful while an entity is being created or edited
+const PIN_PARAMS = ['pinLat', 'pinLng']
+
+
+export interface SearchFilters {
+  type?: Category[] | null
+  tag?: string[] | null
+  search?: string | null
+  start_min?: number | null
+  start_max?: number | null
+  // 'now' or the unix timestamp of the moment the entries should be open at
+  open?: string | number | null
+}
+
+
+const getProjectFromQuery = (query: ParsedUrlQuery): string => {
+  const [project] = convertQueryParamToArray(query.slug)
+
+  return isEmpty(project) ? DEFAULT_PROJECT : project
+}
+
+export const getSlugStepsFromQuery = (query: ParsedUrlQuery): SlugStep[] => (
+  convertSlugActionToSlugSteps(getRootSlugActionFromQuery(query))
+)
+
+// the root entities have their own view in the sidebar, the nested ones only their forms
+const hasView = (slugStep: SlugStep, depth: number): boolean => (
+  depth === 0 || slugStep.verb !== SlugVerb.SHOW
+)
+
+const isInForm = (slugSteps: SlugStep[]): boolean => (
+  slugSteps.length !== 0 && slugSteps[slugSteps.length - 1].verb !== SlugVerb.SHOW
+)
+
+export const isCreatingOrEditing = (query: ParsedUrlQuery): boolean => (
+  isInForm(getSlugStepsFromQuery(query))
+)
+
+const setSlugSteps = (query: ParsedUrlQuery, slugSteps: SlugStep[]): ParsedUrlQuery => {
+  const project = getProjectFromQuery(query)
+
+  return produce(query, draftState => {
+    draftState.slug = convertSlugStepsToSlugArray(project, slugSteps)
+
+    // a pin dropped for a form has no meaning outside of it
+    const rootSlugStep = slugSteps[0]
+    if (!rootSlugStep || rootSlugStep.verb === SlugVerb.SHOW) {
+      PIN_PARAMS.forEach(param => {
+        delete draftState[param]
+      })
+    }
+  })
+}
+
+
+export const getQueryToOpenEntity = (
+  query: ParsedUrlQuery,
+  category: Category,
+  id: SearchEntryID | EventID,
+): ParsedUrlQuery => {
+  const entity = mapPluralEntityNameToSingular[mapTypeIdToPluralEntityName[category]]
+  const newQuery = setSlugSteps(query, [{ entity, id, verb: SlugVerb.SHOW }])
+
+  return produce(newQuery, draftState => {
+    draftState.isSidebarOpen = toString(true)
+  })
+}
+
+export const getQueryToCreateEntity = (query: ParsedUrlQuery, entity: RootSlugEntity): ParsedUrlQuery => (
+  setSlugSteps(query, [{ entity, id: null, verb: SlugVerb.CREATE }])
+)
+
+// switches the innermost shown entity to its edit form
+export const getQueryToEditCurrentEntity = (query: ParsedUrlQuery): ParsedUrlQuery => {
+  const slugSteps = getSlugStepsFromQuery(query)
+  if (slugSteps.length === 0) {
+    return query
+  }
+
+  const { entity, id } = slugSteps[slugSteps.length - 1]
+  if (id === null) {
+    return query
+  }
+
+  return setSlugSteps(query, [...slugSteps.slice(0, -1), { entity, id, verb: SlugVerb.EDIT }])
+}
+
+export const getQueryToOpenRatingForm = (query: ParsedUrlQuery, entryId: SearchEntryID): ParsedUrlQuery => (
+  setSlugSteps(query, [
+    { entity: RootSlugEntity.ENTRY, id: entryId, verb: SlugVerb.SHOW },
+    { entity: EntrySlugEntity.RATING, id: null, verb: SlugVerb.CREATE },
+  ])
+)
+
+export const getQueryToOpenRatingCommentForm = (
+  query: ParsedUrlQuery,
+  entryId: SearchEntryID,
+  ratingId: RatingID,
+): ParsedUrlQuery => (
+  setSlugSteps(query, [
+    { entity: RootSlugEntity.ENTRY, id: entryId, verb: SlugVerb.SHOW },
+    { entity: EntrySlugEntity.RATING, id: ratingId, verb: SlugVerb.SHOW },
+    { entity: RatingSlugEntity.COMMENT, id: null, verb: SlugVerb.CREATE },
+  ])
+)
+
+// goes to the closest view above the current one:
+// an edit form goes back to the detail of the same entity, anything else to its closest parent with a view
+// e.g. entries/entryId/ratings/ratingId/comments/create -> entries/entryId -> results
+export const getQueryToGoBack = (query: ParsedUrlQuery): ParsedUrlQuery => {
+  const slugSteps = getSlugStepsFromQuery(query)
+  if (slugSteps.length === 0) {
+    return query
+  }
+
+  const currentSlugStep = slugSteps[slugSteps.length - 1]
+  let parentSlugSteps = slugSteps.slice(0, -1)
+
+  if (currentSlugStep.verb === SlugVerb.EDIT && parentSlugSteps.length === 0) {
+    return setSlugSteps(query, [{ ...currentSlugStep, verb: SlugVerb.SHOW }])
+  }
+
+  while (
+    parentSlugSteps.length !== 0 &&
+    !hasView(parentSlugSteps[parentSlugSteps.length - 1], parentSlugSteps.length - 1)
+  ) {
+    parentSlugSteps = parentSlugSteps.slice(0, -1)
+  }
+
+  return setSlugSteps(query, parentSlugSteps)
+}
+
+// undefined filters are kept as they are, null or empty ones are removed from the url
+export const getQueryWithFilters = (query: ParsedUrlQuery, filters: SearchFilters): ParsedUrlQuery => (
+  produce(query, draftState => {
+    Object.keys(filters).forEach((filter: keyof SearchFilters) => {
+      const value = filters[filter]
+      if (value === undefined) {
+        return
+      }
+
+      if (value === null || value === '' || (Array.isArray(value) && value.length === 0)) {
+        delete draftState[filter]
+
+        return
+      }
+
+      draftState[filter] = Array.isArray(value) ? value.map(v => toString(v)) : toString(value)
+    })
+  })
+)
+
+export const getQueryWithSidebarState = (query: ParsedUrlQuery, isOpen: boolean): ParsedUrlQuery => (
+  produce(query, draftState => {
+    draftState.isSidebarOpen = toString(isOpen)
+  })
+)
+
+
+const replaceQuery = (router: NextRouter, query: ParsedUrlQuery) => {
+  const [newPath, newQueryWithoutSlug] = createSlugPathFromQueryAndRemoveSlug(query)
+
+  router.replace(
+    {
+      pathname: `${getMapBasePath(router.pathname)}/${newPath}`,
+      query: newQueryWithoutSlug,
+    },
+    undefined,
+    { shallow: true },
+  )
+}
+
+export interface Navigation {
+  openEntity: (category: Category, id: SearchEntryID | EventID, paramsToUpdate?: ParsedUrlQuery) => void
+  openEntry: (id: SearchEntryID) => void
+  openEvent: (id: EventID) => void
+  createEntity: (entity: RootSlugEntity) => void
+  editCurrentEntity: () => void
+  openRatingForm: (entryId: SearchEntryID) => void
+  openRatingCommentForm: (entryId: SearchEntryID, ratingId: RatingID) => void
+  back: () => void
+  setFilters: (filters: SearchFilters) => void
+  setSidebarOpen: (isOpen: boolean) => void
+}
+
+export const createNavigation = (router: NextRouter): Navigation => {
+  const navigate = (getNextQuery: (query: ParsedUrlQuery) => ParsedUrlQuery) => {
+    replaceQuery(router, getNextQuery(router.query))
+  }
+
+  return {
+    openEntity: (category, id, paramsToUpdate = {}) => navigate(query => ({
+      ...getQueryToOpenEntity(query, category, id),
+      ...paramsToUpdate,
+    })),
+    openEntry: (id) => navigate(query => getQueryToOpenEntity(query, Category.INITIATIVE, id)),
+    openEvent: (id) => navigate(query => getQueryToOpenEntity(query, Category.EVENT, id)),
+    createEntity: (entity) => navigate(query => getQueryToCreateEntity(query, entity)),
+    editCurrentEntity: () => navigate(getQueryToEditCurrentEntity),
+    openRatingForm: (entryId) => navigate(query => getQueryToOpenRatingForm(query, entryId)),
+    openRatingCommentForm: (entryId, ratingId) => navigate(
+      query => getQueryToOpenRatingCommentForm(query, entryId, ratingId),
+    ),
+    back: () => navigate(getQueryToGoBack),
+    setFilters: (filters) => navigate(query => getQueryWithFilters(query, filters)),
+    setSidebarOpen: (isOpen) => navigate(query => getQueryWithSidebarState(query, isOpen)),
+  }
+}
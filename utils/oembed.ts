@@ -0,0 +1,165 @@
+import qs from 'qs'
+import isEmpty from 'lodash/isEmpty'
+import { convertSlugStepsToSlugArray, getRootSlugActionFromQuery } from './slug'
+import { RootSlugEntity, SlugVerb } from './types'
+import { createEmbedSnippet } from './embed'
+import { Entry } from '../dtos/Entry'
+import Event from '../dtos/Event'
+import Category, { Categories } from '../dtos/Categories'
+import { EntryAddress } from '../dtos/EntryAddress'
+import { OEMBED } from '../consts/oembed'
+
+
+// the shared links of the entities become cards in the blogs and the cms, see https://oembed.com
+
+export interface OEmbedEntity {
+  project: string
+  entity: RootSlugEntity.ENTRY | RootSlugEntity.EVENT
+  id: string
+}
+
+export interface OEmbedSize {
+  width: number
+  height: number
+}
+
+// the thumbnail is left out, the spec requires its size and the images of the entities are not measured
+export interface OEmbedResponse extends OEmbedSize {
+  version: '1.0'
+  type: 'rich'
+  provider_name: string
+  provider_url: string
+  title: string
+  html: string
+  cache_age: number
+}
+
+// what the compact card of an entity shows
+export interface EntityCard extends EntryAddress {
+  title: string
+  imageUrl: string | null
+  tags: string[]
+  lat: number
+  lng: number
+  categories: Categories
+  // the full page of the entity on the map
+  url: string
+}
+
+
+// the same slug is shared by the detail page and the card, e.g. main/entries/entryId
+export const getOEmbedEntityFromSlug = (slug: string[]): OEmbedEntity | null => {
+  if (slug.length === 0) {
+    return null
+  }
+
+  const { subSlugAction } = getRootSlugActionFromQuery({ slug })
+  if (subSlugAction === null || subSlugAction.id === null || subSlugAction.verb !== SlugVerb.SHOW) {
+    return null
+  }
+
+  const { entity, id } = subSlugAction
+  if (entity !== RootSlugEntity.ENTRY && entity !== RootSlugEntity.EVENT) {
+    return null
+  }
+
+  return {
+    project: slug[0],
+    entity,
+    id,
+  }
+}
+
+// the links of the detail pages on the map, e.g. https://kartevonmorgen.org/maps/main/entries/entryId?zoom=9.
+// only the links of our own map are in the url scheme of the provider
+export const parseOEmbedUrl = (url: string, origin: string): OEmbedEntity | null => {
+  let parsedUrl: URL
+  try {
+    parsedUrl = new URL(url)
+  } catch (e) {
+    return null
+  }
+
+  if (parsedUrl.origin !== origin) {
+    return null
+  }
+
+  const [base, ...slug] = parsedUrl.pathname.split('/').filter(segment => segment.length !== 0)
+  if (base !== 'maps') {
+    return null
+  }
+
+  return getOEmbedEntityFromSlug(slug)
+}
+
+export const getCardPath = (oEmbedEntity: OEmbedEntity): string => {
+  const { project, entity, id } = oEmbedEntity
+  const slugArray = convertSlugStepsToSlugArray(project, [{ entity, id, verb: SlugVerb.SHOW }])
+
+  return `/cards/${slugArray.join('/')}`
+}
+
+export const getOEmbedDiscoveryUrl = (origin: string, url: string): string => (
+  `${origin}/api/v0/oembed${qs.stringify({ url, format: 'json' }, { addQueryPrefix: true })}`
+)
+
+
+// the card is not offered in a smaller size than it can be shown in
+export const isOEmbedSizeSupported = (maxWidth: number | null, maxHeight: number | null): boolean => (
+  (maxWidth === null || maxWidth >= OEMBED.minWidth) && (maxHeight === null || maxHeight >= OEMBED.minHeight)
+)
+
+// the consumers may ask for a maximum size, the card never grows beyond its default
+export const getOEmbedSize = (maxWidth: number | null, maxHeight: number | null): OEmbedSize => ({
+  width: maxWidth !== null ? Math.min(OEMBED.defaultWidth, maxWidth) : OEMBED.defaultWidth,
+  height: maxHeight !== null ? Math.min(OEMBED.defaultHeight, maxHeight) : OEMBED.defaultHeight,
+})
+
+export const createOEmbedResponse = (
+  origin: string,
+  title: string,
+  cardUrl: string,
+  size: OEmbedSize,
+): OEmbedResponse => ({
+  version: '1.0',
+  type: 'rich',
+  provider_name: OEMBED.providerName,
+  provider_url: origin,
+  title,
+  html: createEmbedSnippet(cardUrl, { width: `${size.width}`, height: `${size.height}` }),
+  width: size.width,
+  height: size.height,
+  cache_age: OEMBED.cacheLifetimeInSeconds,
+})
+
+
+// the props of the pages can not hold undefined values
+const getCardAddress = (address: EntryAddress): EntryAddress => ({
+  street: address.street || '',
+  zip: address.zip || '',
+  city: address.city || '',
+  state: address.state || '',
+  country: address.country || '',
+})
+
+export const getEntryCard = (entry: Entry, url: string): EntityCard => ({
+  ...getCardAddress(entry),
+  title: entry.title,
+  imageUrl: isEmpty(entry.image_url) ? null : entry.image_url,
+  tags: entry.tags || [],
+  lat: entry.lat,
+  lng: entry.lng,
+  categories: isEmpty(entry.categories) ? [Category.UNKNOWN] : entry.categories,
+  url,
+})
+
+export const getEventCard = (event: Event, url: string): EntityCard => ({
+  ...getCardAddress(event),
+  title: event.title,
+  imageUrl: isEmpty(event.image_url) ? null : event.image_url,
+  tags: event.tags || [],
+  lat: event.lat,
+  lng: event.lng,
+  categories: [Category.EVENT],
+  url,
+})
@@ -0,0 +1,518 @@
+import moment, { Moment } from 'moment'
+import opening_hours, { nominatim_object } from 'opening_hours'
+import isEmpty from 'lodash/isEmpty'
+import { OPENING_HOURS } from '../consts/openingHours'
+
+
+// the opening hours of the entries use the openstreetmap format, e.g. 'Mo-Fr 09:00-12:00,14:00-18:00; PH off'.
+// the calendar shows any valid value, the weekly editor only the subset it writes itself
+
+export type Interval = [Moment, Moment, boolean, string]
+export type Intervals = Interval[]
+
+export interface DayRecord {
+  idx: number
+  name: string,
+  intervals: Intervals
+}
+
+export type Calendar = DayRecord[]
+
+
+// the holidays depend on the country and the state of the entry
+export const getOpeningHoursNominatim = (lat?: number, lng?: number, state?: string): nominatim_object => {
+  const { defaultNominatim } = OPENING_HOURS
+
+  return {
+    lat: lat || defaultNominatim.lat,
+    lon: lng || defaultNominatim.lon,
+    address: {
+      ...defaultNominatim.address,
+      state: state || defaultNominatim.address.state,
+    },
+  }
+}
+
+export const isParsable = (
+  openingHours: string,
+  nominatim: nominatim_object = OPENING_HOURS.defaultNominatim,
+): boolean => {
+  try {
+    new opening_hours(openingHours, nominatim)
+  } catch (e) {
+    return false
+  }
+
+  return true
+}
+
+export const getCalendar = (
+  openingHours: string,
+  nominatim: nominatim_object = OPENING_HOURS.defaultNominatim,
+): Calendar => {
+  const oh = new opening_hours(openingHours, nominatim)
+
+  const localeWeekDays = moment.weekdays(true)
+  const calendar: Calendar = moment
+    .weekdays(false)
+    .map(day => ({ idx: localeWeekDays.indexOf(day), name: day, intervals: [] }))
+
+  const startOfWeek = moment().startOf('week').toDate()
+  const endOfWeek = moment().endOf('week').toDate()
+
+  // the intervals returned are chunked by continues intervals ->
+  // -> an interval may began from the prev day to its day after when converting to local locale
+  // hence we should break it to fit in a local day
+  const intervals = oh.getOpenIntervals(startOfWeek, endOfWeek)
+  for (let i = 0; i !== intervals.length; i++) {
+    const [start, end, unknown, comment] = intervals[i]
+    const startMoment = moment(start).local()
+    const endMoment = moment(end).local()
+
+    if (startMoment.isSame(endMoment, 'day')) {
+      calendar[startMoment.day()]
+        .intervals
+        .push([startMoment, endMoment, unknown, comment])
+    } else {
+      // we are in the situation of a long continues interval like 24/7
+      // from end of today
+      calendar[startMoment.day()]
+        .intervals
+        .push([
+          startMoment,
+          startMoment.clone().set({ hour: 23, minute: 59 }),
+          unknown,
+          comment,
+        ])
+
+      // if there are days between start and end consider them
+      const middleDayMoment = startMoment
+        .clone()
+        .set({ hour: 0, minute: 0 })
+        .add(1, 'day')
+
+      while (
+        middleDayMoment.isBefore(endMoment, 'day')
+        ) {
+        calendar[middleDayMoment.day()]
+          .intervals
+          .push([
+            middleDayMoment.clone(),
+            middleDayMoment.clone().set({ hour: 23, minute: 59 }),
+            unknown,
+            comment,
+          ])
+
+        middleDayMoment.add(1, 'day')
+      }
+
+      // continues from the midnight of the tomorrow
+      // if it's not on the next week
+      if (endMoment.day() !== 0) {
+        calendar[endMoment.day()]
+          .intervals
+          .push([
+            middleDayMoment,
+            endMoment,
+            unknown,
+            comment,
+          ])
+      }
+    }
+  }
+
+  return calendar
+}
+
+
+export enum Weekday {
+  MO = 'Mo',
+  TU = 'Tu',
+  WE = 'We',
+  TH = 'Th',
+  FR = 'Fr',
+  SA = 'Sa',
+  SU = 'Su',
+}
+
+export const WEEKDAYS: Weekday[] = Object.values(Weekday)
+
+const PUBLIC_HOLIDAYS = 'PH'
+
+// e.g. { start: '09:00', end: '12:00' }, the end may be after the midnight: { start: '22:00', end: '02:00' }
+export interface TimeSpan {
+  start: string
+  end: string
+}
+
+export enum PublicHolidaysMode {
+  AS_USUAL = 'as-usual',
+  CLOSED = 'closed',
+  OPEN = 'open',
+}
+
+export interface WeeklyOpeningHours {
+  // the days without any span are closed, more than one span is a split shift
+  days: Record<Weekday, TimeSpan[]>
+  publicHolidays: {
+    mode: PublicHolidaysMode
+    spans: TimeSpan[]
+  }
+  // e.g. 'seasonal', it's attached to all the open times
+  comment: string
+  // e.g. 'by appointment', it's for the times that are not open
+  fallbackComment: string
+}
+
+
+export const createEmptyWeeklyOpeningHours = (): WeeklyOpeningHours => ({
+  days: {
+    [Weekday.MO]: [],
+    [Weekday.TU]: [],
+    [Weekday.WE]: [],
+    [Weekday.TH]: [],
+    [Weekday.FR]: [],
+    [Weekday.SA]: [],
+    [Weekday.SU]: [],
+  },
+  publicHolidays: {
+    mode: PublicHolidaysMode.AS_USUAL,
+    spans: [],
+  },
+  comment: '',
+  fallbackComment: '',
+})
+
+// the comments can not contain double quotes in the syntax
+const formatComment = (comment: string): string => `"${comment.trim().replace(/"/g, '\'')}"`
+
+const formatSpans = (spans: TimeSpan[]): string => (
+  spans.map(({ start, end }) => `${start}-${end}`).join(',')
+)
+
+// the consecutive days become ranges, e.g. [Mo, Tu, We, Fr] -> 'Mo-We,Fr'
+export const formatWeekdays = (days: Weekday[]): string => {
+  const indices = days.map(day => WEEKDAYS.indexOf(day)).sort((a, b) => a - b)
+  const runs: number[][] = []
+  indices.forEach(index => {
+    const lastRun = runs[runs.length - 1]
+    if (lastRun && lastRun[lastRun.length - 1] === index - 1) {
+      lastRun.push(index)
+    } else {
+      runs.push([index])
+    }
+  })
+
+  return runs
+    .map(run => {
+      const first = WEEKDAYS[run[0]]
+      const last = WEEKDAYS[run[run.length - 1]]
+      if (run.length === 1) {
+        return first
+      }
+
+      return run.length === 2 ? `${first},${last}` : `${first}-${last}`
+    })
+    .join(',')
+}
+
+// the days with the same spans share a rule, e.g. 'Mo-Fr 09:00-18:00; Sa 10:00-14:00; PH off || "by appointment"'
+export const createOpeningHours = (week: WeeklyOpeningHours): string => {
+  const { days, publicHolidays, comment, fallbackComment } = week
+  const openComment = isEmpty(comment.trim()) ? '' : ` open ${formatComment(comment)}`
+
+  const daysBySpans = new Map<string, Weekday[]>()
+  WEEKDAYS.forEach(day => {
+    if (days[day].length === 0) {
+      return
+    }
+
+    const spans = formatSpans(days[day])
+    daysBySpans.set(spans, [...(daysBySpans.get(spans) || []), day])
+  })
+
+  const rules = Array.from(daysBySpans, ([spans, sameDays]) => `${formatWeekdays(sameDays)} ${spans}${openComment}`)
+
+  if (publicHolidays.mode === PublicHolidaysMode.CLOSED) {
+    rules.push(`${PUBLIC_HOLIDAYS} off`)
+  }
+
+  if (publicHolidays.mode === PublicHolidaysMode.OPEN && publicHolidays.spans.length !== 0) {
+    rules.push(`${PUBLIC_HOLIDAYS} ${formatSpans(publicHolidays.spans)}${openComment}`)
+  }
+
+  // a comment without any open times is all there is to know, e.g. '"only in summer"'
+  if (rules.length === 0 && !isEmpty(openComment)) {
+    rules.push(formatComment(comment))
+  }
+
+  const openingHours = rules.join('; ')
+  if (isEmpty(fallbackComment.trim())) {
+    return openingHours
+  }
+
+  return isEmpty(openingHours) ?
+    formatComment(fallbackComment) :
+    `${openingHours} || ${formatComment(fallbackComment)}`
+}
+
+
+// splits on the separator only outside of the comments
+const splitOutsideQuotes = (value: string, separator: RegExp): string[] => {
+  const parts: string[] = []
+  let part = ''
+  let isInQuotes = false
+
+  for (let i = 0; i < value.length; i++) {
+    if (value[i] === '"') {
+      isInQuotes = !isInQuotes
+    }
+
+    const separatorMatch = isInQuotes ? null : value.slice(i).match(separator)
+    if (separatorMatch !== null && separatorMatch.index === 0) {
+      parts.push(part.trim())
+      part = ''
+      i += separatorMatch[0].length - 1
+
+      continue
+    }
+
+    part += value[i]
+  }
+
+  parts.push(part.trim())
+
+  return parts
+}
+
+// e.g. 'Fr-Mo' -> [Fr, Sa, Su, Mo], PH is kept apart
+const parseDays = (daysSelector: string): (Weekday | typeof PUBLIC_HOLIDAYS)[] | null => {
+  const days: (Weekday | typeof PUBLIC_HOLIDAYS)[] = []
+
+  for (const daySelector of daysSelector.split(',')) {
+    if (daySelector === PUBLIC_HOLIDAYS) {
+      days.push(PUBLIC_HOLIDAYS)
+
+      continue
+    }
+
+    const [first, last = first] = daySelector.split('-')
+    const firstIndex = WEEKDAYS.indexOf(first as Weekday)
+    const lastIndex = WEEKDAYS.indexOf(last as Weekday)
+    if (firstIndex === -1 || lastIndex === -1) {
+      return null
+    }
+
+    for (let i = firstIndex; ; i = (i + 1) % WEEKDAYS.length) {
+      days.push(WEEKDAYS[i])
+      if (i === lastIndex) {
+        break
+      }
+    }
+  }
+
+  return days
+}
+
+const parseSpans = (spansSelector: string): TimeSpan[] | null => {
+  const spans = spansSelector.split(',').map(span => span.match(/^(\d\d:\d\d)-(\d\d:\d\d)$/))
+  if (spans.some(span => span === null)) {
+    return null
+  }
+
+  return spans.map(([_span, start, end]) => ({ start, end }))
+}
+
+const ALL_DAY: TimeSpan = { start: '00:00', end: '24:00' }
+
+const COMMENT_RULE = /^"([^"]*)"$/
+const CLOSED_RULE = /^([A-Za-z,-]+) (?:off|closed)$/
+const OPEN_RULE = /^([A-Za-z,-]+) ([\d:,-]+)(?: open "([^"]*)")?$/
+
+// applies one rule on top of the previous ones, the additional rules add their spans instead of replacing them
+const applyRule = (week: WeeklyOpeningHours, rule: string, isAdditional: boolean): boolean => {
+  if (rule === '24/7') {
+    WEEKDAYS.forEach(day => {
+      week.days[day] = [ALL_DAY]
+    })
+
+    return true
+  }
+
+  const commentMatch = rule.match(COMMENT_RULE)
+  if (commentMatch !== null) {
+    week.comment = commentMatch[1]
+
+    return true
+  }
+
+  const closedMatch = rule.match(CLOSED_RULE)
+  const openMatch = rule.match(OPEN_RULE)
+  const daysSelector = (closedMatch || openMatch || [])[1]
+  const days = daysSelector !== undefined ? parseDays(daysSelector) : null
+  if (days === null) {
+    return false
+  }
+
+  const spans = openMatch !== null ? parseSpans(openMatch[2]) : []
+  if (spans === null) {
+    return false
+  }
+
+  if (openMatch !== null && openMatch[3] !== undefined) {
+    week.comment = openMatch[3]
+  }
+
+  days.forEach(day => {
+    if (day === PUBLIC_HOLIDAYS) {
+      const previousSpans = isAdditional ? week.publicHolidays.spans : []
+      week.publicHolidays.spans = [...previousSpans, ...spans]
+      week.publicHolidays.mode = week.publicHolidays.spans.length === 0 ?
+        PublicHolidaysMode.CLOSED :
+        PublicHolidaysMode.OPEN
+
+      return
+    }
+
+    week.days[day] = [...(isAdditional ? week.days[day] : []), ...spans]
+  })
+
+  return true
+}
+
+// the typings declare a boolean, but the library answers with [isEqual, reasons].
+// it only compares at the changes of the first one, so both sides are checked
+const isEqualOpeningHours = (oh1: opening_hours, oh2: opening_hours): boolean => (
+  [oh1.isEqualTo(oh2), oh2.isEqualTo(oh1)].every((result: unknown) => (
+    Array.isArray(result) ? result[0] === true : result === true
+  ))
+)
+
+// returns null for the valid values the editor can not show without changing their meaning,
+// e.g. the month ranges or the open ends, and for the invalid ones
+export const parseOpeningHours = (
+  openingHours: string,
+  nominatim: nominatim_object = OPENING_HOURS.defaultNominatim,
+): WeeklyOpeningHours | null => {
+  const week = createEmptyWeeklyOpeningHours()
+  if (isEmpty((openingHours || '').trim())) {
+    return week
+  }
+
+  let oh: opening_hours
+  try {
+    oh = new opening_hours(openingHours, nominatim)
+  } catch (e) {
+    return null
+  }
+
+  const [mainRules, fallbackRule, ...otherFallbackRules] = splitOutsideQuotes(oh.prettifyValue(), /^\|\|/)
+  if (otherFallbackRules.length !== 0) {
+    return null
+  }
+
+  if (fallbackRule !== undefined) {
+    const fallbackMatch = fallbackRule.match(COMMENT_RULE)
+    if (fallbackMatch === null) {
+      return null
+    }
+
+    week.fallbackComment = fallbackMatch[1]
+  }
+
+  for (const rule of splitOutsideQuotes(mainRules, /^;/)) {
+    const [firstRule, ...additionalRules] = splitOutsideQuotes(rule, /^,\s+/)
+    if (!applyRule(week, firstRule, false) || !additionalRules.every(r => applyRule(week, r, true))) {
+      return null
+    }
+  }
+
+  const recreatedOpeningHours = createOpeningHours(week)
+  if (recreatedOpeningHours === oh.prettifyValue()) {
+    return week
+  }
+
+  return isEqualOpeningHours(oh, new opening_hours(recreatedOpeningHours, nominatim)) ? week : null
+}
+
+
+export enum OpenState {
+  OPEN = 'open',
+  CLOSED = 'closed',
+  // no opening hours, the ones that can not be read or the ones that only tell e.g. 'by appointment'
+  UNKNOWN = 'unknown',
+}
+
+export const getOpenState = (
+  openingHours: string | null | undefined,
+  date: Date,
+  nominatim: nominatim_object = OPENING_HOURS.defaultNominatim,
+): OpenState => {
+  if (isEmpty((openingHours || '').trim())) {
+    return OpenState.UNKNOWN
+  }
+
+  let oh: opening_hours
+  try {
+    oh = new opening_hours(openingHours, nominatim)
+  } catch (e) {
+    return OpenState.UNKNOWN
+  }
+
+  if (oh.getUnknown(date)) {
+    return OpenState.UNKNOWN
+  }
+
+  return oh.getState(date) ? OpenState.OPEN : OpenState.CLOSED
+}
+
+
+// the filter of the search results in the url, e.g. open=now or open=1621603800 for a moment in the future
+export const OPEN_NOW = 'now'
+
+export const getOpenFilterDate = (openParam: string, now: Date): Date | null => {
+  if (openParam === OPEN_NOW) {
+    return now
+  }
+
+  const timestamp = parseInt(openParam, 10)
+
+  return Number.isNaN(timestamp) ? null : new Date(timestamp * 1000)
+}
+
+// what the search results lack to tell if the entries are open, the state decides about the holidays
+export interface EntryOpeningHours {
+  opening_hours: string | null
+  state: string | null
+}
+
+export interface OpenStateCandidate {
+  id: string
+  lat: number
+  lng: number
+}
+
+// the entries whose details are not fetched yet are unknown
+export const getOpenStates = (
+  entries: OpenStateCandidate[],
+  entriesOpeningHours: Record<string, EntryOpeningHours>,
+  date: Date,
+): Record<string, OpenState> => (
+  entries.reduce((openStates: Record<string, OpenState>, entry: OpenStateCandidate) => {
+    const entryOpeningHours = entriesOpeningHours[entry.id]
+    openStates[entry.id] = entryOpeningHours !== undefined ?
+      getOpenState(
+        entryOpeningHours.opening_hours,
+        date,
+        getOpeningHoursNominatim(entry.lat, entry.lng, entryOpeningHours.state),
+      ) :
+      OpenState.UNKNOWN
+
+    return openStates
+  }, {})
+)
+
+// the results without a state, like the events, are kept
+export const filterClosedResults = <T extends { id: string }>(results: T[], openStates: Record<string, OpenState>): T[] => (
+  results.filter(result => openStates[result.id] !== OpenState.CLOSED)
+)
@@ -0,0 +1,254 @@
+import { NextApiRequest, NextApiResponse } from 'next'
+import { ParsedUrlQuery } from 'querystring'
+import moment from 'moment'
+import qs from 'qs'
+import { AxiosInstance } from '../api'
+import API_ENDPOINTS from '../api/endpoints'
+import { SearchEntriesRequest as SearchEntriesRequestDTO } from '../dtos/SearchEntriesRequest'
+import { SearchEventsRequest as SearchEventsRequestDTO } from '../dtos/SearchEventsRequest'
+import { Entries as EntriesDTO } from '../dtos/Entry'
+import { Events } from '../dtos/Event'
+import MapPageConfigs from '../dtos/MapPageConfigs'
+import { CachedFeed } from '../dtos/CachedFeed'
+import getCachedFeed from '../db/queries/get-cached-feed'
+import replaceCachedFeed from '../db/queries/replace-cached-feed'
+import {
+  convertEntryToFeedItem,
+  convertEventToFeedItem,
+  createFeed,
+  Feed,
+  FeedKind,
+  getFeedCacheKey,
+  getFeedContentType,
+  getFeedLocale,
+  getNewEntriesOfView,
+  sortEntriesByCreation,
+  parseFeedFormat,
+  sortEventsByStart,
+} from './feed'
+import { loadProjectConfigs } from './projects'
+import { getPublicOrigin } from './seo'
+import { convertQueryParamToString } from './utils'
+import { getEntityPath } from './sitemap'
+import { RootSlugEntity } from './types'
+import { SITEMAP } from '../consts/sitemap'
+import { FEED } from '../consts/feed'
+import { DEFAULT_PROJECT } from '../consts/projects'
+import en from '../locales/en/map.json'
+import de from '../locales/de/map.json'
+import es from '../locales/es/map.json'
+import pt from '../locales/pt/map.json'
+
+
+// only for the server side, the feeds are built from the search of the backend
+
+// the feed is cached without its self link, it's the address the reader asked for
+type FeedContent = Omit<Feed, 'selfLink'>
+
+// the same subjects as the subscription menu of the map
+const feedSubjects: Record<string, Record<FeedKind, string>> = {
+  en: en.feeds,
+  de: de.feeds,
+  es: es.feeds,
+  pt: pt.feeds,
+}
+
+const getFeedTitle = (pageConfigs: MapPageConfigs, kind: FeedKind, locale: string): string => (
+  `${pageConfigs.meta ? pageConfigs.meta.title : FEED.defaultTitle}: ${feedSubjects[locale][kind]}`
+)
+
+// the feed readers open the map of the project in the same area
+const getMapLink = (origin: string, project: string, text?: string): string => (
+  `${origin}/maps/${project}${qs.stringify({ search: text || undefined }, { addQueryPrefix: true })}`
+)
+
+
+// the feed readers poll constantly, the backend is asked once per view and cache lifetime.
+// the feeds can still be served when they can not be cached
+const getFeed = async (cacheKey: string, createFeedContent: () => Promise<FeedContent>): Promise<FeedContent> => {
+  const now = moment().unix()
+
+  try {
+    const cachedFeed = await getCachedFeed(cacheKey)
+    if (cachedFeed !== null && now - cachedFeed.created_at < FEED.cacheLifetimeInSeconds) {
+      return JSON.parse(cachedFeed.content)
+    }
+  } catch (e) {
+    console.error(`failed to read the cached feed ${cacheKey}: ${e.message}`)
+  }
+
+  const feedContent = await createFeedContent()
+
+  try {
+    const cachedFeed: CachedFeed = { cache_key: cacheKey, content: JSON.stringify(feedContent), created_at: now }
+    await replaceCachedFeed(cachedFeed, now - FEED.cacheLifetimeInSeconds)
+  } catch (e) {
+    console.error(`failed to cache the feed ${cacheKey}: ${e.message}`)
+  }
+
+  return feedContent
+}
+
+
+const createEntriesFeedContent = async (
+  project: string,
+  pageConfigs: MapPageConfigs,
+  searchEntriesRequest: SearchEntriesRequestDTO,
+  origin: string,
+  locale: string,
+): Promise<FeedContent> => {
+  const since = moment().subtract(FEED.newEntriesMaxAgeInDays, 'days').unix()
+  const recentlyChangedEntriesResponse = await AxiosInstance.GetRequest<EntriesDTO>(
+    API_ENDPOINTS.getRecentlyChangedEntries(),
+    {
+      params: {
+        since,
+        limit: FEED.recentlyChangedLimit,
+      },
+    },
+  )
+  const recentlyChangedEntries = AxiosInstance.GetSuccessData(recentlyChangedEntriesResponse)
+
+  const newEntries = getNewEntriesOfView(
+    recentlyChangedEntries,
+    { ...searchEntriesRequest, bbox: searchEntriesRequest.bbox || pageConfigs.map.bbox || SITEMAP.defaultBBox },
+    since,
+  )
+  const newestEntries = sortEntriesByCreation(newEntries).slice(0, FEED.itemsPerFeed)
+
+  return {
+    title: getFeedTitle(pageConfigs, FeedKind.ENTRIES, locale),
+    link: getMapLink(origin, project, searchEntriesRequest.text),
+    items: newestEntries.map(entry => convertEntryToFeedItem(
+      entry,
+      `${origin}${getEntityPath(project, RootSlugEntity.ENTRY, entry.id)}`,
+    )),
+  }
+}
+
+// the events that already started are not upcoming anymore, unless the request says otherwise
+const createEventsFeedContent = async (
+  project: string,
+  pageConfigs: MapPageConfigs,
+  searchEventsRequest: SearchEventsRequestDTO,
+  origin: string,
+  locale: string,
+): Promise<FeedContent> => {
+  const searchEventsResponse = await AxiosInstance.GetRequest<Events>(
+    API_ENDPOINTS.searchEvents(),
+    {
+      params: {
+        ...searchEventsRequest,
+        bbox: searchEventsRequest.bbox || pageConfigs.map.bbox || SITEMAP.defaultBBox,
+        start_min: searchEventsRequest.start_min || moment().unix(),
+        limit: FEED.itemsPerFeed,
+      },
+    },
+  )
+  const events = AxiosInstance.GetSuccessData(searchEventsResponse)
+  const upcomingEvents = sortEventsByStart(events).slice(0, FEED.itemsPerFeed)
+
+  return {
+    title: getFeedTitle(pageConfigs, FeedKind.EVENTS, locale),
+    link: getMapLink(origin, project, searchEventsRequest.text),
+    items: upcomingEvents.map(event => convertEventToFeedItem(
+      event,
+      `${origin}${getEntityPath(project, RootSlugEntity.EVENT, event.id)}`,
+    )),
+  }
+}
+
+
+export const getEntriesFeed = async (
+  project: string,
+  pageConfigs: MapPageConfigs,
+  searchEntriesRequest: SearchEntriesRequestDTO,
+  origin: string,
+  selfLink: string,
+  requestedLocale: string,
+): Promise<Feed> => {
+  const locale = getFeedLocale(requestedLocale)
+  const cacheKey = getFeedCacheKey(FeedKind.ENTRIES, project, locale, { ...searchEntriesRequest })
+  const feedContent = await getFeed(
+    cacheKey,
+    () => createEntriesFeedContent(project, pageConfigs, searchEntriesRequest, origin, locale),
+  )
+
+  return { ...feedContent, selfLink }
+}
+
+export const getEventsFeed = async (
+  project: string,
+  pageConfigs: MapPageConfigs,
+  searchEventsRequest: SearchEventsRequestDTO,
+  origin: string,
+  selfLink: string,
+  requestedLocale: string,
+): Promise<Feed> => {
+  const locale = getFeedLocale(requestedLocale)
+  const cacheKey = getFeedCacheKey(FeedKind.EVENTS, project, locale, { ...searchEventsRequest })
+  const feedContent = await getFeed(
+    cacheKey,
+    () => createEventsFeedContent(project, pageConfigs, searchEventsRequest, origin, locale),
+  )
+
+  return { ...feedContent, selfLink }
+}
+
+
+type ProjectFeedGetter = (
+  project: string,
+  pageConfigs: MapPageConfigs,
+  query: ParsedUrlQuery,
+  origin: string,
+  selfLink: string,
+  locale: string,
+) => Promise<Feed>
+
+// the feeds of the entries and the events answer the same way, only their search differs.
+// a broken config of the project ends in a 500 like a failing backend
+export const createFeedApiHandler = (getProjectFeed: ProjectFeedGetter) => async (
+  req: NextApiRequest,
+  res: NextApiResponse,
+) => {
+  const {
+    query,
+    method,
+  } = req
+
+  // only GET is allowed
+  if (method !== 'GET') {
+    res.setHeader('Allow', ['GET'])
+    res.status(405).end(`Method ${method} Not Allowed`)
+
+    return
+  }
+
+  const project = convertQueryParamToString(query.project, DEFAULT_PROJECT)
+  const format = parseFeedFormat(convertQueryParamToString(query.format))
+
+  try {
+    const pageConfigs = loadProjectConfigs(project)
+    if (pageConfigs === null) {
+      res.status(404).end()
+
+      return
+    }
+
+    const origin = getPublicOrigin()
+    const feed = await getProjectFeed(
+      project,
+      pageConfigs,
+      query,
+      origin,
+      `${origin}${req.url}`,
+      convertQueryParamToString(query.locale),
+    )
+
+    res.setHeader('Content-Type', getFeedContentType(format))
+    res.setHeader('Cache-Control', `public, max-age=${FEED.cacheLifetimeInSeconds}`)
+    res.status(200).send(createFeed(feed, format))
+  } catch (e) {
+    res.status(500).end()
+  }
+}
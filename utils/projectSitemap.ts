@@ -0,0 +1,178 @@
+import moment from 'moment'
+import chunk from 'lodash/chunk'
+import uniqBy from 'lodash/uniqBy'
+import { AxiosInstance } from '../api'
+import API_ENDPOINTS from '../api/endpoints'
+import { BoundingBox } from '../dtos/BoundingBox'
+import { Events } from '../dtos/Event'
+import { SearchEntries } from '../dtos/SearchEntry'
+import SearchEntriesResponse from '../dtos/SearchEntriesResponse'
+import { CachedSitemap } from '../dtos/CachedSitemap'
+import getCachedSitemap from '../db/queries/get-cached-sitemap'
+import replaceCachedSitemaps from '../db/queries/replace-cached-sitemaps'
+import {
+  BBoxTuple,
+  convertBBoxTupleToString,
+  createSitemap,
+  createSitemapIndex,
+  getEntityPath,
+  getLatestLastmod,
+  parseBBox,
+  SitemapUrl,
+  splitBBox,
+} from './sitemap'
+import { loadProjectConfigs } from './projects'
+import { fetchEntries } from './entities'
+import { getPublicOrigin } from './seo'
+import { RootSlugEntity } from './types'
+import { SITEMAP } from '../consts/sitemap'
+
+
+// only for the server side, the sitemaps are generated from the backend and cached in the db
+
+export const SITEMAP_INDEX_NAME = 'index'
+
+interface Identifiable {
+  id: string
+}
+
+
+// the search has no pagination, so the areas with too many results are searched in quarters
+const searchInBBox = async <T extends Identifiable>(
+  search: (bbox: BoundingBox) => Promise<T[]>,
+  bbox: BBoxTuple,
+  depth: number = 0,
+): Promise<T[]> => {
+  const results = await search(convertBBoxTupleToString(bbox))
+  if (results.length < SITEMAP.searchLimit || depth === SITEMAP.maxBBoxSplitDepth) {
+    return results
+  }
+
+  // one after the other to not flood the backend
+  let quarterResults: T[] = []
+  for (const quarter of splitBBox(bbox)) {
+    quarterResults = quarterResults.concat(await searchInBBox(search, quarter, depth + 1))
+  }
+
+  // the results on the borders belong to more than one quarter
+  return uniqBy(quarterResults, 'id')
+}
+
+const searchEntries = async (bbox: BoundingBox): Promise<SearchEntries> => {
+  const searchEntriesResponse = await AxiosInstance.GetRequest<SearchEntriesResponse>(
+    API_ENDPOINTS.searchEntries(),
+    { params: { bbox, limit: SITEMAP.searchLimit } },
+  )
+
+  // the invisible entries are the ones outside of the bbox
+  return AxiosInstance.GetSuccessData(searchEntriesResponse).visible
+}
+
+const searchUpcomingEvents = (now: number) => async (bbox: BoundingBox): Promise<Events> => {
+  const searchEventsResponse = await AxiosInstance.GetRequest<Events>(
+    API_ENDPOINTS.searchEvents(),
+    { params: { bbox, limit: SITEMAP.searchLimit, start_min: now } },
+  )
+
+  return AxiosInstance.GetSuccessData(searchEventsResponse)
+}
+
+const getProjectSitemapUrls = async (project: string, origin: string, now: number): Promise<SitemapUrl[]> => {
+  const { map } = loadProjectConfigs(project)
+  const bbox = parseBBox(map.bbox || SITEMAP.defaultBBox)
+
+  const searchEntryResults = await searchInBBox(searchEntries, bbox)
+  // the search results are compact and do not carry the dates
+  const entries = await fetchEntries(searchEntryResults.map(entry => entry.id), SITEMAP.entriesPerRequest)
+  const events = await searchInBBox(searchUpcomingEvents(now), bbox)
+
+  // every version of an entry is created anew, so the created of an entry is the time of its last change
+  const entryUrls: SitemapUrl[] = entries.map(entry => ({
+    loc: `${origin}${getEntityPath(project, RootSlugEntity.ENTRY, entry.id)}`,
+    lastmod: entry.created,
+  }))
+
+  const eventUrls: SitemapUrl[] = events.map(event => ({
+    loc: `${origin}${getEntityPath(project, RootSlugEntity.EVENT, event.id)}`,
+    lastmod: event.created_at,
+  }))
+
+  return [...entryUrls, ...eventUrls]
+}
+
+export const getSitemapPath = (project: string, name: string): string => (
+  name === SITEMAP_INDEX_NAME ?
+    `/api/v0/maps/${project}/sitemap.xml` :
+    `/api/v0/maps/${project}/sitemaps/${name}.xml`
+)
+
+const generateProjectSitemaps = async (project: string, origin: string, now: number): Promise<CachedSitemap[]> => {
+  const urls = await getProjectSitemapUrls(project, origin, now)
+  const urlsChunks = chunk(urls, SITEMAP.urlsPerSitemap)
+
+  const sitemaps: CachedSitemap[] = urlsChunks.map((urlsChunk, i) => ({
+    project,
+    name: `${i + 1}`,
+    content: createSitemap(urlsChunk),
+    created_at: now,
+  }))
+
+  const index = createSitemapIndex(
+    urlsChunks.map((urlsChunk, i) => ({
+      loc: `${origin}${getSitemapPath(project, `${i + 1}`)}`,
+      lastmod: getLatestLastmod(urlsChunk),
+    })),
+  )
+
+  const allSitemaps = [
+    ...sitemaps,
+    { project, name: SITEMAP_INDEX_NAME, content: index, created_at: now },
+  ]
+
+  // the sitemaps can still be served when they can not be cached
+  try {
+    await replaceCachedSitemaps(project, allSitemaps)
+  } catch (e) {
+    console.error(`failed to cache the sitemaps of ${project}: ${e.message}`)
+  }
+
+  return allSitemaps
+}
+
+// the crawlers request the index and its chunks at the same time, they should wait for the same generation
+const pendingGenerations: Record<string, Promise<CachedSitemap[]>> = {}
+
+const generateProjectSitemapsOnce = (project: string, origin: string, now: number): Promise<CachedSitemap[]> => {
+  if (!pendingGenerations[project]) {
+    pendingGenerations[project] = generateProjectSitemaps(project, origin, now)
+      .finally(() => {
+        delete pendingGenerations[project]
+      })
+  }
+
+  return pendingGenerations[project]
+}
+
+const isFresh = (cachedSitemap: CachedSitemap | null, now: number): boolean => (
+  cachedSitemap !== null && now - cachedSitemap.created_at < SITEMAP.cacheLifetimeInSeconds
+)
+
+// resolves to null for the chunks that do not exist.
+// the sitemaps are cached for all the requests, so their urls are built from the configured origin only
+export const getProjectSitemap = async (project: string, name: string): Promise<string | null> => {
+  const now = moment().unix()
+
+  const cachedSitemap = await getCachedSitemap(project, name)
+  if (isFresh(cachedSitemap, now)) {
+    return cachedSitemap.content
+  }
+
+  if (name !== SITEMAP_INDEX_NAME && isFresh(await getCachedSitemap(project, SITEMAP_INDEX_NAME), now)) {
+    return null
+  }
+
+  const sitemaps = await generateProjectSitemapsOnce(project, getPublicOrigin(), now)
+  const sitemap = sitemaps.find(s => s.name === name)
+
+  return sitemap ? sitemap.content : null
+}
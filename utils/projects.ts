@@ -0,0 +1,184 @@
+import fs from 'fs'
+import path from 'path'
+import MapPageConfigs from '../dtos/MapPageConfigs'
+import { LinkPolicy, LinkWithIcon } from '../dtos/LinkWithIcon'
+import { ProjectSummary } from '../dtos/ProjectMeta'
+import { Schema, validateSchema } from './schema'
+import { DEFAULT_PROJECT, PROJECT_FILES } from '../consts/projects'
+
+
+// only for the server side, the projects are the folders in /public/projects
+const PROJECTS_PATH = './public/projects'
+
+// the project comes from the url and ends up in a file path
+const PROJECT_NAME_PATTERN = /^[\w-]+$/
+
+
+const optionalNumberSchema: Schema = { type: 'number', optional: true }
+
+const optionalStringSchema: Schema = { type: 'string', optional: true }
+
+const categoryValuesSchema: Schema = {
+  type: 'object',
+  optional: true,
+  properties: {
+    initiative: optionalStringSchema,
+    company: optionalStringSchema,
+    event: optionalStringSchema,
+    unknown: optionalStringSchema,
+  },
+}
+
+export const mapPageConfigsSchema: Schema = {
+  type: 'object',
+  properties: {
+    meta: {
+      type: 'object',
+      optional: true,
+      properties: {
+        title: { type: 'string' },
+        description: optionalStringSchema,
+      },
+    },
+    map: {
+      type: 'object',
+      properties: {
+        location: {
+          type: 'object',
+          properties: {
+            lat: { type: 'number' },
+            lng: { type: 'number' },
+            zoom: { type: 'number' },
+          },
+        },
+        bbox: { type: 'string', optional: true },
+      },
+    },
+    popularTags: {
+      type: 'object',
+      properties: {
+        min_count: optionalNumberSchema,
+        max_count: optionalNumberSchema,
+        limit: optionalNumberSchema,
+        offset: optionalNumberSchema,
+      },
+    },
+    filters: {
+      type: 'object',
+      optional: true,
+      properties: {
+        fixedTags: { type: 'array', optional: true, items: { type: 'string' } },
+        orgTag: optionalStringSchema,
+        categories: {
+          type: 'array',
+          optional: true,
+          items: { type: 'enum', values: ['initiative', 'company', 'event'] },
+        },
+      },
+    },
+    theme: {
+      type: 'object',
+      optional: true,
+      properties: {
+        primaryColor: optionalStringSchema,
+        primaryBorderColor: optionalStringSchema,
+        primaryHoverColor: optionalStringSchema,
+        primaryHoverBorderColor: optionalStringSchema,
+        logo: optionalStringSchema,
+        pins: categoryValuesSchema,
+        accentColors: categoryValuesSchema,
+      },
+    },
+  },
+}
+
+export const burgerMenuSchema: Schema = {
+  type: 'array',
+  items: {
+    type: 'object',
+    properties: {
+      link: { type: 'string' },
+      title: { type: 'string' },
+      // the name of a font awesome icon or its prefix and name
+      icon: {
+        type: 'oneOf',
+        schemas: [
+          { type: 'string' },
+          { type: 'array', items: { type: 'string' } },
+        ],
+      },
+      policy: { type: 'enum', values: Object.values(LinkPolicy) },
+    },
+  },
+}
+
+
+const getProjectFilePath = (project: string, fileName: string): string => (
+  path.resolve(PROJECTS_PATH, project, fileName)
+)
+
+export const isExistingProject = (project: string): boolean => (
+  PROJECT_NAME_PATTERN.test(project) &&
+  fs.existsSync(getProjectFilePath(project, PROJECT_FILES.config))
+)
+
+export const getProjectNames = (): string[] => (
+  fs.readdirSync(path.resolve(PROJECTS_PATH), { withFileTypes: true })
+    .filter(dirent => dirent.isDirectory() && isExistingProject(dirent.name))
+    .map(dirent => dirent.name)
+)
+
+// the files that a project does not have are taken from the default project,
+// a broken file is an error of the deployment and throws
+const readProjectFile = <T>(project: string, fileName: string, schema: Schema): T => {
+  const filePath = fs.existsSync(getProjectFilePath(project, fileName)) ?
+    getProjectFilePath(project, fileName) :
+    getProjectFilePath(DEFAULT_PROJECT, fileName)
+
+  const fileContent = fs.readFileSync(filePath, 'utf8')
+  const value = JSON.parse(fileContent.toString())
+
+  const problems = validateSchema(schema, value)
+  if (problems.length !== 0) {
+    throw new Error(`invalid ${fileName} of the project ${project}: ${problems.join('; ')}`)
+  }
+
+  return value
+}
+
+// resolves to null for the unknown projects
+export const loadProjectConfigs = (project: string): MapPageConfigs | null => {
+  if (!isExistingProject(project)) {
+    return null
+  }
+
+  return readProjectFile<MapPageConfigs>(project, PROJECT_FILES.config, mapPageConfigsSchema)
+}
+
+export const loadBurgerMenu = (project: string): LinkWithIcon[] | null => {
+  if (!isExistingProject(project)) {
+    return null
+  }
+
+  return readProjectFile<LinkWithIcon[]>(project, PROJECT_FILES.burgerMenu, burgerMenuSchema)
+}
+
+// a broken project should not hide the others
+export const getProjectSummaries = (): ProjectSummary[] => (
+  getProjectNames().reduce((summaries: ProjectSummary[], project: string) => {
+    try {
+      const { meta, map } = loadProjectConfigs(project)
+
+      summaries.push({
+        name: project,
+        title: meta ? meta.title : project,
+        description: meta ? meta.description : undefined,
+        location: map.location,
+      })
+    } catch (e) {
+      console.error(e.message)
+    }
+
+    return summaries
+  }, [])
+)
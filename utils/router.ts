@@ -1,6 +1,19 @@
 import { NextRouter } from 'next/router'
 
 
+// the map is served for the visitors under /maps and with less chrome for the iframes under /embed
+const EMBED_BASE_PATH = '/embed'
+const MAP_BASE_PATH = '/maps'
+
+export const isEmbedPathname = (pathname: string): boolean => (
+  pathname === EMBED_BASE_PATH || pathname.startsWith(`${EMBED_BASE_PATH}/`)
+)
+
+// the navigation should stay in the iframe and not jump to the full map
+export const getMapBasePath = (pathname: string): string => (
+  isEmbedPathname(pathname) ? EMBED_BASE_PATH : MAP_BASE_PATH
+)
+
 export const isRouterInitialized = (router: NextRouter): boolean => {
   const { query } = router
   const {
@@ -0,0 +1,25 @@
+// the views that a visitor named and kept in the browser, nothing of it is sent to the server
+
+export interface SavedSearch {
+  name: string
+  // the normalized path of the view
+  path: string
+  // unix timestamp in milliseconds, it also identifies the saved search
+  savedAt: number
+}
+
+
+// the newest first, saving a view under a taken name replaces the old one
+export const addSavedSearch = (
+  savedSearches: SavedSearch[],
+  name: string,
+  path: string,
+  now: number,
+): SavedSearch[] => [
+  { name: name.trim(), path, savedAt: now },
+  ...savedSearches.filter(savedSearch => savedSearch.name !== name.trim()),
+]
+
+export const removeSavedSearch = (savedSearches: SavedSearch[], savedAt: number): SavedSearch[] => (
+  savedSearches.filter(savedSearch => savedSearch.savedAt !== savedAt)
+)
@@ -0,0 +1,52 @@
+import isPlainObject from 'lodash/isPlainObject'
+
+
+// a small subset of the json schema, enough to check the json files of the projects
+export type Schema = { optional?: boolean } & (
+  { type: 'string' | 'number' | 'boolean' } |
+  { type: 'enum', values: string[] } |
+  { type: 'array', items: Schema } |
+  { type: 'object', properties: Record<string, Schema> } |
+  { type: 'oneOf', schemas: Schema[] }
+  )
+
+
+// returns the problems with their path in the value, an empty list means the value is valid
+export const validateSchema = (schema: Schema, value: unknown, path: string = '$'): string[] => {
+  if (value === undefined || value === null) {
+    return schema.optional ? [] : [`${path} is required`]
+  }
+
+  switch (schema.type) {
+    case 'string':
+    case 'number':
+    case 'boolean':
+      return typeof value === schema.type ? [] : [`${path} should be a ${schema.type}`]
+
+    case 'enum':
+      return schema.values.includes(value as string) ?
+        [] :
+        [`${path} should be one of ${schema.values.join(', ')}`]
+
+    case 'array':
+      if (!Array.isArray(value)) {
+        return [`${path} should be an array`]
+      }
+
+      return value.flatMap((item, i) => validateSchema(schema.items, item, `${path}[${i}]`))
+
+    case 'object':
+      if (!isPlainObject(value)) {
+        return [`${path} should be an object`]
+      }
+
+      return Object.keys(schema.properties).flatMap(key => (
+        validateSchema(schema.properties[key], value[key], `${path}.${key}`)
+      ))
+
+    case 'oneOf':
+      return schema.schemas.some(s => validateSchema(s, value, path).length === 0) ?
+        [] :
+        [`${path} does not match any of the allowed forms`]
+  }
+}
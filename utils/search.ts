@@ -0,0 +1,72 @@
+import { ParsedUrlQuery } from 'querystring'
+import toString from 'lodash/toString'
+import toNumber from 'lodash/toNumber'
+import {
+  convertQueryParamToArray,
+  convertQueryParamToInt,
+  convertQueryParamToString,
+} from './utils'
+import { EnforcedFilters, filterAllowedCategories, getSearchTags } from './filters'
+import { SearchEntriesRequest as SearchEntriesRequestDTO } from '../dtos/SearchEntriesRequest'
+import { SearchEventsRequest as SearchEventsRequestDTO } from '../dtos/SearchEventsRequest'
+import Category, { isEntryCategory } from '../dtos/Categories'
+import { BoundingBox } from '../dtos/BoundingBox'
+
+
+// the requests of the current view, null if the filters leave out the entries or the events
+export interface SearchRequests {
+  entries: SearchEntriesRequestDTO | null
+  events: SearchEventsRequestDTO | null
+}
+
+
+// the map searches with them and the feeds of the same view are built from them
+export const getSearchRequests = (
+  query: ParsedUrlQuery,
+  bbox: BoundingBox,
+  enforcedFilters: EnforcedFilters,
+): SearchRequests => {
+  const {
+    search: searchParam,
+    type: typesParam,
+    limit: limitParam,
+    tag: tagsParam,
+    start_min: startMin,
+    start_max: startMax,
+  } = query
+
+  const searchTerm: string = convertQueryParamToString(searchParam)
+
+  // should not include limit if it's zero or not convertable to a number
+  let limit: number | undefined = convertQueryParamToInt(limitParam)
+  limit = limit !== 0 ? limit : undefined
+
+  const typesArray = filterAllowedCategories(
+    convertQueryParamToArray(typesParam) as Category[],
+    enforcedFilters,
+  )
+  const tags = getSearchTags(convertQueryParamToArray(tagsParam), enforcedFilters)
+
+  const entryCategories = typesArray.filter(t => isEntryCategory(t))
+  const entries: SearchEntriesRequestDTO | null = entryCategories.length === 0 ? null : {
+    bbox: bbox,
+    text: searchTerm,
+    categories: toString(entryCategories),
+    limit: limit,
+    tags: toString(tags),
+    org_tag: enforcedFilters.orgTag || undefined,
+  }
+
+  // the events do not have an org tag filter, they should carry it as one of their tags
+  const eventTags = enforcedFilters.orgTag ? [...tags, enforcedFilters.orgTag] : tags
+  const events: SearchEventsRequestDTO | null = !typesArray.includes(Category.EVENT) ? null : {
+    bbox: bbox,
+    text: searchTerm,
+    limit: limit,
+    tag: toString(eventTags),
+    start_min: toNumber(startMin),
+    start_max: toNumber(startMax),
+  }
+
+  return { entries, events }
+}
@@ -0,0 +1,179 @@
+import moment from 'moment'
+import isEmpty from 'lodash/isEmpty'
+import truncate from 'lodash/truncate'
+import { Entry } from '../dtos/Entry'
+import Event from '../dtos/Event'
+import Category from '../dtos/Categories'
+import { EntryAddress } from '../dtos/EntryAddress'
+import { ENTITY_DETAIL_DESCRIPTION_LIMIT } from '../consts/texts'
+import { SEO } from '../consts/seo'
+
+
+// what the shared links of the entities show in the messengers and search engines
+export interface EntityMeta {
+  title: string
+  description: string
+  url: string
+  imageUrl: string | null
+}
+
+export type JsonLd = Record<string, unknown>
+
+export interface EntityHeadProps {
+  meta: EntityMeta
+  jsonLd: JsonLd
+  // lets the blogs and the cms turn the shared links into cards
+  oEmbedUrl: string
+}
+
+
+// the json-ld should not contain empty values
+const removeEmptyValues = (object: JsonLd): JsonLd => (
+  Object.keys(object).reduce((prunedObject: JsonLd, key: string) => {
+    const value = object[key]
+    if (value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0)) {
+      return prunedObject
+    }
+
+    prunedObject[key] = value
+
+    return prunedObject
+  }, {})
+)
+
+const getPostalAddress = (address: EntryAddress): JsonLd | null => {
+  const postalAddress = removeEmptyValues({
+    '@type': 'PostalAddress',
+    streetAddress: address.street,
+    postalCode: address.zip,
+    addressLocality: address.city,
+    addressRegion: address.state,
+    addressCountry: address.country,
+  })
+
+  // only the type is left
+  return Object.keys(postalAddress).length === 1 ? null : postalAddress
+}
+
+const getGeoCoordinates = (lat: number, lng: number): JsonLd => ({
+  '@type': 'GeoCoordinates',
+  latitude: lat,
+  longitude: lng,
+})
+
+// the entries use the openstreetmap format, e.g. 'Mo-Fr 09:00-18:00; Sa 10:00-14:00'
+// which is close enough to the one of schema.org when the rules are split
+export const convertOpeningHoursToSchema = (openingHours: string): string[] => {
+  if (isEmpty(openingHours)) {
+    return []
+  }
+
+  return openingHours
+    .split(';')
+    .map(rule => rule.trim())
+    .filter(rule => rule.length !== 0)
+}
+
+const getDescription = (description: string): string => (
+  truncate(description || '', { length: ENTITY_DETAIL_DESCRIPTION_LIMIT, separator: ' ' })
+)
+
+
+// resolved on the first request, the environment does not change while the server runs
+let publicOrigin: string | null = null
+
+// only the http(s) origins, without a path or a trailing slash
+export const parsePublicOrigin = (value: string | undefined): string | null => {
+  try {
+    const url = new URL(value)
+
+    return url.protocol === 'http:' || url.protocol === 'https:' ? url.origin : null
+  } catch (e) {
+    return null
+  }
+}
+
+// the absolute urls for the crawlers, the cards and the feeds.
+// they never come from the headers of the requests, a forged host would end up in the cached sitemaps.
+// a missing or broken PUBLIC_ORIGIN is reported once, the pages are still served with the default one
+export const getPublicOrigin = (): string => {
+  if (publicOrigin === null) {
+    publicOrigin = parsePublicOrigin(process.env.PUBLIC_ORIGIN)
+
+    if (publicOrigin === null) {
+      console.error(`PUBLIC_ORIGIN is not set to a valid origin, ${SEO.defaultPublicOrigin} is used instead`)
+      publicOrigin = SEO.defaultPublicOrigin
+    }
+  }
+
+  return publicOrigin
+}
+
+
+export const getEntryMeta = (entry: Entry, url: string): EntityMeta => ({
+  title: entry.title,
+  description: getDescription(entry.description),
+  url,
+  imageUrl: isEmpty(entry.image_url) ? null : entry.image_url,
+})
+
+export const getEventMeta = (event: Event, url: string): EntityMeta => ({
+  title: event.title,
+  description: getDescription(event.description),
+  url,
+  imageUrl: isEmpty(event.image_url) ? null : event.image_url,
+})
+
+// the companies have opening hours and a place to visit, the initiatives are organizations
+export const getEntryJsonLd = (entry: Entry, url: string): JsonLd => {
+  const isCompany = (entry.categories || []).includes(Category.COMPANY)
+
+  return removeEmptyValues({
+    '@context': 'https://schema.org',
+    '@type': isCompany ? 'LocalBusiness' : 'Organization',
+    '@id': url,
+    name: entry.title,
+    description: entry.description,
+    url: entry.homepage,
+    image: entry.image_url,
+    email: entry.email,
+    telephone: entry.telephone,
+    address: getPostalAddress(entry),
+    // the organizations do not have geo coordinates in schema.org, they have a location instead
+    geo: isCompany ? getGeoCoordinates(entry.lat, entry.lng) : null,
+    location: isCompany ? null : removeEmptyValues({
+      '@type': 'Place',
+      address: getPostalAddress(entry),
+      geo: getGeoCoordinates(entry.lat, entry.lng),
+    }),
+    openingHours: isCompany ? convertOpeningHoursToSchema(entry.opening_hours) : null,
+    keywords: (entry.tags || []).join(','),
+  })
+}
+
+export const getEventJsonLd = (event: Event, url: string): JsonLd => (
+  removeEmptyValues({
+    '@context': 'https://schema.org',
+    '@type': 'Event',
+    '@id': url,
+    name: event.title,
+    description: event.description,
+    startDate: moment.unix(event.start).utc().format(),
+    endDate: moment.unix(event.end).utc().format(),
+    url: event.homepage,
+    image: event.image_url,
+    location: removeEmptyValues({
+      '@type': 'Place',
+      name: event.city,
+      address: getPostalAddress(event),
+      geo: getGeoCoordinates(event.lat, event.lng),
+    }),
+    organizer: isEmpty(event.organizer) ? null : removeEmptyValues({
+      '@type': 'Organization',
+      name: event.organizer,
+      email: event.email,
+      telephone: event.telephone,
+    }),
+    keywords: (event.tags || []).join(','),
+  })
+)
@@ -0,0 +1,52 @@
+import qs from 'qs'
+import { SHORT_LINK, VIEW_PARAMS } from '../consts/shortLink'
+
+
+const VIEW_PATH_PATTERN = /^\/maps\/[\w-]+(\/[\w-]+)*$/
+
+
+// the same view should always get the same short link, so the params are filtered and sorted
+// e.g. /maps/main?zoom=9&tag=b&tag=a&pinLat=1 -> /maps/main?tag=a&tag=b&zoom=9
+export const normalizeViewPath = (path: string): string | null => {
+  let url: URL
+  try {
+    // only the path and the query are taken, the host of the visitor does not matter
+    url = new URL(path, 'http://localhost')
+  } catch (e) {
+    return null
+  }
+
+  const pathname = url.pathname.replace(/\/+$/, '')
+  if (!VIEW_PATH_PATTERN.test(pathname)) {
+    return null
+  }
+
+  const query = [...VIEW_PARAMS]
+    .sort()
+    .reduce((viewQuery: Record<string, string[]>, param: string) => {
+      const values = url.searchParams.getAll(param).filter(value => value.length !== 0)
+      if (values.length !== 0) {
+        viewQuery[param] = values.sort()
+      }
+
+      return viewQuery
+    }, {})
+
+  return `${pathname}${qs.stringify(query, { addQueryPrefix: true, indices: false })}`
+}
+
+// the bytes come from a secure random source on the server
+export const createShortLinkCode = (randomBytes: Uint8Array): string => (
+  Array.from(randomBytes.slice(0, SHORT_LINK.codeLength))
+    .map(byte => SHORT_LINK.codeAlphabet[byte % SHORT_LINK.codeAlphabet.length])
+    .join('')
+)
+
+export const isShortLinkCode = (code: string): boolean => (
+  code.length === SHORT_LINK.codeLength &&
+  code.split('').every(character => SHORT_LINK.codeAlphabet.includes(character))
+)
+
+export const getShortLinkPath = (code: string): string => (
+  `${SHORT_LINK.basePath}/${code}`
+)
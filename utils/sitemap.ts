@@ -0,0 +1,89 @@
+import moment from 'moment'
+import { BoundingBox } from '../dtos/BoundingBox'
+import { convertSlugStepsToSlugArray } from './slug'
+import { RootSlugEntity, SlugId, SlugVerb } from './types'
+
+
+export interface SitemapUrl {
+  loc: string
+  // unix timestamp in seconds
+  lastmod?: number
+}
+
+// south, west, north, east like the bbox of the backend
+export type BBoxTuple = [number, number, number, number]
+
+
+export const escapeXml = (text: string): string => (
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;')
+)
+
+export const formatSitemapDate = (timestamp: number): string => (
+  moment.unix(timestamp).utc().format()
+)
+
+const convertSitemapUrlToXml = (tag: string) => (sitemapUrl: SitemapUrl): string => {
+  const lastmod = sitemapUrl.lastmod ? `<lastmod>${formatSitemapDate(sitemapUrl.lastmod)}</lastmod>` : ''
+
+  return `<${tag}><loc>${escapeXml(sitemapUrl.loc)}</loc>${lastmod}</${tag}>`
+}
+
+const createSitemapDocument = (rootTag: string, tag: string, sitemapUrls: SitemapUrl[]): string => (
+  [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<${rootTag} xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">`,
+    ...sitemapUrls.map(convertSitemapUrlToXml(tag)),
+    `</${rootTag}>`,
+    '',
+  ].join('\n')
+)
+
+export const createSitemap = (urls: SitemapUrl[]): string => (
+  createSitemapDocument('urlset', 'url', urls)
+)
+
+export const createSitemapIndex = (sitemaps: SitemapUrl[]): string => (
+  createSitemapDocument('sitemapindex', 'sitemap', sitemaps)
+)
+
+// every sitemap of the index knows the newest change of its urls
+export const getLatestLastmod = (urls: SitemapUrl[]): number | undefined => {
+  const lastmods = urls.map(url => url.lastmod).filter(lastmod => !!lastmod)
+
+  return lastmods.length === 0 ? undefined : Math.max(...lastmods)
+}
+
+
+// the same urls that the map uses to open an entity in the sidebar
+export const getEntityPath = (project: string, entity: RootSlugEntity, id: SlugId): string => {
+  const slugArray = convertSlugStepsToSlugArray(project, [{ entity, id, verb: SlugVerb.SHOW }])
+
+  return `/maps/${slugArray.join('/')}`
+}
+
+
+export const parseBBox = (bbox: BoundingBox): BBoxTuple => {
+  const [south, west, north, east] = bbox.split(',').map(Number)
+
+  return [south, west, north, east]
+}
+
+export const convertBBoxTupleToString = (bbox: BBoxTuple): BoundingBox => bbox.join(',')
+
+export const splitBBox = (bbox: BBoxTuple): BBoxTuple[] => {
+  const [south, west, north, east] = bbox
+  const midLat = (south + north) / 2
+  const midLng = (west + east) / 2
+
+  return [
+    [south, west, midLat, midLng],
+    [south, midLng, midLat, east],
+    [midLat, west, north, midLng],
+    [midLat, midLng, north, east],
+  ]
+}
@@ -1,27 +1,22 @@
 import { ParsedUrlQuery } from 'querystring'
 import isEmpty from 'lodash/isEmpty'
 import isString from 'lodash/isString'
-import dropRight from 'lodash/dropRight'
 import {
   mapPluralEntityNameToSingular,
-  mapTypeIdToPluralEntityName,
+  mapSingularEntityNameToPlural,
   PluralEntityName,
   RootSlugEntity,
   SingularEntityName,
   SlugAction,
+  SlugId,
   SlugVerb,
   validChildrenForEntity,
 } from './types'
-import { SearchEntryID } from '../dtos/SearchEntry'
-import { EventID } from '../dtos/Event'
-import { NextRouter } from 'next/router'
 import {
   convertQueryParamToArray,
   convertQueryParamToString,
   removeRoutingQueryParams,
-  updateRoutingQuery,
 } from './utils'
-import Category from '../dtos/Categories'
 
 
 export const getProjectNameFromQuery = (query: ParsedUrlQuery): string => {
@@ -136,43 +131,6 @@ export const getRootSlugActionFromQuery = (query: ParsedUrlQuery): SlugAction =>
 }
 
 
-export const redirectToEntityDetail = (
-  router: NextRouter,
-  id: SearchEntryID | EventID,
-  category: Category,
-  slugLevelsToIgnore: number = 0,
-  paramsToRemove: string[] = [],
-) => {
-  const { query } = router
-  const { slug } = query
-
-  const slugArray = convertQueryParamToArray(slug)
-  const skippedSlugArray = dropRight(slugArray, slugLevelsToIgnore)
-
-  let prunedQueryParams: ParsedUrlQuery = removeRoutingQueryParams(
-    query,
-    paramsToRemove,
-  )
-
-  const pluralTypeName = mapTypeIdToPluralEntityName[category]
-
-  const updatedQueryParams = updateRoutingQuery(
-    prunedQueryParams,
-    {
-      slug: [...skippedSlugArray, pluralTypeName, id],
-    },
-  )
-
-  router.replace(
-    {
-      pathname: '/maps/[...slug]',
-      query: updatedQueryParams,
-    },
-    undefined,
-    { shallow: true },
-  )
-}
-
 export const createSlugPathFromQueryAndRemoveSlug = (query: ParsedUrlQuery):
   [string, ParsedUrlQuery] => {
 
@@ -188,4 +146,54 @@ export const createSlugPathFromQueryAndRemoveSlug = (query: ParsedUrlQuery):
 
 
   return [slugPath, queryWithoutSlug]
-}
\ No newline at end of file
+}
+
+// a flat view of the linked slug actions without the root, from the outer entity to the inner one
+// e.g. entries/entryId/ratings/create -> [{entry, entryId, show}, {rating, null, create}]
+export interface SlugStep {
+  entity: string
+  id: SlugId
+  verb: SlugVerb
+}
+
+export const convertSlugActionToSlugSteps = (rootSlugAction: SlugAction): SlugStep[] => {
+  const slugSteps: SlugStep[] = []
+
+  let slugAction = rootSlugAction.subSlugAction
+  while (slugAction !== null) {
+    slugSteps.push({
+      entity: slugAction.entity,
+      id: slugAction.id,
+      verb: slugAction.verb,
+    })
+
+    slugAction = slugAction.subSlugAction
+  }
+
+  return slugSteps
+}
+
+// the reverse of getRootSlugActionFromQuery, it's the only place that should know the order of the slugs
+export const convertSlugStepsToSlugArray = (project: string, slugSteps: SlugStep[]): string[] => {
+  const slugArray = [project]
+
+  slugSteps.forEach((slugStep: SlugStep) => {
+    slugArray.push(mapSingularEntityNameToPlural[slugStep.entity])
+
+    if (slugStep.verb === SlugVerb.CREATE) {
+      slugArray.push(SlugVerb.CREATE)
+
+      return
+    }
+
+    if (slugStep.id !== null) {
+      slugArray.push(slugStep.id)
+    }
+
+    if (slugStep.verb === SlugVerb.EDIT) {
+      slugArray.push(SlugVerb.EDIT)
+    }
+  })
+
+  return slugArray
+}
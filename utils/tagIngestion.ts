@@ -0,0 +1,187 @@
+import parseCSV from 'csv-parse/lib/sync'
+import toString from 'lodash/toString'
+import { TagFrequency } from '../dtos/TagFrequency'
+import { TagCooccurrence } from '../dtos/TagCooccurrence'
+import { Schema, validateSchema } from './schema'
+
+
+// the tag frequencies come from the cron in production,
+// this is the way to fill them from a batch of counts or from an export of the entries without the network
+
+export interface TagIngestion {
+  frequencies: TagFrequency[]
+  // only the exports of the entries tell which tags are used together
+  cooccurrences: TagCooccurrence[]
+}
+
+export enum TagIngestionFormat {
+  COUNTS = 'counts',
+  ENTRIES_JSON = 'entries-json',
+  ENTRIES_CSV = 'entries-csv',
+}
+
+// e.g. { tags: [{ tag: 'repair', frequency: 12 }] }
+const countsSchema: Schema = {
+  type: 'object',
+  properties: {
+    tags: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          tag: { type: 'string' },
+          frequency: { type: 'number' },
+        },
+      },
+    },
+  },
+}
+
+// the json export of the entries has the tags as an array, the hand written fixtures may join them with commas
+const entriesSchema: Schema = {
+  type: 'array',
+  items: {
+    type: 'object',
+    properties: {
+      tags: {
+        type: 'oneOf',
+        optional: true,
+        schemas: [
+          { type: 'array', items: { type: 'string' } },
+          { type: 'string' },
+        ],
+      },
+    },
+  },
+}
+
+
+export const normalizeTag = (tag: string): string => (
+  tag.trim().toLowerCase()
+)
+
+// the tags of an entry count once, even if they are repeated
+const getEntryTags = (tags: string[] | string | null | undefined): string[] => {
+  const splitTags = Array.isArray(tags) ? tags : toString(tags).split(',')
+
+  return Array.from(new Set(
+    splitTags.map(normalizeTag).filter(tag => tag.length !== 0),
+  ))
+}
+
+const compareTagFrequencies = (a: TagFrequency, b: TagFrequency): number => (
+  b.frequency - a.frequency || a.tag.localeCompare(b.tag)
+)
+
+
+export const getTagIngestionFormat = (contentType: string, body: unknown): TagIngestionFormat => {
+  if (contentType.startsWith('text/csv')) {
+    return TagIngestionFormat.ENTRIES_CSV
+  }
+
+  return Array.isArray(body) ? TagIngestionFormat.ENTRIES_JSON : TagIngestionFormat.COUNTS
+}
+
+// the same tag may appear in different cases in a batch, their counts add up
+export const countTagFrequencies = (counts: TagFrequency[]): TagFrequency[] => {
+  const frequencies = new Map<string, number>()
+  counts.forEach(({ tag, frequency }) => {
+    const normalizedTag = normalizeTag(tag)
+    if (normalizedTag.length === 0) {
+      return
+    }
+
+    frequencies.set(normalizedTag, (frequencies.get(normalizedTag) || 0) + frequency)
+  })
+
+  return Array.from(frequencies, ([tag, frequency]) => ({ tag, frequency })).sort(compareTagFrequencies)
+}
+
+// every pair is counted in both directions like the cron does
+export const countEntriesTags = (entriesTags: string[][]): TagIngestion => {
+  const frequencies = new Map<string, number>()
+  const cooccurrences = new Map<string, TagCooccurrence>()
+
+  entriesTags.forEach(tags => {
+    tags.forEach(tag => {
+      frequencies.set(tag, (frequencies.get(tag) || 0) + 1)
+
+      tags.forEach(relatedTag => {
+        if (relatedTag === tag) {
+          return
+        }
+
+        const key = JSON.stringify([tag, relatedTag])
+        const cooccurrence = cooccurrences.get(key) || { tag, related_tag: relatedTag, frequency: 0 }
+        cooccurrence.frequency++
+        cooccurrences.set(key, cooccurrence)
+      })
+    })
+  })
+
+  return {
+    frequencies: Array.from(frequencies, ([tag, frequency]) => ({ tag, frequency })).sort(compareTagFrequencies),
+    cooccurrences: Array.from(cooccurrences.values()),
+  }
+}
+
+
+const parseCounts = (body: unknown): TagIngestion => {
+  const problems = validateSchema(countsSchema, body)
+  if (problems.length !== 0) {
+    throw new Error(problems.join(', '))
+  }
+
+  const { tags } = body as { tags: TagFrequency[] }
+  const invalidCount = tags.find(({ frequency }) => !Number.isInteger(frequency) || frequency < 0)
+  if (invalidCount) {
+    throw new Error(`the frequency of ${invalidCount.tag} should be a non negative integer`)
+  }
+
+  return {
+    frequencies: countTagFrequencies(tags),
+    cooccurrences: [],
+  }
+}
+
+const parseEntriesJSON = (body: unknown): TagIngestion => {
+  const problems = validateSchema(entriesSchema, body)
+  if (problems.length !== 0) {
+    throw new Error(problems.join(', '))
+  }
+
+  const entries = body as { tags?: string[] | string }[]
+
+  return countEntriesTags(entries.map(entry => getEntryTags(entry.tags)))
+}
+
+const parseEntriesCSV = (body: unknown): TagIngestion => {
+  if (typeof body !== 'string') {
+    throw new Error('the csv should be sent as text')
+  }
+
+  let entries: Record<string, string>[]
+  try {
+    entries = parseCSV(body, { columns: true, skip_empty_lines: true })
+  } catch (e) {
+    throw new Error(`the csv can not be read: ${e.message}`)
+  }
+
+  if (entries.length !== 0 && !('tags' in entries[0])) {
+    throw new Error('the csv should have a tags column')
+  }
+
+  return countEntriesTags(entries.map(entry => getEntryTags(entry.tags)))
+}
+
+// throws on the invalid bodies so the endpoint can tell the sender what is wrong
+export const parseTagIngestion = (format: TagIngestionFormat, body: unknown): TagIngestion => {
+  switch (format) {
+    case TagIngestionFormat.COUNTS:
+      return parseCounts(body)
+    case TagIngestionFormat.ENTRIES_JSON:
+      return parseEntriesJSON(body)
+    case TagIngestionFormat.ENTRIES_CSV:
+      return parseEntriesCSV(body)
+  }
+}
@@ -0,0 +1,73 @@
+import uniq from 'lodash/uniq'
+import { TagFrequency } from '../dtos/TagFrequency'
+import { TAG_FOLDINGS, TAG_SEARCH } from '../consts/tagSearch'
+
+
+// the tags and the search terms are folded the same way on both sides,
+// in javascript for the terms and in the sql of the migration of the index for the tags
+
+
+export const foldTag = (tag: string): string => (
+  TAG_FOLDINGS.reduce(
+    (foldedTag: string, [from, to]: [string, string]) => foldedTag.split(from).join(to),
+    tag.toLowerCase(),
+  )
+)
+
+export const getTrigrams = (text: string): string[] => {
+  const trigrams: string[] = []
+  for (let i = 0; i + 3 <= text.length; i++) {
+    trigrams.push(text.slice(i, i + 3))
+  }
+
+  return uniq(trigrams)
+}
+
+// any shared trigram makes a candidate, so a typo still leaves most of the term to match.
+// the terms shorter than a trigram can not be matched by the index
+export const createTrigramMatchQuery = (foldedTerm: string): string | null => {
+  const trigrams = getTrigrams(foldedTerm)
+  if (trigrams.length === 0) {
+    return null
+  }
+
+  return trigrams
+    .map(trigram => `"${trigram.replace(/"/g, '""')}"`)
+    .join(' OR ')
+}
+
+
+const getSimilarity = (foldedTag: string, foldedTerm: string): number => {
+  const termTrigrams = getTrigrams(foldedTerm)
+  if (termTrigrams.length === 0) {
+    return foldedTag.startsWith(foldedTerm) ? 1 : 0
+  }
+
+  const tagTrigrams = getTrigrams(foldedTag)
+  const sharedTrigrams = termTrigrams.filter(trigram => tagTrigrams.includes(trigram))
+
+  return sharedTrigrams.length / termTrigrams.length
+}
+
+// the quality of the match comes first, the frequency decides between the similar matches
+export const rankTagMatches = (candidates: TagFrequency[], term: string): TagFrequency[] => {
+  const foldedTerm = foldTag(term)
+  const maxFrequency = Math.max(0, ...candidates.map(candidate => candidate.frequency))
+  const { weights } = TAG_SEARCH
+
+  const scoredCandidates = candidates.map(candidate => {
+    const foldedTag = foldTag(candidate.tag)
+    const popularity = maxFrequency !== 0 ? Math.log1p(candidate.frequency) / Math.log1p(maxFrequency) : 0
+
+    const score = weights.similarity * getSimilarity(foldedTag, foldedTerm) +
+      weights.prefix * (foldedTag.startsWith(foldedTerm) ? 1 : 0) +
+      weights.exact * (foldedTag === foldedTerm ? 1 : 0) +
+      weights.frequency * popularity
+
+    return { candidate, score }
+  })
+
+  return scoredCandidates
+    .sort((a, b) => b.score - a.score || b.candidate.frequency - a.candidate.frequency)
+    .map(scoredCandidate => scoredCandidate.candidate)
+}
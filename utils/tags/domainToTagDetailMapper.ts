@@ -1,3 +1,7 @@
+import has from 'lodash/has'
+import { getDomainFromLink, isValidLink } from '../domain'
+
+
 const DEFAULT_ICON = 'link'
 
 const domainToTagDetailMapper: DomainToTagDetailMapper = {
@@ -72,4 +76,11 @@ export const hasTagDetailIcon = (tagDetail: TagDetail): boolean => {
   return tagDetail.name !== DEFAULT_ICON
 }
 
+// the links that are not known or not valid yet get the default icon
+export const getTagDetailFromLink = (link: string): TagDetail => {
+  const domain = isValidLink(link) ? getDomainFromLink(link) : 'default'
+
+  return has(domainToTagDetailMapper, domain) ? domainToTagDetailMapper[domain] : domainToTagDetailMapper.default
+}
+
 export default domainToTagDetailMapper
\ No newline at end of file
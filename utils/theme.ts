@@ -0,0 +1,39 @@
+import Category, { Categories, CategoryToNameMapper } from '../dtos/Categories'
+import MapPageConfigs from '../dtos/MapPageConfigs'
+import { CategoryName, ProjectTheme } from '../dtos/ProjectTheme'
+import { DEFAULT_THEME } from '../consts/theme'
+
+
+// the projects override only the parts of the default theme they want to brand
+export const getProjectTheme = (mapPageConfigs?: MapPageConfigs | null): ProjectTheme => {
+  const themeConfig = mapPageConfigs?.theme || {}
+
+  return {
+    ...DEFAULT_THEME,
+    ...themeConfig,
+    primaryBorderColor: themeConfig.primaryBorderColor || themeConfig.primaryColor || DEFAULT_THEME.primaryBorderColor,
+    primaryHoverBorderColor:
+      themeConfig.primaryHoverBorderColor || themeConfig.primaryHoverColor || DEFAULT_THEME.primaryHoverBorderColor,
+    pins: {
+      ...DEFAULT_THEME.pins,
+      ...themeConfig.pins,
+    },
+    accentColors: {
+      ...DEFAULT_THEME.accentColors,
+      ...themeConfig.accentColors,
+    },
+  }
+}
+
+// the backend sends an array of categories but only the first one decides the look
+const getCategoryName = (categories: Categories): CategoryName => (
+  (CategoryToNameMapper[categories[0]] || CategoryToNameMapper[Category.UNKNOWN]) as CategoryName
+)
+
+export const getPinUrl = (theme: ProjectTheme, categories: Categories): string => (
+  theme.pins[getCategoryName(categories)]
+)
+
+export const getAccentColor = (theme: ProjectTheme, category: Category): string => (
+  theme.accentColors[getCategoryName([category])]
+)